@@ -0,0 +1,40 @@
+import { article, cite, citeGroup, paragraph, person } from '@stencila/schema'
+
+/**
+ * An `Article` with a `Cite`, a `CiteGroup` and references to them.
+ * Used for testing the `citationStyle` encoding option.
+ */
+export default article({
+  title: 'An article with citations',
+  content: [
+    paragraph({
+      content: [
+        'As shown by ',
+        cite({ target: 'jones2019' }),
+        ' and others ',
+        citeGroup({
+          items: [cite({ target: 'smith2020' }), cite({ target: 'jones2019' })],
+        }),
+        '.',
+      ],
+    }),
+  ],
+  references: [
+    article({
+      id: 'smith2020',
+      title: 'Alpha',
+      authors: [person({ givenNames: ['Jane'], familyNames: ['Smith'] })],
+      datePublished: '2020',
+    }),
+    article({
+      id: 'jones2019',
+      title: 'Beta',
+      authors: [
+        person({ givenNames: ['Kim'], familyNames: ['Jones'] }),
+        person({ givenNames: ['Mia'], familyNames: ['Lee'] }),
+        person({ givenNames: ['Xu'], familyNames: ['Wu'] }),
+      ],
+      datePublished: '2019',
+    }),
+  ],
+})
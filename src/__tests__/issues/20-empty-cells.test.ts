@@ -1,4 +1,4 @@
-import stencila from '@stencila/schema'
+import stencila, { arrayValidator, integerValidator } from '@stencila/schema'
 import { CsvCodec } from '../../codecs/csv'
 import * as vfile from '../../util/vfile'
 
@@ -16,6 +16,9 @@ test('issue 20: empty cells ignored during conversion', async () => {
 11
 ,,
 `
+  const validator = arrayValidator({
+    itemsValidator: integerValidator({ meta: { nullable: true } }),
+  })
   const dt: stencila.Datatable = {
     type: 'Datatable',
     columns: [
@@ -23,16 +26,19 @@ test('issue 20: empty cells ignored during conversion', async () => {
         type: 'DatatableColumn',
         name: 'A',
         values: [1, 4, 6, null, 7, 8, null, 11, null],
+        validator,
       },
       {
         type: 'DatatableColumn',
         name: 'B',
         values: [2, null, null, null, null, 9, null, null, null],
+        validator,
       },
       {
         type: 'DatatableColumn',
         name: 'C',
         values: [3, 5, null, null, null, 10, null, null, null],
+        validator,
       },
     ],
   }
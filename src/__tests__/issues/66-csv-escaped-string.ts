@@ -1,3 +1,4 @@
+import { arrayValidator, stringValidator } from '@stencila/schema'
 import { CsvCodec } from '../../codecs/csv'
 import * as vfile from '../../util/vfile'
 
@@ -16,6 +17,9 @@ test('issue 66: csv codec properly escapes strings', async () => {
   const csv =
     'header1,header2,header3\r\ntext,"some text, it contains a comma",another text'
 
+  const validator = arrayValidator({
+    itemsValidator: stringValidator({ meta: { nullable: false } }),
+  })
   const datatable = await decode(await vfile.load(csv))
   expect(datatable).toEqual({
     type: 'Datatable',
@@ -24,16 +28,19 @@ test('issue 66: csv codec properly escapes strings', async () => {
         type: 'DatatableColumn',
         name: 'header1',
         values: ['text'],
+        validator,
       },
       {
         type: 'DatatableColumn',
         name: 'header2',
         values: ['some text, it contains a comma'],
+        validator,
       },
       {
         type: 'DatatableColumn',
         name: 'header3',
         values: ['another text'],
+        validator,
       },
     ],
   })
@@ -0,0 +1,70 @@
+import fs from 'fs-extra'
+import path from 'path'
+import tempy from 'tempy'
+import { batch, globBase } from './batch'
+import { Diagnostic } from './util/diagnostics'
+
+test('globBase', () => {
+  expect(globBase('papers/**/*.xml')).toBe('papers')
+  expect(globBase('papers/2020/*.xml')).toBe('papers/2020')
+  expect(globBase('*.xml')).toBe('.')
+  expect(globBase('/data/{a,b}/*.xml')).toBe('/data')
+  expect(globBase('papers/one.xml')).toBe('papers')
+})
+
+test('batch', async () => {
+  const dir = tempy.directory()
+  const papers = path.join(dir, 'papers')
+  await fs.outputFile(path.join(papers, 'one.md'), 'One')
+  await fs.outputFile(path.join(papers, '2020', 'two.md'), 'Two')
+  await fs.outputFile(path.join(papers, '2020', 'bad.json'), '{"type": ')
+  const out = path.join(dir, 'out')
+
+  const results = await batch(`${papers}/**/*.{md,json}`, out, {
+    to: 'yaml',
+    concurrency: 2,
+  })
+  expect(results).toEqual([
+    {
+      input: `${papers}/2020/bad.json`,
+      output: path.join(out, '2020', 'bad.yaml'),
+      error: expect.stringMatching(/JSON/),
+    },
+    {
+      input: `${papers}/2020/two.md`,
+      output: path.join(out, '2020', 'two.yaml'),
+    },
+    {
+      input: `${papers}/one.md`,
+      output: path.join(out, 'one.yaml'),
+    },
+  ])
+  expect(await fs.readFile(path.join(out, 'one.yaml'), 'utf8')).toMatch('One')
+  expect(await fs.readFile(path.join(out, '2020', 'two.yaml'), 'utf8')).toMatch(
+    'Two'
+  )
+  expect(await fs.pathExists(path.join(out, '2020', 'bad.yaml'))).toBe(false)
+})
+
+test('batch fails conversions that report errors', async () => {
+  const dir = tempy.directory()
+  await fs.outputFile(path.join(dir, 'one.md'), 'One')
+  const out = path.join(dir, 'out')
+
+  const diagnostics: Diagnostic[] = []
+  const results = await batch(`${dir}/*.md`, out, { to: 'csv', diagnostics })
+  expect(results).toEqual([
+    {
+      input: `${dir}/one.md`,
+      output: path.join(out, 'one.csv'),
+      error: expect.stringMatching(/expected a Datatable/),
+    },
+  ])
+  expect(diagnostics).toEqual([
+    expect.objectContaining({ severity: 'error', codec: 'csv' }),
+  ])
+})
+
+test('batch requires a format', async () => {
+  await expect(batch('*.md', 'out')).rejects.toThrow(/`to` option/)
+})
@@ -0,0 +1,133 @@
+/**
+ * @module batch
+ */
+
+import { getLogger } from '@stencila/logga'
+import globby from 'globby'
+import mime from 'mime'
+import os from 'os'
+import path from 'path'
+import { convert, ConvertOptions } from '.'
+import { Diagnostic } from './util/diagnostics'
+
+const log = getLogger('encoda:batch')
+
+export interface BatchOptions extends ConvertOptions {
+  /**
+   * The maximum number of conversions to run at the same time.
+   * Defaults to the number of CPUs.
+   */
+  concurrency?: number
+}
+
+/**
+ * The result of converting a file in a batch.
+ */
+export interface BatchResult {
+  input: string
+  output: string
+  /**
+   * The error message if the conversion failed (i.e. it threw
+   * an error or reported diagnostics with `error` severity).
+   */
+  error?: string
+}
+
+/**
+ * Convert a batch of files.
+ *
+ * Input files are found by expanding the glob patterns. Output files are
+ * written to `outputDir` with the same directory structure as the input files
+ * have relative to the base of the pattern (e.g. with the pattern `papers/**\/*.xml`,
+ * the file `papers/2020/one.xml` is converted to `<outputDir>/2020/one.html`).
+ *
+ * Conversions are run concurrently, with the same Puppeteer browser shared
+ * between them (callers should call `shutdown` once the batch is finished). A
+ * failed conversion does not stop the batch. Instead, the error is included
+ * in its result. Conversions that do not throw, but which report errors
+ * (e.g. a codec calling `log.error`), are also treated as failed, with the
+ * messages of those errors as the result's error.
+ *
+ * @param patterns Glob patterns for the input files
+ * @param outputDir The directory to write output files to
+ * @param options Conversion options, including `to` (required) and `concurrency`
+ * @returns A promise that resolves to a result for each input file
+ */
+export async function batch(
+  patterns: string | string[],
+  outputDir: string,
+  options: BatchOptions = {}
+): Promise<BatchResult[]> {
+  const {
+    concurrency = os.cpus().length,
+    diagnostics: allDiagnostics,
+    ...convertOptions
+  } = options
+  const { to } = convertOptions
+  if (to === undefined)
+    throw new Error('The `to` option is required for batch conversion')
+  const extName = to.includes('/') ? mime.getExtension(to) ?? to : to
+
+  const jobs: BatchResult[] = []
+  for (const pattern of Array.isArray(patterns) ? patterns : [patterns]) {
+    const base = globBase(pattern)
+    const inputs = await globby(pattern, { onlyFiles: true })
+    for (const input of inputs.sort()) {
+      const relative = path.relative(base, input)
+      const { dir, name } = path.parse(relative)
+      jobs.push({
+        input,
+        output: path.join(outputDir, dir, `${name}.${extName}`),
+      })
+    }
+  }
+  if (jobs.length === 0) log.warn(`No files match "${patterns.toString()}"`)
+
+  // Start `concurrency` workers each of which takes the next
+  // job until there are none remaining
+  let next = 0
+  const worker = async (): Promise<void> => {
+    while (next < jobs.length) {
+      const job = jobs[next++]
+      const diagnostics: Diagnostic[] = []
+      try {
+        await convert(job.input, job.output, {
+          ...convertOptions,
+          diagnostics,
+        })
+        const errors = diagnostics.filter(
+          (diagnostic) => diagnostic.severity === 'error'
+        )
+        if (errors.length > 0)
+          job.error = errors.map(({ message }) => message).join('; ')
+      } catch (error) {
+        job.error = error instanceof Error ? error.message : String(error)
+      }
+      allDiagnostics?.push(...diagnostics)
+      if (job.error === undefined)
+        log.debug(`Converted "${job.input}" to "${job.output}"`)
+      else log.debug(`Failed to convert "${job.input}": ${job.error}`)
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.max(1, concurrency) }, () => worker())
+  )
+
+  return jobs
+}
+
+/**
+ * Is the input a glob pattern (and should therefore be converted as a batch)?
+ */
+export const isPattern = (input: string): boolean => globby.hasMagic(input)
+
+/**
+ * Get the static base directory of a glob pattern i.e.
+ * the path up to the first segment containing special characters.
+ */
+export function globBase(pattern: string): string {
+  const segments = pattern.split('/')
+  const index = segments.findIndex((segment) => isPattern(segment))
+  if (index < 0) return path.dirname(pattern)
+  return index === 0 ? '.' : segments.slice(0, index).join('/')
+}
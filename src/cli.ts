@@ -31,59 +31,220 @@
  *
  * Please see the documentation for each function on the arguments required and
  * options available.
+ *
+ * Use the `--watch` option of `convert` to convert the input again whenever it,
+ * or any of the files that it includes, changes (stop watching with Ctrl+C):
+ *
+ * ```bash
+ * encoda convert ./article.md ./article.html --watch
+ * ```
+ *
+ * Use the `serve` command to serve the files in a directory as HTML, with pages
+ * reloaded whenever their source changes (stop serving with Ctrl+C):
+ *
+ * ```bash
+ * encoda serve ./drafts --port 8000 --theme elife
+ * ```
+ *
+ * If the input to `convert` is a glob pattern, the matching files are converted
+ * into the output directory, with `--concurrency` conversions at a time. The exit
+ * code is non-zero if any conversion fails:
+ *
+ * ```bash
+ * encoda convert 'papers/**\/*.xml' out/ --to html --concurrency 4
+ * ```
+ *
+ * Use `--http-mode replay` (with `--http-fixtures <dir>`) to convert using HTTP
+ * responses previously recorded with `--http-mode record`, without network access:
+ *
+ * ```bash
+ * encoda convert 10.5334/jors.182 jors.md --from doi --http-mode replay --http-fixtures fixtures
+ * ```
+ *
+ * Use `--no-cache` to convert without using cached HTTP responses, and the `cache`
+ * command to manage the cache (`stats`, `list`, `prune` or `clear`). Use
+ * `--cache-max-size` (in bytes) and `--cache-ttls` to limit the size of the cache
+ * and to override the time to live (in seconds) of responses from particular hosts:
+ *
+ * ```bash
+ * encoda convert 10.5334/jors.182 jors.md --from doi --no-cache
+ * encoda cache prune --cache-max-size 100000000 --cache-ttls api.crossref.org=86400
+ * ```
+ *
+ * Options can be written in kebab case, or in camel case as they are in the
+ * options object. For example, the following PDF encoding options are equivalent:
+ *
+ * ```bash
+ * encoda convert ./article.md ./article.pdf --page-size Letter --page-numbers
+ * encoda convert ./article.md ./article.pdf --pageSize Letter --pageNumbers
+ * ```
  */
 
 // eslint-disable-next-line import/no-named-default
 import { default as log, configure } from './log'
 import minimist from 'minimist'
 import path from 'path'
+import { batch, isPattern } from './batch'
+import { parsePageSize } from './codecs/pdf'
+import { CommonEncodeOptions } from './codecs/types'
 import { convert, read, write, shutdown } from './index'
 // eslint-disable-next-line import/no-named-default
 import { default as processNode } from './process'
 import { coerce } from './util/coerce'
+import * as http from './util/http'
+import { removeRanges } from './util/positions'
+import { serve } from './serve'
 import { validate } from './util/validate'
+import { watch } from './watch'
 import { themes } from '@stencila/thema'
+import cache, { parseTtls } from './util/app/cacheSync'
 
 // eslint-disable-next-line @typescript-eslint/no-floating-promises
 if (module.parent === null) cli()
 
 async function cli(): Promise<void> {
-  const { _, ...options } = minimist(process.argv.slice(2), {
-    boolean: ['standalone', 'bundle', 'debug'],
+  const { _, ...parsed } = minimist(process.argv.slice(2), {
+    boolean: ['standalone', 'bundle', 'debug', 'watch', 'cache'],
     default: {
+      cache: true,
       standalone: true,
       bundle: false,
       theme: themes.stencila,
       zip: 'no',
       debug: false,
+      watch: false,
     },
   })
+  // Allow options to be written in kebab case e.g. `--page-size Letter`
+  const {
+    httpMode,
+    httpFixtures,
+    httpServer,
+    cacheMaxSize,
+    cacheTtls,
+    ...options
+  } = camelCaseKeys(parsed)
   const command = _[0] ?? ''
   const args = _.slice(1)
+  const batching = command === 'convert' && isPattern(args[0] ?? '')
+
+  // Configure the log (when watching, serving or converting a batch,
+  // errors should not cause an exit)
+  configure(
+    asBoolean(options.debug),
+    options.watch !== true && command !== 'serve' && !batching
+  )
+
+  // Configure HTTP requests e.g. to replay fixtures when offline
+  http.configure({
+    mode: asString(httpMode) as http.HttpMode | undefined,
+    fixtures: asString(httpFixtures),
+    server: asString(httpServer),
+  })
+
+  // Configure the cache e.g. to limit its size
+  cache.configure({
+    // Parsed so that invalid values (e.g. `--cache-max-size 1GB`) are warned about
+    maxSize:
+      cacheMaxSize !== undefined ? parseFloat(String(cacheMaxSize)) : undefined,
+    ttls: cacheTtls !== undefined ? parseTtls(String(cacheTtls)) : undefined,
+  })
 
-  // Configure the log
-  configure(options.debug)
+  let exitCode = 0
 
   try {
-    if (command === 'convert') {
-      const { to, from, standalone, bundle, theme, zip, ...rest } = options
+    // Check the page size before starting, rather than failing, possibly
+    // after other files have been converted, when encoding a PDF
+    if (options.pageSize !== undefined) parsePageSize(options.pageSize)
 
-      await convert(args[0], args.slice(1), {
+    if (command === 'convert') {
+      const {
         to,
         from,
+        standalone,
+        bundle,
+        theme,
+        zip,
+        watch: watching,
+        concurrency,
+        cache: useCache,
+        ...rest
+      } = options
+      const convertOptions = {
+        to: asString(to),
+        from: asString(from),
+        cache: asBoolean(useCache),
         encodeOptions: {
-          isStandalone: standalone,
-          isBundle: bundle,
-          shouldZip: zip,
-          theme,
+          isStandalone: asBoolean(standalone),
+          isBundle: asBoolean(bundle),
+          shouldZip: asZip(zip),
+          theme: asString(theme),
           ...rest,
         },
+      }
+
+      if (batching) {
+        const results = await batch(args[0], args[1] ?? '.', {
+          ...convertOptions,
+          concurrency: asNumber(concurrency),
+        })
+        const failures = results.filter((result) => result.error !== undefined)
+        for (const { input, output, error } of results) {
+          if (error === undefined)
+            log.info(`Converted "${input}" to "${output}"`)
+          else log.error(`Failed to convert "${input}": ${error}`)
+        }
+        log.info(
+          `Converted ${results.length - failures.length} of ${
+            results.length
+          } files`
+        )
+        if (failures.length > 0) exitCode = 1
+      } else if (watching === true) {
+        const unwatch = await watch(args[0], args.slice(1), convertOptions)
+        await new Promise((resolve) => process.once('SIGINT', resolve))
+        unwatch()
+      } else await convert(args[0], args.slice(1), convertOptions)
+    } else if (command === 'serve') {
+      const { port, host, theme } = options
+      const server = await serve(args[0] ?? '.', {
+        port: asNumber(port),
+        host: asString(host),
+        theme: asString(theme),
       })
+      await new Promise((resolve) => process.once('SIGINT', resolve))
+      await server.close()
+    } else if (command === 'cache') {
+      const subcommand = args[0] ?? 'stats'
+      if (subcommand === 'stats') {
+        const { dir, count, size, maxSize } = cache.stats()
+        console.log(
+          `Directory: ${dir}\nEntries: ${count}\nSize: ${size} of ${maxSize} bytes`
+        )
+      } else if (subcommand === 'list') {
+        for (const { url, file, size, used } of cache.list())
+          console.log(`${used.toISOString()}\t${size}\t${url ?? file}`)
+      } else if (subcommand === 'prune') {
+        log.info(`Pruned ${cache.prune()} entries from the cache`)
+      } else if (subcommand === 'clear') {
+        cache.clear()
+        log.info('Cleared the cache')
+      } else log.error(`Unknown cache command "${subcommand}"`)
     } else if (['process', 'coerce', 'validate'].includes(command)) {
       const input = args[0]
       const output = args[1] ?? input
-      const { to, from, standalone, bundle, zip, theme, ...rest } = options
-      const node = await read(input, from)
+      const {
+        to,
+        from,
+        standalone,
+        bundle,
+        zip,
+        theme,
+        cache: _,
+        ...rest
+      } = options
+      // Record source positions so that errors have locations
+      const node = await read(input, asString(from), { positions: true })
       let processed
       if (command === 'process')
         processed = await processNode(node, path.dirname(input))
@@ -92,12 +253,12 @@ async function cli(): Promise<void> {
         await validate(node)
         processed = node
       } else processed = node
-      await write(processed, output, {
-        format: to,
-        isStandalone: standalone,
-        isBundle: bundle,
-        shouldZip: zip,
-        theme,
+      await write(removeRanges(processed), output, {
+        format: asString(to),
+        isStandalone: asBoolean(standalone),
+        isBundle: asBoolean(bundle),
+        shouldZip: asZip(zip),
+        theme: asString(theme),
         ...rest,
       })
     } else {
@@ -110,6 +271,53 @@ async function cli(): Promise<void> {
   } finally {
     // Success: graceful exit to ensure process does not hang.
     await shutdown()
-    process.exit(0)
+    process.exit(exitCode)
   }
 }
+
+/**
+ * Convert the keys of an object from kebab case to camel case
+ * e.g. `page-size` to `pageSize`.
+ */
+function camelCaseKeys(
+  object: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.entries(object).reduce(
+    (prev, [key, value]) => ({
+      ...prev,
+      [key.replace(/-(\w)/g, (_, char: string) => char.toUpperCase())]: value,
+    }),
+    {}
+  )
+}
+
+/**
+ * Narrow an option value to a string, if it is defined
+ * (e.g. `--theme 2020` is parsed as a number).
+ */
+function asString(value: unknown): string | undefined {
+  return value !== undefined ? String(value) : undefined
+}
+
+/**
+ * Narrow an option value to a number, if it is one.
+ */
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined
+}
+
+/**
+ * Narrow an option value to a boolean, if it is one.
+ */
+function asBoolean(value: unknown): boolean | undefined {
+  return typeof value === 'boolean' ? value : undefined
+}
+
+/**
+ * Narrow the `--zip` option to one of its allowed values.
+ */
+function asZip(value: unknown): CommonEncodeOptions['shouldZip'] {
+  return value === 'yes' || value === 'no' || value === 'maybe'
+    ? value
+    : undefined
+}
@@ -1,3 +1,4 @@
+import * as stencila from '@stencila/schema'
 import { CrossrefCodec } from '.'
 import * as vfile from '../../util/vfile'
 import { nockRecord, snapshot } from '../../__tests__/helpers'
@@ -18,7 +19,58 @@ test.skip('decode', async () => {
 })
 
 test('encode', async () => {
-  expect(() => encode()).toThrow(
-    /Encoding to a Crossref query is not supported/
+  const article = stencila.article({
+    title: 'Tensors.jl — Tensor Computations in Julia',
+    authors: [
+      stencila.person({
+        givenNames: ['Kristoffer'],
+        familyNames: ['Carlsson'],
+        id: 'https://orcid.org/0000-0001-9092-3092',
+      }),
+      stencila.person({ givenNames: ['Fredrik'], familyNames: ['Ekre'] }),
+    ],
+    description: 'A package for tensor computations.',
+    datePublished: stencila.date({ value: '2019-02-12' }),
+    isPartOf: stencila.publicationVolume({
+      volumeNumber: 7,
+      isPartOf: stencila.periodical({
+        name: 'Journal of Open Research Software',
+        issns: ['2049-9647'],
+      }),
+    }),
+    pageStart: 1,
+    url: 'https://openresearchsoftware.metajnl.com/articles/10.5334/jors.182/',
+    publisher: stencila.organization({ name: 'Ubiquity Press, Ltd.' }),
+    identifiers: [
+      stencila.propertyValue({ name: 'doi', value: '10.5334/jors.182' }),
+    ],
+    references: [
+      stencila.article({
+        id: 'bib1',
+        title: 'Julia: A fresh approach to numerical computing',
+        identifiers: [
+          stencila.propertyValue({ name: 'doi', value: '10.1137/141000671' }),
+        ],
+      }),
+      stencila.article({
+        id: 'bib2',
+        title: 'Tensor decompositions and applications',
+        authors: [
+          stencila.person({ givenNames: ['T'], familyNames: ['Kolda'] }),
+        ],
+        datePublished: '2009',
+        isPartOf: stencila.periodical({ name: 'SIAM Review' }),
+      }),
+      'A reference that is only a string',
+    ],
+  })
+
+  const xml = (await vfile.dump(await encode(article)))
+    .replace(/<doi_batch_id>\w+<\/doi_batch_id>/, '<doi_batch_id/>')
+    .replace(/<timestamp>\d+<\/timestamp>/, '<timestamp/>')
+  expect(xml).toMatchFile(snapshot('article.xml'))
+
+  expect(() => encode(stencila.paragraph({ content: [] }))).toThrow(
+    /Only an `Article` can be encoded/
   )
 })
@@ -1,13 +1,52 @@
 /**
- * Compiler for a Digital Object Identifier (DOI) URL i.e. `http[s]://doi.org/<DOI>`
+ * Codec for Crossref.
+ *
+ * Decodes a bibliographic query (e.g. the text of a reference) by searching
+ * Crossref, and encodes an `Article` as a Crossref deposit XML document.
  */
+import { getLogger } from '@stencila/logga'
 import stencila from '@stencila/schema'
+import crypto from 'crypto'
 import * as http from '../../util/http'
+import { getIdentifier, matchIdentifier } from '../../util/identifiers'
 import * as vfile from '../../util/vfile'
+import * as xml from '../../util/xml'
 import { decodeCsl } from '../csl'
-import { Codec } from '../types'
+import { OrcidCodec } from '../orcid'
+import { TxtCodec } from '../txt'
+import { Codec, CommonEncodeOptions } from '../types'
 
-export class CrossrefCodec extends Codec implements Codec {
+const { elem } = xml
+
+const log = getLogger('encoda:crossref')
+
+/**
+ * The version of the Crossref deposit schema that is encoded to.
+ */
+const SCHEMA_VERSION = '5.3.1'
+
+export interface EncodeOptions extends CommonEncodeOptions {
+  /**
+   * The name of the organization, or person, depositing the metadata.
+   * Defaults to the name of the article's publisher.
+   */
+  depositorName?: string
+
+  /**
+   * The email address of the depositor, to which Crossref
+   * sends the results of the deposit.
+   */
+  depositorEmail?: string
+
+  /**
+   * The organization that owns the information being registered.
+   * Defaults to the name of the article's publisher.
+   */
+  registrant?: string
+}
+
+export class CrossrefCodec extends Codec<EncodeOptions>
+  implements Codec<EncodeOptions> {
   public readonly mediaTypes = ['text/x-crossref-query']
 
   public readonly extNames = ['crossref-query']
@@ -22,7 +61,7 @@ export class CrossrefCodec extends Codec implements Codec {
   ): Promise<stencila.Node> => {
     const content = await vfile.dump(file)
     const response = await http.get('https://api.crossref.org/works', {
-      query: {
+      searchParams: {
         'query.bibliographic': content,
       },
     })
@@ -50,7 +89,321 @@ export class CrossrefCodec extends Codec implements Codec {
     throw new Error(`Request failed`)
   }
 
-  public readonly encode = (): Promise<vfile.VFile> => {
-    throw new Error(`Encoding to a Crossref query is not supported`)
+  /**
+   * Encode an `Article` as a Crossref deposit XML document.
+   *
+   * See https://www.crossref.org/documentation/content-registration/
+   * for the schema. The document is intended to be reviewed, and completed
+   * if necessary (e.g. with the depositor's email), before depositing.
+   */
+  public readonly encode = (
+    node: stencila.Node,
+    options: EncodeOptions = this.commonEncodeDefaults
+  ): Promise<vfile.VFile> => {
+    if (!stencila.isArticle(node))
+      throw new Error('Only an `Article` can be encoded to Crossref XML')
+
+    const publisher =
+      node.publisher !== undefined
+        ? node.publisher.name ?? TxtCodec.stringify(node.publisher)
+        : undefined
+    const {
+      depositorName = publisher ?? '',
+      depositorEmail = '',
+      registrant = publisher ?? '',
+    } = options
+
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[^\d]/g, '')
+      .slice(0, 14)
+
+    const doc = {
+      declaration: { attributes: { version: '1.0', encoding: 'utf-8' } },
+      elements: [
+        elem(
+          'doi_batch',
+          {
+            version: SCHEMA_VERSION,
+            xmlns: `http://www.crossref.org/schema/${SCHEMA_VERSION}`,
+            'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+            'xmlns:jats': 'http://www.ncbi.nlm.nih.gov/JATS1',
+            'xsi:schemaLocation': `http://www.crossref.org/schema/${SCHEMA_VERSION} https://www.crossref.org/schemas/crossref${SCHEMA_VERSION}.xsd`,
+          },
+          elem(
+            'head',
+            elem('doi_batch_id', crypto.randomBytes(16).toString('hex')),
+            elem('timestamp', timestamp),
+            elem(
+              'depositor',
+              elem('depositor_name', depositorName),
+              elem('email_address', depositorEmail)
+            ),
+            elem('registrant', registrant)
+          ),
+          elem('body', encodeJournal(node))
+        ),
+      ],
+    }
+    return Promise.resolve(vfile.load(xml.dump(doc, { spaces: 2 })))
+  }
+}
+
+/**
+ * Get the periodical, volume and issue that a work is part of.
+ */
+function journalOf(
+  work: stencila.CreativeWork
+): {
+  journal?: string
+  issns: string[]
+  volume?: string
+  issue?: string
+} {
+  const result: ReturnType<typeof journalOf> = { issns: [] }
+  let parent = work.isPartOf
+  while (parent !== undefined) {
+    if (stencila.isA('PublicationIssue', parent))
+      result.issue = parent.issueNumber?.toString()
+    else if (stencila.isA('PublicationVolume', parent))
+      result.volume = parent.volumeNumber?.toString()
+    else if (stencila.isA('Periodical', parent)) {
+      const { name, title, issns = [] } = parent
+      result.journal =
+        name ??
+        (title === undefined
+          ? undefined
+          : typeof title === 'string'
+          ? title
+          : TxtCodec.stringify(title))
+      result.issns = issns
+    }
+    parent = parent.isPartOf
   }
+  return result
+}
+
+/**
+ * Encode an `Article` as a Crossref `<journal>` element.
+ *
+ * The journal, volume and issue are obtained from the
+ * `isPartOf` property of the article.
+ */
+function encodeJournal(article: stencila.Article): xml.Element {
+  const { journal = '', issns, volume, issue } = journalOf(article)
+
+  const journalMetadata = elem(
+    'journal_metadata',
+    elem('full_title', journal),
+    ...issns.map((issn) => elem('issn', issn))
+  )
+
+  const journalIssue =
+    volume !== undefined || issue !== undefined
+      ? elem(
+          'journal_issue',
+          volume !== undefined
+            ? elem('journal_volume', elem('volume', volume))
+            : null,
+          issue !== undefined ? elem('issue', issue) : null
+        )
+      : null
+
+  return elem(
+    'journal',
+    journalMetadata,
+    journalIssue,
+    encodeJournalArticle(article)
+  )
+}
+
+/**
+ * Encode an `Article` as a Crossref `<journal_article>` element.
+ */
+function encodeJournalArticle(article: stencila.Article): xml.Element {
+  const {
+    title,
+    authors = [],
+    description,
+    datePublished,
+    pageStart,
+    pageEnd,
+    url,
+    references = [],
+  } = article
+
+  const doi = getIdentifier(article, 'doi')
+  if (doi === undefined)
+    log.warn('Article has no DOI, which is required by Crossref')
+  else if (url === undefined)
+    log.warn('Article has no URL, which is required by Crossref for the DOI')
+
+  const titles = elem(
+    'titles',
+    elem(
+      'title',
+      title === undefined
+        ? ''
+        : typeof title === 'string'
+        ? title
+        : TxtCodec.stringify(title)
+    )
+  )
+
+  const contributors =
+    authors.length > 0
+      ? elem(
+          'contributors',
+          ...authors.map((author, index) =>
+            encodeContributor(author, index === 0 ? 'first' : 'additional')
+          )
+        )
+      : null
+
+  const abstract =
+    description !== undefined
+      ? elem(
+          'jats:abstract',
+          elem(
+            'jats:p',
+            typeof description === 'string'
+              ? description
+              : TxtCodec.stringify(description)
+          )
+        )
+      : null
+
+  const date = encodeDate(datePublished)
+
+  const pages =
+    pageStart !== undefined
+      ? elem(
+          'pages',
+          elem('first_page', `${pageStart}`),
+          pageEnd !== undefined ? elem('last_page', `${pageEnd}`) : null
+        )
+      : null
+
+  const doiData =
+    doi !== undefined
+      ? elem('doi_data', elem('doi', doi), elem('resource', url ?? ''))
+      : null
+
+  const citations =
+    references.length > 0
+      ? elem('citation_list', ...references.map(encodeCitation))
+      : null
+
+  return elem(
+    'journal_article',
+    { publication_type: 'full_text' },
+    titles,
+    contributors,
+    abstract,
+    date,
+    pages,
+    doiData,
+    citations
+  )
+}
+
+/**
+ * Encode an author as a Crossref `<person_name>` or `<organization>` element.
+ */
+function encodeContributor(
+  author: stencila.Person | stencila.Organization,
+  sequence: 'first' | 'additional'
+): xml.Element {
+  const attrs = { sequence, contributor_role: 'author' }
+  if (stencila.isA('Organization', author))
+    return elem('organization', attrs, author.name ?? '')
+
+  const { givenNames = [], familyNames = [], name } = author
+  const orcid = matchIdentifier(author, OrcidCodec.regex)
+  return elem(
+    'person_name',
+    attrs,
+    givenNames.length > 0 ? elem('given_name', givenNames.join(' ')) : null,
+    elem(
+      'surname',
+      familyNames.length > 0 ? familyNames.join(' ') : name ?? ''
+    ),
+    orcid !== undefined ? elem('ORCID', `https://orcid.org/${orcid[4]}`) : null
+  )
+}
+
+/**
+ * Encode a date as a Crossref `<publication_date>` element.
+ */
+function encodeDate(
+  date: stencila.Date | string | undefined
+): xml.Element | null {
+  if (date === undefined) return null
+  const value = typeof date === 'string' ? date : date.value
+  const match = /^(\d{4})(-(\d{2}))?(-(\d{2}))?/.exec(value)
+  if (match === null) return null
+  const [, year, , month, , day] = match
+  return elem(
+    'publication_date',
+    { media_type: 'online' },
+    month !== undefined ? elem('month', month) : null,
+    day !== undefined ? elem('day', day) : null,
+    elem('year', year)
+  )
+}
+
+/**
+ * Encode a reference as a Crossref `<citation>` element.
+ *
+ * If the reference has a DOI then that is used, otherwise
+ * an unstructured citation is created from the reference.
+ */
+function encodeCitation(
+  reference: stencila.CreativeWork | string,
+  index: number
+): xml.Element {
+  const key =
+    typeof reference !== 'string' && reference.id !== undefined
+      ? reference.id
+      : `ref${index + 1}`
+  if (typeof reference === 'string')
+    return elem('citation', { key }, elem('unstructured_citation', reference))
+
+  const doi = getIdentifier(reference, 'doi')
+  if (doi !== undefined) return elem('citation', { key }, elem('doi', doi))
+
+  const { authors = [], datePublished, title } = reference
+  const parts = [
+    authors
+      .map((author) =>
+        stencila.isA('Person', author)
+          ? [...(author.familyNames ?? []), ...(author.givenNames ?? [])].join(
+              ' '
+            )
+          : author.name ?? ''
+      )
+      .join(', '),
+    datePublished !== undefined
+      ? `(${
+          (typeof datePublished === 'string'
+            ? datePublished
+            : datePublished.value
+          ).split('-')[0]
+        })`
+      : '',
+    title !== undefined
+      ? typeof title === 'string'
+        ? title
+        : TxtCodec.stringify(title)
+      : '',
+    journalOf(reference).journal ?? '',
+  ]
+  return elem(
+    'citation',
+    { key },
+    elem(
+      'unstructured_citation',
+      parts.filter((part) => part.length > 0).join('. ')
+    )
+  )
 }
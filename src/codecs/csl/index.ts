@@ -11,6 +11,7 @@ import path from 'path'
 import { load } from '../..'
 import { logErrorNodeType, logWarnLoss, logWarnLossIfAny } from '../../log'
 import { TxtCodec } from '../txt'
+import { getIdentifier } from '../../util/identifiers'
 import * as vfile from '../../util/vfile'
 import { Codec, CommonEncodeOptions, CommonDecodeOptions } from '../types'
 
@@ -125,6 +126,7 @@ export async function decodeCsl(
     'publisher-place': publisherPlace,
 
     URL: url,
+    DOI: doi,
 
     // @ts-ignore this hidden Citation.js property
     _graph,
@@ -179,10 +181,22 @@ export async function decodeCsl(
       })
     }
 
+    const identifiers =
+      doi !== undefined
+        ? [
+            schema.propertyValue({
+              name: 'doi',
+              propertyID: 'https://registry.identifiers.org/registry/doi',
+              value: doi,
+            }),
+          ]
+        : undefined
+
     return schema.article({
       authors,
       title,
       id,
+      identifiers,
       datePublished,
       isPartOf,
       pageStart,
@@ -232,6 +246,7 @@ export const encodeCreativeWork = (
     isPartOf,
     publisher,
     url,
+    identifiers,
     ...lost
   } = work
   logWarnLossIfAny('csl', 'encode', work, lost)
@@ -246,6 +261,7 @@ export const encodeCreativeWork = (
     author: authors.map(encodeAuthor),
     issued: date !== undefined ? encodeDate(date) : undefined,
     URL: url,
+    DOI: getIdentifier(work, 'doi'),
     ...encodePublisher(publisher),
     ...encodeIsPartOf(isPartOf),
   }
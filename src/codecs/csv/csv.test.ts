@@ -1,9 +1,32 @@
+import {
+  arrayValidator,
+  Datatable,
+  integerValidator,
+  stringValidator,
+} from '@stencila/schema'
+import fs from 'fs-extra'
+import path from 'path'
+import {
+  datatableToStream,
+  streamToDatatable,
+} from '../../util/datatable/stream'
+import { match } from '../..'
+import { inferValidators } from '../../util/datatable/infer'
 import { dump, load } from '../../util/vfile'
 import { CsvCodec } from './'
 
-const { decode, encode } = new CsvCodec()
+const { decode, encode, decodeStream, encodeStream } = new CsvCodec()
 
-const simple = {
+const outputs = path.join(__dirname, '__outputs__')
+
+const integers = arrayValidator({
+  itemsValidator: integerValidator({ meta: { nullable: false } }),
+})
+const strings = arrayValidator({
+  itemsValidator: stringValidator({ meta: { nullable: false } }),
+})
+
+const simple: { content: string; node: Datatable } = {
   content: `A,B,C\n1,2,3\n2,5,6\n3,8,9\n`,
   node: {
     type: 'Datatable',
@@ -11,23 +34,26 @@ const simple = {
       {
         type: 'DatatableColumn',
         name: 'A',
+        validator: integers,
         values: [1, 2, 3],
       },
       {
         type: 'DatatableColumn',
         name: 'B',
+        validator: integers,
         values: [2, 5, 8],
       },
       {
         type: 'DatatableColumn',
         name: 'C',
+        validator: integers,
         values: [3, 6, 9],
       },
     ],
   },
 }
 
-const named = {
+const named: { content: string; node: Datatable } = {
   content: `code,height,width\na,2,3\nb,5,6\nc,8,9\n`,
   node: {
     type: 'Datatable',
@@ -35,34 +61,162 @@ const named = {
       {
         type: 'DatatableColumn',
         name: 'code',
+        validator: strings,
         values: ['a', 'b', 'c'],
       },
       {
         type: 'DatatableColumn',
         name: 'height',
+        validator: integers,
         values: [2, 5, 8],
       },
       {
         type: 'DatatableColumn',
         name: 'width',
+        validator: integers,
         values: [3, 6, 9],
       },
     ],
   },
 }
 
+test('match', async () => {
+  expect(await match('./data.tsv')).toBeInstanceOf(CsvCodec)
+  expect(await match(undefined, 'tsv')).toBeInstanceOf(CsvCodec)
+  expect(await match(undefined, 'text/tab-separated-values')).toBeInstanceOf(
+    CsvCodec
+  )
+})
+
 test('decode', async () => {
   expect(await decode(load(simple.content))).toEqual(simple.node)
   expect(await decode(load(named.content))).toEqual(named.node)
 })
 
-describe('encode', () => {
-  const normalizeNewline = function (actual: string) {
-    let normalized = actual.replace(/\r\n/g, '\n')
-    if (!normalized.endsWith('\n')) normalized += '\n'
-    return normalized
-  }
+describe('decode options', () => {
+  const column = (name: string, values: unknown[]) => ({
+    type: 'DatatableColumn',
+    name,
+    values,
+  })
+
+  test('single row', async () => {
+    expect(await decode(load('a,b,c\n'))).toMatchObject({
+      type: 'Datatable',
+      columns: [column('a', []), column('b', []), column('c', [])],
+    })
+    expect(await decode(load('1,2\n'))).toMatchObject({
+      type: 'Datatable',
+      columns: [column('A', [1]), column('B', [2])],
+    })
+  })
 
+  test('delimiter', async () => {
+    expect(
+      await decode(load('a;b\n1,5;2\n'), { delimiter: ';' })
+    ).toMatchObject({
+      type: 'Datatable',
+      columns: [column('a', ['1,5']), column('b', [2])],
+    })
+    expect(await decode(load('a\tb\n1\t2\n'), { format: 'tsv' })).toMatchObject(
+      {
+        type: 'Datatable',
+        columns: [column('a', [1]), column('b', [2])],
+      }
+    )
+  })
+
+  test('quoteChar', async () => {
+    expect(
+      await decode(load("a,b\n'1,2',3\n"), { quoteChar: "'" })
+    ).toMatchObject({
+      type: 'Datatable',
+      columns: [column('a', ['1,2']), column('b', [3])],
+    })
+  })
+
+  test('encoding', async () => {
+    const file = load(Buffer.from('nom\ncafé\n', 'latin1'))
+    expect(await decode(file, { encoding: 'latin1' })).toMatchObject({
+      type: 'Datatable',
+      columns: [column('nom', ['café'])],
+    })
+  })
+
+  test('header', async () => {
+    expect(await decode(load('a,b\nc,d\n'), { header: 'no' })).toMatchObject({
+      type: 'Datatable',
+      columns: [column('A', ['a', 'c']), column('B', ['b', 'd'])],
+    })
+    expect(
+      await decode(load('2019,2020\n1,2\n'), { header: 'yes' })
+    ).toMatchObject({
+      type: 'Datatable',
+      columns: [column('2019', [1]), column('2020', [2])],
+    })
+  })
+
+  test('skipRows', async () => {
+    expect(
+      await decode(load('# Exported by instrument\na,b\n1,2\n'), {
+        skipRows: 1,
+      })
+    ).toMatchObject({
+      type: 'Datatable',
+      columns: [column('a', [1]), column('b', [2])],
+    })
+  })
+
+  test('naStrings', async () => {
+    expect(
+      await decode(load('a,b\n1,NA\n-,\n'), { naStrings: ['NA', '-'] })
+    ).toMatchObject({
+      type: 'Datatable',
+      columns: [column('a', [1, null]), column('b', [null, ''])],
+    })
+  })
+
+  test('columns', async () => {
+    expect(
+      await decode(load('id,count,flag\n007,1.0,yes\n008,x,no\n'), {
+        columns: { id: 'string', count: 'integer', flag: 'boolean' },
+      })
+    ).toEqual({
+      type: 'Datatable',
+      columns: [
+        {
+          ...column('id', ['007', '008']),
+          validator: {
+            type: 'ArrayValidator',
+            itemsValidator: { type: 'StringValidator' },
+          },
+        },
+        {
+          ...column('count', [null, null]),
+          validator: {
+            type: 'ArrayValidator',
+            itemsValidator: { type: 'IntegerValidator' },
+          },
+        },
+        {
+          ...column('flag', [true, false]),
+          validator: {
+            type: 'ArrayValidator',
+            itemsValidator: { type: 'BooleanValidator' },
+          },
+        },
+      ],
+    })
+  })
+})
+
+const normalizeNewline = function (actual: string) {
+  let normalized = actual.replace(/\r\n/g, '\n')
+  if (!normalized.endsWith('\n')) normalized += '\n'
+  return normalized
+}
+
+describe('encode', () => {
   test('simple', async () => {
     expect(normalizeNewline(await dump(await encode(simple.node)))).toEqual(
       simple.content
@@ -74,4 +228,53 @@ describe('encode', () => {
       named.content
     )
   })
+
+  test('delimiter', async () => {
+    expect(
+      normalizeNewline(await dump(await encode(named.node, { format: 'tsv' })))
+    ).toEqual(named.content.replace(/,/g, '\t'))
+    expect(
+      normalizeNewline(await dump(await encode(named.node, { delimiter: ';' })))
+    ).toEqual(named.content.replace(/,/g, ';'))
+  })
+})
+
+describe('streaming', () => {
+  afterAll(() => fs.remove(outputs))
+
+  test('decodeStream', async () => {
+    const file = path.join(outputs, 'simple.csv')
+    await fs.outputFile(file, simple.content)
+    expect(
+      inferValidators(await streamToDatatable(await decodeStream(file)))
+    ).toEqual(simple.node)
+  })
+
+  test('encodeStream', async () => {
+    const file = path.join(outputs, 'named.csv')
+    await encodeStream(datatableToStream(named.node, 2), file)
+    expect(normalizeNewline(await fs.readFile(file, 'utf8'))).toEqual(
+      named.content
+    )
+  })
+
+  test('round trip with many batches', async () => {
+    const file = path.join(outputs, 'many.csv')
+    const rows = Array.from({ length: 25001 }, (_, index) => `${index},x`)
+    await fs.outputFile(file, ['id,value', ...rows].join('\n'))
+
+    const datatable = await streamToDatatable(await decodeStream(file))
+    expect(datatable.columns.map((column) => column.name)).toEqual([
+      'id',
+      'value',
+    ])
+    expect(datatable.columns[0].values.length).toEqual(25001)
+    expect(datatable.columns[0].values[25000]).toEqual(25000)
+
+    const copy = path.join(outputs, 'many-copy.csv')
+    await encodeStream(datatableToStream(datatable), copy)
+    expect(normalizeNewline(await fs.readFile(copy, 'utf8'))).toEqual(
+      normalizeNewline(await fs.readFile(file, 'utf8'))
+    )
+  })
 })
@@ -4,111 +4,425 @@
 
 import * as stencila from '@stencila/schema'
 import { getLogger } from '@stencila/logga'
+import fs from 'fs-extra'
 import * as papaparse from 'papaparse'
-import { range } from 'fp-ts/lib/Array'
+import path from 'path'
+import { pipeline, Readable } from 'stream'
+import { promisify } from 'util'
+import { inferValidators } from '../../util/datatable/infer'
+import {
+  DatatableStream,
+  datatableToStream,
+  DEFAULT_BATCH_SIZE,
+  rowsToStream,
+  streamToDatatable,
+} from '../../util/datatable/stream'
+import { report } from '../../util/diagnostics'
 import * as vfile from '../../util/vfile'
-import { Codec } from '../types'
+import { Codec, CommonDecodeOptions, CommonEncodeOptions } from '../types'
 import { columnIndexToName } from '../xlsx'
 
 const log = getLogger('encoda:csv')
 
-export class CsvCodec extends Codec implements Codec {
-  public readonly mediaTypes = ['text/csv']
+/**
+ * The types that columns can be explicitly decoded as.
+ */
+export type ColumnType = 'string' | 'number' | 'integer' | 'boolean'
 
-  public readonly decode = async (
-    file: vfile.VFile
-  ): Promise<stencila.Node> => {
-    const csv = await vfile.dump(file)
-
-    // Trim trailing newline
-    const csvTrimmed = csv.replace(/(\r|\n)*$/g, '')
-
-    const { data, errors } = papaparse.parse<string>(csvTrimmed, {
-      // We detect ourselves whether a header is present below
-      header: false,
-      // Turn on dynamic typing so that booleans and numbers are coerced
-      dynamicTyping: true,
-    })
-
-    for (const error of errors) {
-      // According to the https://www.papaparse.com/docs#errors:
-      //   "Just because errors are generated does not necessarily mean that parsing failed.
-      //   The worst error you can get is probably MissingQuotes."
-      // So log a warning, not an error.
-      const { code, message, row } = error
-      const location =
-        (file.path !== undefined ? file.path + ':' : '') + row.toString()
-      log.warn(`${location} ${code} ${message}`)
-    }
+export interface DecodeOptions extends CommonDecodeOptions {
+  /**
+   * The delimiter between values e.g. `;`.
+   * Defaults to a tab for TSV, otherwise it is guessed
+   * (from comma, tab, pipe and semicolon).
+   */
+  delimiter?: string
 
-    // Detect if there is a header row
-    // The first row is considered a header if all values are strings
-    let headerRow = true
-    let columnNum = 0
-    let columnNames: string[] = []
-    if (data.length > 0) {
-      columnNum = data[1].length
-      for (const cell of data[0]) {
-        if (typeof cell === 'string') {
-          columnNames.push(cell)
-        } else {
-          headerRow = false
-          break
-        }
-      }
-    }
+  /**
+   * The character used to quote values.
+   * Defaults to `"`.
+   */
+  quoteChar?: string
 
-    // Default to using column names to A, B,..., AA, AB etc
-    if (!headerRow) columnNames = range(0, columnNum - 1).map(columnIndexToName)
-
-    const rowNum = data.length - (headerRow ? 1 : 0)
-
-    // Create columns with pre-allocated array of correct length
-    const columns = columnNames.map((name) => {
-      return stencila.datatableColumn({
-        name,
-        values: Array(rowNum),
-      })
-    })
-
-    // Populate the column values with data
-    for (let rowIndex = 0; rowIndex < rowNum; rowIndex++) {
-      const row = data[rowIndex + (headerRow ? 1 : 0)]
-      for (let columnIndex = 0; columnIndex < columnNum; columnIndex++) {
-        const value = row[columnIndex]
-        columns[columnIndex].values[rowIndex] =
-          value !== undefined ? value : null
-      }
-    }
+  /**
+   * The character encoding of the file.
+   * Defaults to `utf8`.
+   */
+  encoding?: BufferEncoding
+
+  /**
+   * Is the first row (after any skipped rows) column names?
+   * Defaults to `auto`: the first row is column names if
+   * none of its values are numbers, booleans or missing.
+   */
+  header?: 'yes' | 'no' | 'auto'
+
+  /**
+   * The number of rows to skip at the start of the file
+   * (e.g. comments or metadata before the header).
+   * Defaults to `0`.
+   */
+  skipRows?: number
 
-    return stencila.datatable({ columns })
+  /**
+   * Strings that represent missing values, which are decoded as `null`.
+   * Defaults to `['']` (i.e. empty values are missing).
+   */
+  naStrings?: string | string[]
+
+  /**
+   * The types of columns, by column name.
+   * Columns without a type have the type of each value
+   * guessed (i.e. booleans and numbers are coerced).
+   */
+  columns?: Record<string, ColumnType>
+}
+
+export interface EncodeOptions extends CommonEncodeOptions {
+  /**
+   * The delimiter between values e.g. `;`.
+   * Defaults to a tab for TSV, otherwise a comma.
+   */
+  delimiter?: string
+}
+
+export class CsvCodec extends Codec<EncodeOptions, DecodeOptions>
+  implements Codec<EncodeOptions, DecodeOptions> {
+  public readonly mediaTypes = ['text/csv', 'text/tab-separated-values']
+
+  public readonly extNames = ['csv', 'tsv']
+
+  public readonly decode = async (
+    file: vfile.VFile,
+    options: DecodeOptions = {}
+  ): Promise<stencila.Node> => {
+    const { encoding = 'utf8' } = options
+    const csv = (await vfile.dump(file, 'buffer')).toString(encoding)
+    return inferValidators(
+      await streamToDatatable(
+        await decodeReadable(Readable.from([csv]), options, file.path)
+      )
+    )
   }
 
-  public readonly encode = (node: stencila.Node): Promise<vfile.VFile> => {
+  public readonly decodeStream = (
+    filePath: string,
+    options: DecodeOptions = {}
+  ): Promise<DatatableStream> => {
+    const { encoding = 'utf8' } = options
+    return decodeReadable(
+      fs.createReadStream(filePath, encoding),
+      options,
+      filePath
+    )
+  }
+
+  public readonly encode = async (
+    node: stencila.Node,
+    options: EncodeOptions = {}
+  ): Promise<vfile.VFile> => {
     if (!stencila.isA('Datatable', node)) {
       log.error(
         `When encoding to CSV expected a Datatable, but got a ${stencila.nodeType(
           node
         )}`
       )
-      return Promise.resolve(vfile.create())
+      return vfile.create()
+    }
+
+    const {
+      format,
+      filePath,
+      delimiter = isTsv(format, filePath) ? '\t' : ',',
+    } = options
+    let csv = ''
+    for await (const chunk of encodeReadable(
+      datatableToStream(node),
+      delimiter
+    )) {
+      csv += chunk
     }
+    return vfile.load(csv)
+  }
 
-    // Transform column-wise data to row-wise
-    const columnNum = node.columns.length
-    const rowNum = columnNum > 0 ? node.columns[0].values.length : 0
-    const data: unknown[][] = Array.from({ length: rowNum }, () =>
-      Array(columnNum)
+  public readonly encodeStream = async (
+    stream: DatatableStream,
+    filePath: string,
+    options: EncodeOptions = {}
+  ): Promise<void> => {
+    const { format, delimiter = isTsv(format, filePath) ? '\t' : ',' } = options
+    await fs.ensureDir(path.dirname(filePath))
+    await promisify(pipeline)(
+      encodeReadable(stream, delimiter),
+      fs.createWriteStream(filePath)
     )
-    for (let rowIndex = 0; rowIndex < rowNum; rowIndex++) {
-      for (let columnIndex = 0; columnIndex < columnNum; columnIndex++) {
-        data[rowIndex][columnIndex] = node.columns[columnIndex].values[rowIndex]
+  }
+}
+
+/**
+ * Is the format, or file, tab separated values?
+ */
+const isTsv = (format?: string, filePath?: string): boolean =>
+  format === 'tsv' ||
+  format === 'text/tab-separated-values' ||
+  (format === undefined && filePath?.toLowerCase().endsWith('.tsv') === true)
+
+/**
+ * Decode CSV from a `Readable` to a `DatatableStream`.
+ *
+ * Parsing is paused whenever a batch of rows is waiting to be consumed
+ * so that only a bounded number of rows are held in memory.
+ *
+ * @param input The CSV to decode
+ * @param options Decoding options
+ * @param filePath The path of the file (used to determine the
+ *                 default delimiter and in warnings)
+ */
+export async function decodeReadable(
+  input: Readable,
+  options: DecodeOptions = {},
+  filePath?: string
+): Promise<DatatableStream> {
+  const {
+    format,
+    delimiter = isTsv(format, filePath) ? '\t' : undefined,
+    quoteChar = '"',
+    header = 'auto',
+    skipRows = 0,
+    naStrings = [''],
+    columns: types = {},
+  } = options
+  const nas = typeof naStrings === 'string' ? [naStrings] : naStrings
+
+  const iterator = parseRows(input, { delimiter, quoteChar }, filePath)[
+    Symbol.asyncIterator
+  ]()
+  for (let skipped = 0; skipped < skipRows; skipped++) {
+    if ((await iterator.next()).done === true) break
+  }
+
+  // Detect if there is a header row
+  // The first row is considered a header if all values are strings
+  const first = await iterator.next()
+  const firstRow = first.done === true ? [] : first.value
+  const hasHeader =
+    header === 'yes' ||
+    (header === 'auto' &&
+      firstRow.length > 0 &&
+      firstRow.every((value) => typeof decodeValue(value, nas) === 'string'))
+
+  // Default to using column names to A, B,..., AA, AB etc
+  const names = hasHeader
+    ? firstRow
+    : firstRow.map((_, index) => columnIndexToName(index))
+  const columnTypes = names.map((name): ColumnType | undefined => types[name])
+  for (const name of Object.keys(types)) {
+    if (!names.includes(name))
+      log.warn(
+        `Type specified for column "${name}" but there is no such column`
+      )
+  }
+
+  const decodeRow = (row: string[]): stencila.Node[] =>
+    row.map((value, index) => decodeValue(value, nas, columnTypes[index]))
+
+  async function* rows(): AsyncGenerator<stencila.Node[]> {
+    if (first.done === true) return
+    yield hasHeader ? names : decodeRow(firstRow)
+    while (true) {
+      const next = await iterator.next()
+      if (next.done === true) return
+      yield decodeRow(next.value)
+    }
+  }
+
+  const stream = await rowsToStream(rows(), { header: hasHeader })
+  return {
+    ...stream,
+    columns: stream.columns.map((column, index) => {
+      const type = columnTypes[index]
+      return type === undefined
+        ? column
+        : {
+            ...column,
+            validator: stencila.arrayValidator({
+              itemsValidator: columnTypeValidator(type),
+            }),
+          }
+    }),
+  }
+}
+
+/**
+ * Parse rows of CSV from a `Readable`.
+ */
+async function* parseRows(
+  input: Readable,
+  config: { delimiter?: string; quoteChar: string },
+  filePath?: string,
+  batchSize = DEFAULT_BATCH_SIZE
+): AsyncGenerator<string[]> {
+  let rows: string[][] = []
+  let rowIndex = 0
+  let finished = false
+  let failure: Error | undefined
+  let wake: (() => void) | undefined
+  const notify = (): void => {
+    if (wake !== undefined) wake()
+    wake = undefined
+  }
+
+  papaparse.parse<string>(input, {
+    ...config,
+    // We detect ourselves whether a header is present
+    header: false,
+    // We decode the type of values ourselves (in `decodeValue`)
+    dynamicTyping: false,
+    // Skip blank lines, including any trailing newlines
+    skipEmptyLines: true,
+    // When streaming, `data` is a single row
+    step: ({ data, errors }) => {
+      for (const error of errors) {
+        // According to the https://www.papaparse.com/docs#errors:
+        //   "Just because errors are generated does not necessarily mean that parsing failed.
+        //   The worst error you can get is probably MissingQuotes."
+        // So report a warning, not an error.
+        const { code, message } = error
+        report({
+          severity: 'warning',
+          codec: 'csv',
+          location: { file: filePath, line: rowIndex + 1 },
+          message: `${code} ${message}`,
+        })
+      }
+      rows.push(data)
+      rowIndex += 1
+      if (rows.length >= batchSize) {
+        input.pause()
+        notify()
+      }
+    },
+    complete: () => {
+      finished = true
+      notify()
+    },
+    error: (error) => {
+      failure = new Error(error.message)
+      notify()
+    },
+  })
+
+  while (true) {
+    if (rows.length >= batchSize || (finished && rows.length > 0)) {
+      const batch = rows
+      rows = []
+      for (const row of batch) yield row
+      if (!finished) input.resume()
+    } else if (failure !== undefined) {
+      throw failure
+    } else if (finished) {
+      return
+    } else {
+      await new Promise<void>((resolve) => (wake = resolve))
+    }
+  }
+}
+
+/**
+ * A regular expression for numbers, and the maximum magnitude of numbers,
+ * as used by Papaparse for `dynamicTyping`.
+ */
+const FLOAT_REGEX = /^\s*-?(\d+\.?|\.\d+|\d+\.\d+)([eE][-+]?\d+)?\s*$/
+const MAX_FLOAT = Math.pow(2, 53)
+
+const TRUE_STRINGS = ['true', 'yes', '1']
+const FALSE_STRINGS = ['false', 'no', '0']
+
+/**
+ * Decode a value.
+ *
+ * If there is no type for the value's column, booleans and numbers are coerced
+ * in the same way as Papaparse's `dynamicTyping` (except that
+ * dates are not, since they are not valid Stencila nodes).
+ *
+ * @param value The string value
+ * @param naStrings Strings that represent missing values
+ * @param type The type of the column
+ */
+function decodeValue(
+  value: string,
+  naStrings: string[],
+  type?: ColumnType
+): stencila.Node {
+  if (naStrings.includes(value)) return null
+
+  const trimmed = value.trim()
+  switch (type) {
+    case 'string':
+      return value
+    case 'number': {
+      const number = Number(trimmed)
+      if (trimmed !== '' && !Number.isNaN(number)) return number
+      break
+    }
+    case 'integer':
+      if (/^[-+]?\d+$/.test(trimmed)) return parseInt(trimmed, 10)
+      break
+    case 'boolean': {
+      const lower = trimmed.toLowerCase()
+      if (TRUE_STRINGS.includes(lower)) return true
+      if (FALSE_STRINGS.includes(lower)) return false
+      break
+    }
+    default: {
+      if (value === 'true' || value === 'TRUE') return true
+      if (value === 'false' || value === 'FALSE') return false
+      if (FLOAT_REGEX.test(value)) {
+        const number = parseFloat(value)
+        if (number > -MAX_FLOAT && number < MAX_FLOAT) return number
       }
+      return value
     }
+  }
 
-    const fields = node.columns.map((column) => column.name)
-    const csv = papaparse.unparse({ fields, data })
+  log.warn(`Unable to decode "${value}" as ${type}`)
+  return null
+}
+
+/**
+ * Create a validator for the values of a column with a type.
+ */
+function columnTypeValidator(type: ColumnType): stencila.ValidatorTypes {
+  switch (type) {
+    case 'string':
+      return stencila.stringValidator()
+    case 'number':
+      return stencila.numberValidator()
+    case 'integer':
+      return stencila.integerValidator()
+    case 'boolean':
+      return stencila.booleanValidator()
+  }
+}
 
-    return Promise.resolve(vfile.load(csv))
+/**
+ * Encode a `DatatableStream` as a `Readable` of CSV.
+ *
+ * @param stream The stream to encode
+ * @param delimiter The delimiter between values
+ */
+export function encodeReadable(
+  stream: DatatableStream,
+  delimiter = ','
+): Readable {
+  const config = { delimiter }
+  async function* chunks(): AsyncGenerator<string> {
+    yield papaparse.unparse(
+      [stream.columns.map((column) => column.name)],
+      config
+    )
+    for await (const batch of stream.rows) {
+      if (batch.length > 0) yield '\r\n' + papaparse.unparse(batch, config)
+    }
   }
+  return Readable.from(chunks())
 }
@@ -1,9 +1,19 @@
 import fs from 'fs-extra'
 import globby from 'globby'
 import path from 'path'
+import {
+  article,
+  Collection,
+  collection,
+  Datatable,
+  heading,
+  imageObject,
+  paragraph,
+} from '@stencila/schema'
 import { DarCodec } from '.'
 import flat from '../../__fixtures__/collection/flat'
 import mixed from '../../__fixtures__/collection/mixed'
+import * as vfile from '../../util/vfile'
 
 const { decode, encode, sniff } = new DarCodec()
 
@@ -30,8 +40,82 @@ test('sniff', async () => {
 })
 
 describe('decode', () => {
-  it('does not work yet', async () => {
-    expect(() => decode()).toThrow(/TODO: Not yet implemented/)
+  it('works on an empty DAR', async () => {
+    expect(await decode(vfile.create(empty))).toEqual(
+      collection({ name: 'empty', parts: [] })
+    )
+  })
+
+  it('works on a single article', async () => {
+    const dir = await outdir('single.dar')
+    await encode(flat.parts[0], { filePath: dir })
+
+    const node = await decode(vfile.create(dir))
+    expect(node).toEqual(
+      expect.objectContaining({
+        type: 'Article',
+        name: 'one',
+        title: 'Article one',
+        content: [
+          expect.objectContaining(heading({ depth: 1, content: ['One'] })),
+        ],
+      })
+    )
+  })
+
+  it('works on mixed collection', async () => {
+    const dir = await outdir('mixed-decode.dar')
+    await encode(mixed, { filePath: dir })
+
+    const node = (await decode(vfile.create(dir))) as Collection
+    expect(node.type).toBe('Collection')
+    expect(node.name).toBe('mixed-decode')
+    expect(node.parts.map((part) => [part.type, part.name])).toEqual([
+      ['Article', 'one'],
+      ['Article', 'three'],
+      ['Datatable', 'two'],
+    ])
+    expect(
+      (node.parts[2] as Datatable).columns.map(({ name, values }) => ({
+        name,
+        values,
+      }))
+    ).toEqual([
+      { name: 'A', values: [1, 2, 3] },
+      { name: 'B', values: [4, 5, 6] },
+    ])
+  })
+
+  it('maps assets to media objects', async () => {
+    const dir = await outdir('media-decode.dar')
+    const redDot = path.join(__dirname, '__fixtures__', 'red-dot.png')
+    await encode(
+      collection({
+        parts: [
+          article({
+            content: [
+              paragraph({ content: [imageObject({ contentUrl: redDot })] }),
+            ],
+          }),
+          article({ content: [] }),
+        ],
+      }),
+      { filePath: dir }
+    )
+
+    const { parts } = (await decode(vfile.create(dir))) as Collection
+    expect(parts).toHaveLength(2)
+    expect(parts[0].content).toEqual([
+      paragraph({
+        content: [
+          expect.objectContaining({
+            type: 'ImageObject',
+            contentUrl: path.join(dir, 'article-0-0.png'),
+            format: 'image/png',
+          }),
+        ],
+      }),
+    ])
   })
 })
 
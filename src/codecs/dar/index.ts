@@ -10,9 +10,11 @@ import produce from 'immer'
 import { html as beautifyHtml } from 'js-beautify'
 import path from 'path'
 import tempy from 'tempy'
-import { write } from '../..'
+import { read, write } from '../..'
+import { transformSync } from '../../util/transform'
 import * as uri from '../../util/uri'
 import * as vfile from '../../util/vfile'
+import * as xml from '../../util/xml'
 import { JatsCodec } from '../jats'
 import { Codec, CommonEncodeOptions } from '../types'
 
@@ -46,8 +48,49 @@ export class DarCodec extends Codec implements Codec {
    * @param file The `VFile` to decode
    * @returns A promise that resolves to a Stencila `Node`
    */
-  public decode = (): Promise<stencila.Article | stencila.Collection> => {
-    throw new Error('TODO: Not yet implemented')
+  public decode = async (
+    file: vfile.VFile
+  ): Promise<stencila.Article | stencila.Collection> => {
+    const darPath = file.path ?? ''
+    const manifestPath = path.join(darPath, 'manifest.xml')
+    const manifest = xml.load(await fs.readFile(manifestPath, 'utf8'))
+
+    // Decode the assets first so that they can be used to
+    // update the media objects within documents
+    const assets = await Promise.all(
+      xml
+        .children(xml.first(manifest, 'assets'), 'asset')
+        .map((elem) => decodeAsset(elem, darPath))
+    )
+
+    const documents = await Promise.all(
+      xml
+        .children(xml.first(manifest, 'documents'), 'document')
+        .map((elem) => decodeDocument(elem, darPath, assets))
+    )
+
+    // CSV sheets, and any other assets not used within
+    // documents, become parts of their own
+    const used = documents.reduce(
+      (prev: string[], document) => [...prev, ...mediaUrls(document)],
+      []
+    )
+    const others = assets
+      .filter(({ node }) => {
+        return (
+          stencila.isA('Datatable', node) ||
+          (stencila.nodeIs(stencila.mediaObjectTypes)(node) &&
+            !used.includes(node.contentUrl))
+        )
+      })
+      .map(({ node }) => node)
+
+    const parts = [...documents, ...others]
+    if (parts.length === 1 && stencila.isA('Article', parts[0])) return parts[0]
+    return stencila.collection({
+      name: path.basename(darPath, '.dar'),
+      parts,
+    })
   }
 
   /**
@@ -124,6 +167,103 @@ export class DarCodec extends Codec implements Codec {
  */
 const MEDIA_TYPES_SYNCED = ['text/csv']
 
+/**
+ * An asset in a DAR, and the Stencila node that it was decoded to.
+ */
+interface Asset {
+  id: string
+  mediaType: string
+  node: stencila.Datatable | stencila.MediaObject
+}
+
+/**
+ * Decode an `<asset>` element in the `manifest.xml` file of a DAR.
+ *
+ * CSV files are decoded to `Datatable`s. Other files are decoded to
+ * a `MediaObject` (or `ImageObject` etc, depending on the media type)
+ * with an absolute `contentUrl` (as when reading other formats).
+ */
+async function decodeAsset(elem: xml.Element, darPath: string): Promise<Asset> {
+  const id = xml.attr(elem, 'id') ?? ''
+  const assetPath = path.resolve(darPath, xml.attr(elem, 'path') ?? id)
+  const mediaType = xml.attr(elem, 'type') ?? ''
+
+  if (mediaType === 'text/csv') {
+    const datatable = (await read(assetPath, 'csv')) as stencila.Datatable
+    return { id, mediaType, node: { ...datatable, name: id } }
+  }
+
+  const [kind] = mediaType.split('/')
+  const mediaObject =
+    kind === 'image'
+      ? stencila.imageObject
+      : kind === 'audio'
+      ? stencila.audioObject
+      : kind === 'video'
+      ? stencila.videoObject
+      : stencila.mediaObject
+  return {
+    id,
+    mediaType,
+    node: mediaObject({
+      contentUrl: assetPath,
+      ...(mediaType !== '' ? { format: mediaType } : {}),
+      name: id,
+    }),
+  }
+}
+
+/**
+ * Decode a `<document>` element in the `manifest.xml` file of a DAR
+ * by reading the JATS file that it points to.
+ *
+ * Media objects that point to assets (either directly, or to a file with
+ * the same name) are given the path and media type of the asset.
+ */
+async function decodeDocument(
+  elem: xml.Element,
+  darPath: string,
+  assets: Asset[]
+): Promise<stencila.Article> {
+  const id = xml.attr(elem, 'id') ?? ''
+  const documentPath = path.join(darPath, xml.attr(elem, 'path') ?? id)
+  const node = await jatsCodec.read(documentPath)
+
+  const article = transformSync(node, (node) => {
+    if (!stencila.nodeIs(stencila.mediaObjectTypes)(node)) return node
+    const asset = assets.find(
+      ({ node: other }) =>
+        stencila.nodeIs(stencila.mediaObjectTypes)(other) &&
+        (other.contentUrl === node.contentUrl ||
+          path.basename(other.contentUrl) === path.basename(node.contentUrl))
+    )
+    if (asset === undefined) return node
+    const { contentUrl } = asset.node as stencila.MediaObject
+    return {
+      ...node,
+      contentUrl,
+      format:
+        node.format !== undefined && node.format !== ''
+          ? node.format
+          : asset.mediaType,
+    }
+  }) as stencila.Article
+  return article.name === undefined ? { ...article, name: id } : article
+}
+
+/**
+ * Get the `contentUrl`s of the media objects within a node.
+ */
+function mediaUrls(node: stencila.Node): string[] {
+  const urls: string[] = []
+  transformSync(node, (node) => {
+    if (stencila.nodeIs(stencila.mediaObjectTypes)(node))
+      urls.push(node.contentUrl)
+    return node
+  })
+  return urls
+}
+
 /**
  * Encode a Stencila `Node` as a JATS file and return a `<document>` element
  * to put into the `manifest.xml` file of the DAR.
@@ -1,5 +1,10 @@
+import * as stencila from '@stencila/schema'
+import nock from 'nock'
+import tempy from 'tempy'
 import { DoiCodec } from '.'
 import { convert } from '../..'
+import { configure } from '../../util/http'
+import * as vfile from '../../util/vfile'
 import { nockRecord, snapshot } from '../../__tests__/helpers'
 
 const { sniff, encode } = new DoiCodec()
@@ -31,6 +36,39 @@ test('decode', async () => {
   done()
 })
 
+test('decode: replays recorded requests', async () => {
+  nock('https://doi.org')
+    .get('/10.1001/recorded')
+    .matchHeader('accept', 'application/vnd.citationstyles.csl+json')
+    .reply(200, {
+      type: 'article-journal',
+      title: 'A recorded article',
+      DOI: '10.1001/recorded',
+    })
+
+  const fixtures = tempy.directory()
+  try {
+    configure({ mode: 'record', fixtures })
+    const recorded = await doi2yaml('10.1001/recorded')
+    // Replaying does not make requests (there are no more
+    // interceptors so that would fail)
+    configure({ mode: 'replay', fixtures })
+    expect(await doi2yaml('10.1001/recorded')).toEqual(recorded)
+    expect(recorded).toMatch('title: A recorded article')
+  } finally {
+    configure()
+  }
+})
+
 test('encode', async () => {
-  expect(() => encode()).toThrow(/Encoding to DOI is not yet implemented/)
+  const doi = stencila.propertyValue({ name: 'doi', value: '10.5334/jors.182' })
+  expect(
+    await vfile.dump(await encode(stencila.article({ identifiers: [doi] })))
+  ).toBe('https://doi.org/10.5334/jors.182')
+  expect(
+    await vfile.dump(
+      await encode(stencila.creativeWork({ url: 'https://doi.org/10.1001/ok' }))
+    )
+  ).toBe('https://doi.org/10.1001/ok')
+  expect(() => encode(stencila.article())).toThrow(/Unable to find a DOI/)
 })
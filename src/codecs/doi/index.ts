@@ -3,6 +3,8 @@
  */
 
 import stencila from '@stencila/schema'
+import * as http from '../../util/http'
+import { matchIdentifier } from '../../util/identifiers'
 import * as vfile from '../../util/vfile'
 import { CSLCodec } from '../csl'
 import { Codec } from '../types'
@@ -28,11 +30,27 @@ export class DoiCodec extends Codec implements Codec {
     const content = await vfile.dump(file)
     const match = DoiCodec.regex.exec(content)
     if (match === null) throw new Error('Unable to parse content')
-    const doi = vfile.load(match[4])
-    return DoiCodec.csl.decode(doi, { format: '@doi/id' })
+    const doi = match[4]
+    // Use content negotiation to get CSL-JSON for the DOI
+    // See https://citation.crosscite.org/docs.html
+    const { statusCode, body } = await http.get(`https://doi.org/${doi}`, {
+      headers: { Accept: 'application/vnd.citationstyles.csl+json' },
+    })
+    if (statusCode !== 200)
+      throw new Error(`Unable to get metadata for DOI ${doi}: ${statusCode}`)
+    return DoiCodec.csl.decode(vfile.load(body), { format: '@else/json' })
   }
 
-  public readonly encode = (): Promise<vfile.VFile> => {
-    throw new Error(`Encoding to DOI is not yet implemented`)
+  /**
+   * Encode a `CreativeWork` (or other `Thing`) as a DOI URL
+   * e.g. `https://doi.org/10.5334/jors.182`.
+   *
+   * The DOI is taken from the first of the node's `identifiers`
+   * (or its `url`) that is a DOI.
+   */
+  public readonly encode = (node: stencila.Node): Promise<vfile.VFile> => {
+    const match = matchIdentifier(node, DoiCodec.regex)
+    if (match === undefined) throw new Error('Unable to find a DOI for node')
+    return Promise.resolve(vfile.load(`https://doi.org/${match[4]}`))
   }
 }
@@ -1,5 +1,7 @@
+import * as stencila from '@stencila/schema'
 import { ElifeCodec } from '.'
 import { unlinkFiles } from '../../util/media/unlinkFiles'
+import * as vfile from '../../util/vfile'
 import { nockRecord, snapshot } from '../../__tests__/helpers'
 import { YamlCodec } from '../yaml'
 
@@ -42,7 +44,14 @@ test('decode', async () => {
 })
 
 test('encode', async () => {
-  expect(() => encode()).toThrow(
-    /Encoding to an eLife article is not yet implemented/
+  const doi = stencila.propertyValue({
+    name: 'doi',
+    value: '10.7554/eLife.45187',
+  })
+  expect(
+    await vfile.dump(await encode(stencila.article({ identifiers: [doi] })))
+  ).toBe('https://elifesciences.org/articles/45187')
+  expect(() => encode(stencila.article())).toThrow(
+    /Unable to find an eLife article number/
   )
 })
@@ -2,6 +2,7 @@ import stencila from '@stencila/schema'
 import { JatsCodec } from '../jats'
 import * as xml from '../../util/xml'
 import * as http from '../../util/http'
+import { matchIdentifier } from '../../util/identifiers'
 import * as vfile from '../../util/vfile'
 import { Codec } from '../types'
 import { getLogger } from '@stencila/logga'
@@ -15,6 +16,8 @@ const jats = new JatsCodec()
 export class ElifeCodec extends Codec implements Codec {
   private static regex = /^\s*((elife\s*:?\s*)|(https?:\/\/elifesciences\.org\/articles\/))(\d{5})(v(\d))?\s*$/i
 
+  private static doiRegex = /^\s*((doi\s*:?\s*)|(https?:\/\/doi\.org\/))?10\.7554\/eLife\.(\d{5})\s*$/i
+
   public readonly sniff = (content: string): Promise<boolean> => {
     return Promise.resolve(ElifeCodec.regex.exec(content) !== null)
   }
@@ -104,7 +107,21 @@ export class ElifeCodec extends Codec implements Codec {
     return jats.load(jatsNew)
   }
 
-  public readonly encode = (): Promise<vfile.VFile> => {
-    throw new Error(`Encoding to an eLife article is not yet implemented`)
+  /**
+   * Encode a `CreativeWork` as an eLife article URL
+   * e.g. `https://elifesciences.org/articles/45187`.
+   *
+   * The article number is taken from the first of the node's
+   * `identifiers` (or its `url`) that is an eLife URL or DOI.
+   */
+  public readonly encode = (node: stencila.Node): Promise<vfile.VFile> => {
+    const match =
+      matchIdentifier(node, ElifeCodec.regex) ??
+      matchIdentifier(node, ElifeCodec.doiRegex)
+    if (match === undefined)
+      throw new Error('Unable to find an eLife article number for node')
+    return Promise.resolve(
+      vfile.load(`https://elifesciences.org/articles/${match[4]}`)
+    )
   }
 }
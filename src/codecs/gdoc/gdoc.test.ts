@@ -1,6 +1,9 @@
 import * as stencila from '@stencila/schema'
+import fs from 'fs-extra'
 import { fixture, snapshot } from '../../__tests__/helpers'
 import { read, dump } from '../..'
+import { footnoteLink, footnotesList } from '../../util/footnotes'
+import * as http from '../../util/http'
 import { GDocCodec } from '.'
 
 const gdocCodec = new GDocCodec()
@@ -68,6 +71,248 @@ test('decode:nested-list', async () => {
   expect(await gdoc2node(nestedList.gdoc)).toEqual(nestedList.node)
 })
 
+test('decode:concurrent', async () => {
+  // A document with a footnote, collected while decoding but only appended
+  // after images have been fetched, and an image
+  const doc = (name: string) => ({
+    title: name,
+    body: {
+      content: [
+        {
+          paragraph: {
+            elements: [
+              { textRun: { content: `${name} ` } },
+              { footnoteReference: { footnoteId: 'fn1' } },
+              { inlineObjectElement: { inlineObjectId: 'img1' } },
+            ],
+          },
+        },
+      ],
+    },
+    footnotes: {
+      fn1: {
+        content: [
+          {
+            paragraph: {
+              elements: [{ textRun: { content: ` A note on ${name}` } }],
+            },
+          },
+        ],
+      },
+    },
+    inlineObjects: {
+      img1: {
+        inlineObjectProperties: {
+          embeddedObject: {
+            imageProperties: { contentUri: `https://example.org/${name}` },
+          },
+        },
+      },
+    },
+  })
+  const names = ['first', 'second', 'third']
+
+  // Mock fetching so that the image of the first document is fetched last,
+  // so that decoding of the documents is interleaved
+  const download = jest
+    .spyOn(http, 'download')
+    .mockImplementation(
+      (url: string) =>
+        new Promise((resolve) =>
+          setTimeout(
+            resolve,
+            100 - names.indexOf(url.split('/').pop() ?? '') * 40
+          )
+        )
+    )
+  const decode = (name: string) =>
+    gdocCodec.load(JSON.stringify(doc(name)), { fetch: true })
+
+  const sequential = []
+  for (const name of names) sequential.push(await decode(name))
+  const concurrent = await Promise.all(names.map(decode))
+  download.mockRestore()
+
+  expect(concurrent).toEqual(sequential)
+  expect(JSON.stringify(concurrent[0])).toMatch('A note on first')
+  expect(JSON.stringify(concurrent[0])).not.toMatch('A note on third')
+})
+
+test('encode:concurrent', async () => {
+  const nodes = [kitchenSink.node, nestedList.node]
+  const sequential = []
+  for (const node of nodes) sequential.push(await node2gdoc(node))
+
+  const concurrent = await Promise.all([...nodes, ...nodes].map(node2gdoc))
+  expect(concurrent).toEqual([...sequential, ...sequential])
+})
+
+test('roundtrip:rich', async () => {
+  const node = stencila.article({
+    title: 'Title',
+    references: [
+      stencila.creativeWork({
+        id: 'smith20',
+        title: 'Smith and Jones, 2020. A title',
+      }),
+      'An unidentified reference',
+    ],
+    content: [
+      stencila.paragraph({
+        content: [
+          'A footnote',
+          footnoteLink('fn1', ['1']),
+          ', a citation ',
+          stencila.cite({ target: 'smith20', content: ['Smith, 2020'] }),
+          ' and math ',
+          stencila.mathFragment({ text: 'E = mc^2' }),
+        ],
+      }),
+      stencila.figure({
+        label: 'Figure 1',
+        caption: [stencila.paragraph({ content: ['A caption.'] })],
+        content: [
+          stencila.imageObject({
+            contentUrl: 'https://example.org/image.png',
+            title: 'An image',
+          }),
+        ],
+      }),
+      stencila.table({
+        label: 'Table 1',
+        caption: [stencila.paragraph({ content: ['Merged cells.'] })],
+        rows: [
+          stencila.tableRow({
+            cells: [
+              stencila.tableCell({ content: ['A'], colspan: 2 }),
+              stencila.tableCell({ content: ['B'], rowspan: 2 }),
+            ],
+          }),
+          stencila.tableRow({
+            cells: [
+              stencila.tableCell({ content: ['C'] }),
+              stencila.tableCell({ content: ['D'] }),
+            ],
+          }),
+        ],
+      }),
+      stencila.codeChunk({
+        text: 'plot(x)',
+        outputs: [
+          stencila.imageObject({
+            contentUrl: 'https://example.org/plot.png',
+          }),
+        ],
+      }),
+      footnotesList([
+        stencila.listItem({
+          id: 'fn1',
+          content: [stencila.paragraph({ content: ['The footnote.'] })],
+        }),
+      ]),
+    ],
+  })
+
+  const gdoc = await node2gdoc(node)
+  expect(Object.keys(gdoc.footnotes)).toEqual(['fn1'])
+  expect(gdoc.body.content[5].table.tableRows[0].tableCells).toEqual([
+    expect.objectContaining({
+      tableCellStyle: { rowSpan: 1, columnSpan: 2 },
+    }),
+    { content: [] },
+    expect.objectContaining({
+      tableCellStyle: { rowSpan: 2, columnSpan: 1 },
+    }),
+  ])
+
+  expect(await gdoc2node(gdoc)).toEqual(node)
+})
+
+test('decode:captions-and-references', async () => {
+  const para = (...elements: any[]) => ({ paragraph: { elements } })
+  const text = (content: string, textStyle = {}) => ({
+    textRun: { content, textStyle },
+  })
+  const node = await gdoc2node({
+    body: {
+      content: [
+        para(text('Some text')),
+        para(text('Figure 1', { bold: true }), text('. Not a caption')),
+        para(
+          text('See '),
+          text('the methods', { link: { url: '#methods' } }),
+          text(' and '),
+          text('Smith', { link: { url: '#smith20' } })
+        ),
+        {
+          paragraph: {
+            elements: [text('References')],
+            paragraphStyle: { namedStyleType: 'HEADING_1' },
+          },
+        },
+        para(text('Smith, 2020')),
+      ],
+    },
+    namedRanges: {
+      references: {
+        name: 'references',
+        namedRanges: [{ name: 'references', namedRangeId: 'smith20' }],
+      },
+    },
+  })
+  expect(node).toEqual(
+    stencila.article({
+      references: [
+        stencila.creativeWork({ id: 'smith20', title: 'Smith, 2020' }),
+      ],
+      content: [
+        stencila.paragraph({ content: ['Some text'] }),
+        stencila.paragraph({
+          content: [
+            stencila.strong({ content: ['Figure 1'] }),
+            '. Not a caption',
+          ],
+        }),
+        stencila.paragraph({
+          content: [
+            'See ',
+            stencila.link({ target: '#methods', content: ['the methods'] }),
+            ' and ',
+            stencila.cite({ target: 'smith20', content: ['Smith'] }),
+          ],
+        }),
+      ],
+    })
+  )
+})
+
+test('decode:named-styles', async () => {
+  expect(
+    await gdoc2node({
+      namedStyles: {
+        styles: [{ namedStyleType: 'HEADING_1', textStyle: { bold: true } }],
+      },
+      body: {
+        content: [
+          {
+            paragraph: {
+              elements: [
+                { textRun: { content: 'Bold', textStyle: { bold: true } } },
+                { textRun: { content: ' heading', textStyle: {} } },
+              ],
+              paragraphStyle: { namedStyleType: 'HEADING_1' },
+            },
+          },
+        ],
+      },
+    })
+  ).toEqual(
+    stencila.article({
+      content: [stencila.heading({ depth: 1, content: ['Bold', ' heading'] })],
+    })
+  )
+})
+
 // Note that the following fixtrures are missing many styling related properties that
 // are normally in a GDoc. To keep a manageable size, throughout the
 // tree, we've only included the properties that the codec uses.
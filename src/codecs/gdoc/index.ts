@@ -17,12 +17,46 @@ import stencila, { isInlineContent, paragraph } from '@stencila/schema'
 import crypto from 'crypto'
 import { docs_v1 as GDocT } from 'googleapis'
 import { TxtCodec } from '../txt'
+import { report } from '../../util/diagnostics'
+import {
+  appendFootnotes,
+  collectFootnotes,
+  footnoteLink,
+  footnoteLinkId,
+  FOOTNOTE_RELATION,
+  isFootnoteLink,
+} from '../../util/footnotes'
 import * as http from '../../util/http'
+import { encodeCitationText } from '../../util/references'
+import { transformSync } from '../../util/transform'
 import * as vfile from '../../util/vfile'
 import { Codec, CommonDecodeOptions } from '../types'
 
 const log = getLogger('encoda:gdoc')
 
+/**
+ * Regexes for the labels of figure and table captions.
+ */
+const FIGURE_LABEL_REGEX = /^(Figure|Fig\.?)\s+\S+$/
+const TABLE_LABEL_REGEX = /^Table\s+\S+$/
+
+/**
+ * The text of the heading before the reference list.
+ */
+const REFERENCES_HEADING = 'References'
+
+/**
+ * The name of the named ranges recording the ids of references (if any),
+ * in the same order as the paragraphs of the reference list.
+ */
+const REFERENCES_RANGES = 'references'
+
+/**
+ * The font family used for math. GDoc equations are not available
+ * via the API so math is encoded as text in this font.
+ */
+const MATH_FONT_FAMILY = 'Cambria Math'
+
 interface DecodeOptions extends CommonDecodeOptions {
   fetch: boolean
 }
@@ -60,32 +94,81 @@ export class GDocCodec extends Codec<{}, DecodeOptions>
 }
 
 /**
- * The GDoc currently being decoded from
- *
- * This is necessary as a context when decoding for retrieving properties
- * of list and images. We use a global object rather than having to pass
- * the reference to the document through all the function calls.
+ * Fetches remote resources during decoding.
  */
-let decodingGDoc: GDocT.Schema$Document & { listDepth: number }
+interface Fetcher {
+  get(url: string): string
+  resolve(): Promise<unknown>
+}
 
 /**
- * The GDoc currently being encoded to
+ * The context of decoding a GDoc.
  *
- * @see decodingGDoc
+ * This is passed through the decoding functions, rather than being
+ * held in module level variables, so that several documents can be
+ * decoded concurrently.
  */
-let encodingGDoc: GDocT.Schema$Document
+interface DecodeContext {
+  /**
+   * The GDoc being decoded from. Necessary for retrieving
+   * properties of lists and images.
+   */
+  gdoc: GDocT.Schema$Document
+
+  /**
+   * The lists decoded so far, by list id, and then
+   * nesting level.
+   */
+  lists: { [key: string]: stencila.List[] }
+
+  /**
+   * The nesting level of the last list item decoded.
+   */
+  listDepth: number
+
+  /**
+   * The text styles of the document's named styles e.g. `HEADING_1`.
+   * Used to ignore text styles that are inherited from a paragraph's
+   * named style, rather than applied to the text itself.
+   */
+  namedStyles: { [key: string]: GDocT.Schema$TextStyle }
+
+  /**
+   * Footnotes decoded so far, to be appended to the content.
+   */
+  footnotes: stencila.ListItem[]
+
+  /**
+   * The fetcher to use to fetch remote resources.
+   * This allows us (a) to keep most of the decoding functions
+   * synchronous and (b) turn off fetching during tests.
+   */
+  fetcher: Fetcher
+}
 
 /**
- * The function to use to fetch remote resources
- * during decoding. This allows us (a) to keep most of the decoding functions
- * synchronous and (b) turn off fetching during tests.
+ * The context of encoding a GDoc.
+ *
+ * @see DecodeContext
  */
-let decodingFetcher: (url: string) => string
+interface EncodeContext {
+  /**
+   * The GDoc being encoded to. Necessary for adding
+   * lists, inline objects and footnotes.
+   */
+  gdoc: GDocT.Schema$Document
+
+  /**
+   * The content of footnotes, by footnote id, collected from the
+   * content being encoded.
+   */
+  footnotes: Record<string, stencila.Node[]>
+}
 
 /**
  * Fetches a remote file to a local file
  */
-class FetchToFile {
+class FetchToFile implements Fetcher {
   private requests: Promise<void>[] = []
 
   public get(url: string, ext = ''): string {
@@ -102,7 +185,7 @@ class FetchToFile {
 /**
  * A dummy fetcher, used in testing.
  */
-class FetchToSame {
+class FetchToSame implements Fetcher {
   public get(url: string): string {
     return url
   }
@@ -138,24 +221,38 @@ async function decodeDocument(
   doc: GDocT.Schema$Document,
   fetch: boolean
 ): Promise<stencila.Node> {
-  decodingGDoc = { ...doc, listDepth: 0 }
-
-  // Create a fetcher for remove resources
+  // Create a fetcher for remote resources
   const fetcher = new (fetch ? FetchToFile : FetchToSame)()
-  decodingFetcher = fetcher.get.bind(fetcher)
+  const namedStyles = (doc.namedStyles?.styles ?? []).reduce(
+    (
+      prev: { [key: string]: GDocT.Schema$TextStyle },
+      { namedStyleType, textStyle }
+    ) =>
+      namedStyleType && textStyle
+        ? { ...prev, [namedStyleType]: textStyle }
+        : prev,
+    {}
+  )
+  const context: DecodeContext = {
+    gdoc: doc,
+    lists: {},
+    listDepth: 0,
+    namedStyles,
+    footnotes: [],
+    fetcher,
+  }
 
   let title: string | stencila.InlineContent[] | undefined =
     typeof doc.title === 'string' ? doc.title : undefined
 
   // Decode the content, if any
   let content: stencila.Node[] = []
-  const lists: { [key: string]: stencila.List[] } = {}
   if (doc.body?.content) {
     content = doc.body.content
       .map((elem: GDocT.Schema$StructuralElement, index: number) => {
         if (elem.paragraph) {
           const para = elem.paragraph
-          const block = decodeParagraph(para, lists)
+          const block = decodeParagraph(para, context)
           // If this para has the `Title` style then use it's content
           // as the title of the article (overrides doc.title)
           if (stencila.isParagraph(block) && para.paragraphStyle) {
@@ -172,27 +269,158 @@ async function decodeDocument(
             }
           }
           return block
-        } else if (elem.sectionBreak) {
+        } else if (elem.sectionBreak && index === 0) {
           // The first element in the content is always a sectionBreak, so ignore it
-          return index === 0 ? undefined : decodeSectionBreak()
-        } else if (elem.table) {
-          return decodeTable(elem.table)
+          return undefined
         } else {
-          log.warn(`Unhandled GDoc element type ${JSON.stringify(elem)}`)
+          return decodeStructuralElement(elem, context)
         }
       })
       .filter((node) => node !== undefined) as stencila.Node[]
   }
+  content = decodeCaptions(content)
+  const { content: body, references } = decodeReferences(content, doc)
 
   // Resolve the fetched resources
   await fetcher.resolve()
 
+  content = appendFootnotes(body, context.footnotes)
   return stencila.article({
     title: title ?? undefined,
+    references,
     content: content.length > 0 ? content : undefined,
   })
 }
 
+/**
+ * Decode a GDoc `StructuralElement` (other than a title) to a Stencila node.
+ */
+function decodeStructuralElement(
+  elem: GDocT.Schema$StructuralElement,
+  context: DecodeContext
+): stencila.Node | undefined {
+  if (elem.paragraph) return decodeParagraph(elem.paragraph, context)
+  if (elem.sectionBreak) return decodeSectionBreak()
+  if (elem.table) return decodeTable(elem.table, context)
+  log.warn(`Unhandled GDoc element type ${JSON.stringify(elem)}`)
+  return undefined
+}
+
+/**
+ * Decode captions, which are encoded as paragraphs starting with a
+ * bold label (e.g. "Figure 1") after a figure's content, or before a
+ * table.
+ */
+function decodeCaptions(content: stencila.Node[]): stencila.Node[] {
+  const decoded: stencila.Node[] = []
+  for (let index = 0; index < content.length; index++) {
+    const node = content[index]
+    const caption = decodeCaption(node)
+    if (caption !== undefined) {
+      const { label, paragraph } = caption
+      const prev = decoded[decoded.length - 1]
+      const next = content[index + 1]
+      if (FIGURE_LABEL_REGEX.test(label) && isImage(prev)) {
+        decoded[decoded.length - 1] = stencila.figure({
+          label,
+          caption: [paragraph],
+          content: stencila.isParagraph(prev) ? prev.content : [prev],
+        })
+        continue
+      }
+      if (TABLE_LABEL_REGEX.test(label) && stencila.isA('Table', next)) {
+        decoded.push({ ...next, label, caption: [paragraph] })
+        index++
+        continue
+      }
+    }
+    decoded.push(node)
+  }
+  return decoded
+}
+
+/**
+ * Is a node an image, or a paragraph containing only an image?
+ */
+function isImage(node: stencila.Node | undefined): boolean {
+  return stencila.isParagraph(node)
+    ? node.content.length === 1 && stencila.isA('ImageObject', node.content[0])
+    : stencila.isA('ImageObject', node)
+}
+
+/**
+ * Decode a paragraph that may be a caption into its label and
+ * a paragraph with the rest of its content.
+ */
+function decodeCaption(
+  node: stencila.Node
+): { label: string; paragraph: stencila.Paragraph } | undefined {
+  if (!stencila.isParagraph(node)) return undefined
+  const [first, ...rest] = node.content
+  if (!stencila.isA('Strong', first)) return undefined
+  const label = TxtCodec.stringify(first)
+  if (!FIGURE_LABEL_REGEX.test(label) && !TABLE_LABEL_REGEX.test(label))
+    return undefined
+  const [head, ...tail] = rest
+  const content =
+    typeof head === 'string'
+      ? [head.replace(/^[.:]?\s*/, ''), ...tail].filter((node) => node !== '')
+      : rest
+  return { label, paragraph: stencila.paragraph({ content }) }
+}
+
+/**
+ * Decode the reference list, if any, which is encoded as paragraphs
+ * following a "References" heading at the end of the content.
+ *
+ * References with an id (recorded in the document's named ranges)
+ * are decoded as `CreativeWork`s. Links to those ids (i.e. targets
+ * starting with `#`) are decoded as `Cite`s.
+ */
+function decodeReferences(
+  content: stencila.Node[],
+  doc: GDocT.Schema$Document
+): {
+  content: stencila.Node[]
+  references?: (stencila.CreativeWork | string)[]
+} {
+  const index = content.findIndex(
+    (node) =>
+      stencila.isA('Heading', node) &&
+      TxtCodec.stringify(node.content) === REFERENCES_HEADING
+  )
+  if (index < 0) return { content }
+  const paragraphs = content.slice(index + 1)
+  if (!paragraphs.every(stencila.isParagraph)) return { content }
+
+  const ids = (doc.namedRanges?.[REFERENCES_RANGES]?.namedRanges ?? []).map(
+    (range) => range.namedRangeId ?? undefined
+  )
+  const references = paragraphs.map((para, index) => {
+    const text = TxtCodec.stringify(para)
+    const id = ids[index]
+    return id !== undefined ? stencila.creativeWork({ id, title: text }) : text
+  })
+  const body = content.slice(0, index).map((node) =>
+    transformSync(node, (node) => {
+      if (
+        !stencila.isA('Link', node) ||
+        node.relation === FOOTNOTE_RELATION ||
+        !node.target.startsWith('#') ||
+        !ids.includes(node.target.slice(1))
+      )
+        return node
+      const target = node.target.slice(1)
+      const text = TxtCodec.stringify(node.content)
+      return stencila.cite({
+        target,
+        content: text !== target ? node.content : undefined,
+      })
+    })
+  )
+  return { content: body, references }
+}
+
 /**
  * Encode a Stencila `Node` to a GDoc `Document`
  */
@@ -205,19 +433,21 @@ function encodeNode(node: stencila.Node): GDocT.Schema$Document {
     lists: {},
     inlineObjects: {},
   }
-  encodingGDoc = gdoc
+  const context: EncodeContext = { gdoc, footnotes: {} }
 
   const gdocContent = assertDefined(assertDefined(gdoc.body).content)
 
   // Wrap the node as needed to ensure an array
   // of block element at the top level
   let content: stencila.Node[] = []
+  let references: (stencila.CreativeWorkTypes | string)[] = []
   switch (stencila.nodeType(node)) {
     // `CreativeWork` types (have `content`)
     case 'Article': {
       const article = node as stencila.Article
       gdoc.title = TxtCodec.stringify(article.title ?? '')
       content = article.content ?? []
+      references = article.references ?? []
       break
     }
     // `BlockContent` types
@@ -226,7 +456,9 @@ function encodeNode(node: stencila.Node): GDocT.Schema$Document {
     case 'CodeBlock':
     case 'List':
     case 'Table':
-    case 'ThematicBreak': {
+    case 'ThematicBreak':
+    case 'Figure':
+    case 'CodeChunk': {
       content = [node]
       break
     }
@@ -241,36 +473,177 @@ function encodeNode(node: stencila.Node): GDocT.Schema$Document {
     }
   }
 
-  if (content) {
-    for (const node of content) {
-      const type_ = stencila.nodeType(node)
-      switch (type_) {
-        case 'Heading':
-          gdocContent.push(encodeHeading(node as stencila.Heading))
-          break
-        case 'Paragraph':
-          gdocContent.push(encodeParagraph(node as stencila.Paragraph))
-          break
-        case 'CodeBlock':
-          gdocContent.push(encodeCodeBlock(node as stencila.CodeBlock))
-          break
-        case 'List':
-          gdocContent.push(...encodeList(node as stencila.List))
-          break
-        case 'Table':
-          gdocContent.push(encodeTable(node as stencila.Table))
-          break
-        case 'ThematicBreak':
-          gdocContent.push(encodeThematicBreak())
-          break
-        default:
-          log.warn(`Unhandled Stencila node type "${type_}"`)
-      }
-    }
+  const { content: blocks, footnotes } = collectFootnotes(content)
+  context.footnotes = footnotes
+  gdocContent.push(...encodeBlocks(blocks, context))
+  if (references.length > 0) {
+    gdocContent.push(...encodeReferences(references, context))
   }
   return gdoc
 }
 
+/**
+ * Encode Stencila block content nodes to GDoc `StructuralElement`s.
+ */
+function encodeBlocks(
+  nodes: stencila.Node[],
+  context: EncodeContext
+): GDocT.Schema$StructuralElement[] {
+  return nodes.reduce(
+    (prev: GDocT.Schema$StructuralElement[], node) => [
+      ...prev,
+      ...encodeBlock(node, context),
+    ],
+    []
+  )
+}
+
+/**
+ * Encode a Stencila block content node to GDoc `StructuralElement`s.
+ */
+function encodeBlock(
+  node: stencila.Node,
+  context: EncodeContext
+): GDocT.Schema$StructuralElement[] {
+  const type_ = stencila.nodeType(node)
+  switch (type_) {
+    case 'Heading':
+      return [encodeHeading(node as stencila.Heading, context)]
+    case 'Paragraph':
+      return [encodeParagraph(node as stencila.Paragraph, context)]
+    case 'CodeBlock':
+      return [encodeCodeBlock(node as stencila.CodeBlock)]
+    case 'List':
+      return encodeList(node as stencila.List, context)
+    case 'Table':
+      return encodeTable(node as stencila.Table, context)
+    case 'ThematicBreak':
+      return [encodeThematicBreak()]
+    case 'Figure':
+      return encodeFigure(node as stencila.Figure, context)
+    case 'CodeChunk':
+      return [
+        {
+          paragraph: {
+            elements: [
+              encodeReproducibleImage(node as stencila.CodeChunk, context),
+            ],
+          },
+        },
+      ]
+    default:
+      report({
+        severity: 'warning',
+        codec: 'gdoc',
+        node,
+        message: `Unhandled Stencila node type "${type_}"`,
+      })
+      return []
+  }
+}
+
+/**
+ * Encode a Stencila `Figure` to GDoc `StructuralElement`s for its
+ * content followed by a caption paragraph.
+ *
+ * Inline content (e.g. an `ImageObject`) is wrapped in a paragraph.
+ */
+function encodeFigure(
+  figure: stencila.Figure,
+  context: EncodeContext
+): GDocT.Schema$StructuralElement[] {
+  const { content = [], label, caption } = figure
+  const inlines = content.filter(stencila.isInlineContent)
+  const blocks =
+    inlines.length === content.length
+      ? [stencila.paragraph({ content: inlines })]
+      : content
+  return [
+    ...encodeBlocks(blocks, context),
+    ...encodeCaption(label, caption, context),
+  ]
+}
+
+/**
+ * Encode the label and caption of a `Figure` or `Table` as paragraphs,
+ * the first starting with the label in bold.
+ */
+function encodeCaption(
+  label: string | undefined,
+  caption: string | stencila.Node[] | undefined,
+  context: EncodeContext
+): GDocT.Schema$StructuralElement[] {
+  const blocks =
+    typeof caption === 'string'
+      ? [stencila.paragraph({ content: [caption] })]
+      : caption ?? []
+  if (label === undefined) return encodeBlocks(blocks, context)
+
+  const [first, ...rest] = blocks
+  const content = stencila.isParagraph(first) ? first.content : []
+  const labelled = stencila.paragraph({
+    content: [
+      stencila.strong({ content: [label] }),
+      ...(content.length > 0 ? ['. ', ...content] : []),
+    ],
+  })
+  return encodeBlocks(
+    [labelled, ...(stencila.isParagraph(first) ? rest : blocks)],
+    context
+  )
+}
+
+/**
+ * Encode the references of an `Article` as a "References" heading
+ * followed by a paragraph for each reference.
+ *
+ * The ids of references are recorded as named ranges so that
+ * citations of them can be decoded.
+ */
+function encodeReferences(
+  references: (stencila.CreativeWorkTypes | string)[],
+  context: EncodeContext
+): GDocT.Schema$StructuralElement[] {
+  const ids = references.map((reference) =>
+    typeof reference === 'string' ? null : reference.id ?? null
+  )
+  if (ids.some((id) => id !== null))
+    context.gdoc.namedRanges = {
+      [REFERENCES_RANGES]: {
+        name: REFERENCES_RANGES,
+        namedRanges: ids.map((id) => ({
+          name: REFERENCES_RANGES,
+          namedRangeId: id,
+        })),
+      },
+    }
+  return encodeBlocks(
+    [
+      stencila.heading({ depth: 1, content: [REFERENCES_HEADING] }),
+      ...references.map((reference) =>
+        stencila.paragraph({ content: [encodeReference(reference)] })
+      ),
+    ],
+    context
+  )
+}
+
+/**
+ * Encode a reference as text e.g. "Smith and Jones, 2020. The title".
+ */
+function encodeReference(
+  reference: stencila.CreativeWorkTypes | string
+): string {
+  if (typeof reference === 'string') return reference
+  const { title } = reference
+  return [
+    encodeCitationText(reference),
+    title !== undefined ? TxtCodec.stringify(title) : '',
+  ]
+    .filter((part) => part !== '')
+    .join('. ')
+}
+
 /**
  * Decode a GDoc `Paragraph` to a Stencila node.
  *
@@ -281,11 +654,15 @@ function encodeNode(node: stencila.Node): GDocT.Schema$Document {
  */
 function decodeParagraph(
   para: GDocT.Schema$Paragraph,
-  lists: { [key: string]: stencila.List[] }
+  context: DecodeContext
 ): stencila.Node | undefined {
   const { elements = [], paragraphStyle, bullet } = para
 
-  const content = elements.map(decodeParagraphElement)
+  const namedStyle =
+    context.namedStyles[paragraphStyle?.namedStyleType ?? ''] ?? {}
+  const content = elements.map((elem) =>
+    decodeParagraphElement(elem, context, namedStyle)
+  )
 
   // See if the content is a single block content node, and if
   // so return that. Filtering is necessary to remove empty strings that
@@ -314,7 +691,7 @@ function decodeParagraph(
     }
   }
 
-  if (bullet) return decodeListItem(para, inlineContent, lists)
+  if (bullet) return decodeListItem(para, inlineContent, context)
 
   return stencila.paragraph({ content: inlineContent })
 }
@@ -323,12 +700,16 @@ function decodeParagraph(
  * Encode a Stencila `Heading` to a GDoc `Paragraph` with a `HEADING_` style.
  */
 function encodeHeading(
-  heading: stencila.Heading
+  heading: stencila.Heading,
+  context: EncodeContext
 ): GDocT.Schema$StructuralElement {
-  const elem = encodeParagraph({
-    type: 'Paragraph',
-    content: heading.content,
-  })
+  const elem = encodeParagraph(
+    {
+      type: 'Paragraph',
+      content: heading.content,
+    },
+    context
+  )
   assertDefined(elem.paragraph).paragraphStyle = {
     namedStyleType: `HEADING_${heading.depth}`,
   }
@@ -339,11 +720,12 @@ function encodeHeading(
  * Encode a Stencila `Paragraph` to a GDoc `Paragraph`.
  */
 function encodeParagraph(
-  para: stencila.Paragraph
+  para: stencila.Paragraph,
+  context: EncodeContext
 ): GDocT.Schema$StructuralElement {
   return {
     paragraph: {
-      elements: para.content.map(encodeInlineContent),
+      elements: para.content.map((node) => encodeInlineContent(node, context)),
     },
   }
 }
@@ -377,8 +759,9 @@ function encodeCodeBlock(
 function decodeListItem(
   para: GDocT.Schema$Paragraph,
   content: stencila.InlineContent[],
-  lists: { [key: string]: stencila.List[] }
+  context: DecodeContext
 ): stencila.List | undefined {
+  const { gdoc, lists } = context
   const bullet = assertDefined(para.bullet)
   // The list and the depth in that list that this
   // list item lives at
@@ -392,10 +775,10 @@ function decodeListItem(
 
   // If we have jumped up a level then it means that the
   // the list at the lower depth has been finished
-  if (listLevel < decodingGDoc.listDepth) {
-    delete lists[listId][decodingGDoc.listDepth]
+  if (listLevel < context.listDepth) {
+    delete lists[listId][context.listDepth]
   }
-  decodingGDoc.listDepth = listLevel
+  context.listDepth = listLevel
 
   // If there is already a list with this id and level then add the item to it
   const existingList = lists[listId]?.[listLevel]
@@ -406,7 +789,7 @@ function decodeListItem(
 
   // Create a new list with this paragraph as it's first item
   const nestingLevels = assertDefined(
-    assertDefined(assertDefined(decodingGDoc.lists)[listId].listProperties)
+    assertDefined(assertDefined(gdoc.lists)[listId].listProperties)
       .nestingLevels
   )
   const nestingLevel = nestingLevels[listLevel]
@@ -437,8 +820,11 @@ function decodeListItem(
 /**
  * Encode a Stencila `List` to a GDoc `List` and paragraphs that link to it.
  */
-function encodeList(list: stencila.List): GDocT.Schema$StructuralElement[] {
-  const lists = assertDefined(encodingGDoc.lists)
+function encodeList(
+  list: stencila.List,
+  context: EncodeContext
+): GDocT.Schema$StructuralElement[] {
+  const lists = assertDefined(context.gdoc.lists)
   // Generate a unique list id based on the index of the new list
   // Ids are always prefixed with `kix.` (an old code name for GDocs)
   // followed by a unique string. We use the index here for reversability.
@@ -456,7 +842,7 @@ function encodeList(list: stencila.List): GDocT.Schema$StructuralElement[] {
 
   // Create the GDoc paragraphs with a bullet with the id
   return list.items.map((listItem) => ({
-    paragraph: encodeListItem(listItem, listId),
+    paragraph: encodeListItem(listItem, listId, context),
   }))
 }
 
@@ -465,14 +851,15 @@ function encodeList(list: stencila.List): GDocT.Schema$StructuralElement[] {
  */
 const encodeListItem = (
   listItem: stencila.ListItem,
-  listId: string
+  listId: string,
+  context: EncodeContext
 ): GDocT.Schema$Paragraph | undefined => {
   const { content = [] } = listItem
 
   const head = content[0]
   if (stencila.isParagraph(head)) {
     return {
-      elements: head.content.map(encodeInlineContent),
+      elements: head.content.map((node) => encodeInlineContent(node, context)),
       bullet: {
         listId,
       },
@@ -480,7 +867,9 @@ const encodeListItem = (
   }
 
   return {
-    elements: content.filter(stencila.isInlineContent).map(encodeInlineContent),
+    elements: content
+      .filter(stencila.isInlineContent)
+      .map((node) => encodeInlineContent(node, context)),
     bullet: {
       listId,
     },
@@ -489,38 +878,71 @@ const encodeListItem = (
 
 /**
  * Decode a GDoc `Table` element to a Stencila `Table`.
+ *
+ * In a GDoc table, every row has a cell for every column, including those
+ * that are covered by a merged cell. These are skipped, and the
+ * `rowSpan` and `columnSpan` of merged cells decoded.
  */
-function decodeTable(table: GDocT.Schema$Table): stencila.Table {
+function decodeTable(
+  table: GDocT.Schema$Table,
+  context: DecodeContext
+): stencila.Table {
+  const covered = new Set<string>()
   return {
     type: 'Table',
     rows: (table.tableRows ?? []).map(
-      (row: GDocT.Schema$TableRow): stencila.TableRow => {
-        return {
-          type: 'TableRow',
-          cells: (row.tableCells ?? []).map(
-            (cell: GDocT.Schema$TableCell): stencila.TableCell => {
-              return {
-                type: 'TableCell',
-                content: (cell.content ?? []).map(
-                  (
-                    elem: GDocT.Schema$StructuralElement
-                  ): stencila.InlineContent => {
-                    if (elem.paragraph) {
-                      const { elements } = elem.paragraph
-                      if (elements) {
-                        return elements
-                          .map(decodeParagraphElement)
-                          .filter(stencila.isInlineContent)[0]
-                      }
+      (row: GDocT.Schema$TableRow, rowIndex: number): stencila.TableRow => {
+        const cells = (row.tableCells ?? []).map(
+          (
+            cell: GDocT.Schema$TableCell,
+            colIndex: number
+          ): stencila.TableCell | undefined => {
+            if (covered.has(`${rowIndex},${colIndex}`)) return undefined
+
+            const { rowSpan, columnSpan } = cell.tableCellStyle ?? {}
+            const rowspan = rowSpan ?? 1
+            const colspan = columnSpan ?? 1
+            for (let row = 0; row < rowspan; row++) {
+              for (let col = 0; col < colspan; col++) {
+                covered.add(`${rowIndex + row},${colIndex + col}`)
+              }
+            }
+
+            return {
+              type: 'TableCell',
+              ...(rowspan > 1 ? { rowspan } : {}),
+              ...(colspan > 1 ? { colspan } : {}),
+              content: (cell.content ?? []).map(
+                (
+                  elem: GDocT.Schema$StructuralElement
+                ): stencila.InlineContent => {
+                  if (elem.paragraph) {
+                    const { elements, paragraphStyle } = elem.paragraph
+                    if (elements) {
+                      const namedStyle =
+                        context.namedStyles[
+                          paragraphStyle?.namedStyleType ?? ''
+                        ] ?? {}
+                      return elements
+                        .map((elem) =>
+                          decodeParagraphElement(elem, context, namedStyle)
+                        )
+                        .filter(stencila.isInlineContent)[0]
                     }
-                    log.warn(
-                      'Sorry, currently can only handle paragraphs in table cells'
-                    )
-                    return ''
                   }
-                ),
-              }
+                  log.warn(
+                    'Sorry, currently can only handle paragraphs in table cells'
+                  )
+                  return ''
+                }
+              ),
             }
+          }
+        )
+        return {
+          type: 'TableRow',
+          cells: cells.filter(
+            (cell): cell is stencila.TableCell => cell !== undefined
           ),
         }
       }
@@ -529,36 +951,63 @@ function decodeTable(table: GDocT.Schema$Table): stencila.Table {
 }
 
 /**
- * Encode a Stencila `Table` to GDoc `Table` element.
+ * Encode a Stencila `Table` to GDoc `Table` element, preceded by
+ * its caption, if any.
+ *
+ * Merged cells (those with a `rowspan` or `colspan`) are encoded
+ * with a `rowSpan` and `columnSpan` and, as in GDoc tables, empty
+ * cells are added for those that they cover.
  */
-function encodeTable(table: stencila.Table): GDocT.Schema$StructuralElement {
-  return {
-    table: {
-      tableRows: table.rows.map(
-        (row: stencila.TableRow): GDocT.Schema$TableRow => {
-          return {
-            tableCells: row.cells.map(
-              (cell: stencila.TableCell): GDocT.Schema$TableCell => {
-                return {
-                  content: cell.content.filter(isInlineContent).map(
-                    (
-                      node: stencila.InlineContent
-                    ): GDocT.Schema$StructuralElement => {
-                      return {
-                        paragraph: {
-                          elements: [encodeInlineContent(node)],
-                        },
-                      }
-                    }
-                  ),
-                }
-              }
-            ),
+function encodeTable(
+  table: stencila.Table,
+  context: EncodeContext
+): GDocT.Schema$StructuralElement[] {
+  const { label, caption } = table
+  const covered = new Set<string>()
+  const emptyCell = (): GDocT.Schema$TableCell => ({ content: [] })
+  const tableRows = table.rows.map(
+    (row: stencila.TableRow, rowIndex: number): GDocT.Schema$TableRow => {
+      const tableCells: GDocT.Schema$TableCell[] = []
+      const skipCovered = (): void => {
+        while (covered.has(`${rowIndex},${tableCells.length}`)) {
+          tableCells.push(emptyCell())
+        }
+      }
+      for (const cell of row.cells) {
+        skipCovered()
+        const { rowspan = 1, colspan = 1 } = cell
+        const colIndex = tableCells.length
+        for (let row = 0; row < rowspan; row++) {
+          for (let col = 0; col < colspan; col++) {
+            covered.add(`${rowIndex + row},${colIndex + col}`)
           }
         }
-      ),
-    },
-  }
+        tableCells.push({
+          ...(rowspan > 1 || colspan > 1
+            ? { tableCellStyle: { rowSpan: rowspan, columnSpan: colspan } }
+            : {}),
+          content: cell.content.filter(isInlineContent).map(
+            (node: stencila.InlineContent): GDocT.Schema$StructuralElement => {
+              return {
+                paragraph: {
+                  elements: [encodeInlineContent(node, context)],
+                },
+              }
+            }
+          ),
+        })
+        for (let col = 1; col < colspan; col++) tableCells.push(emptyCell())
+      }
+      skipCovered()
+      return { tableCells }
+    }
+  )
+  return [
+    ...(label !== undefined || caption !== undefined
+      ? encodeCaption(label, caption, context)
+      : []),
+    { table: { tableRows } },
+  ]
 }
 
 /**
@@ -584,26 +1033,26 @@ function encodeThematicBreak(): GDocT.Schema$StructuralElement {
  * for a list of the possible union field types.
  */
 function decodeParagraphElement(
-  elem: GDocT.Schema$ParagraphElement
+  elem: GDocT.Schema$ParagraphElement,
+  context: DecodeContext,
+  namedStyle: GDocT.Schema$TextStyle = {}
 ): stencila.Entity | stencila.InlineContent {
   // The paragraph element has one of these union fields
   if (elem.textRun) {
-    return decodeTextRun(elem.textRun)
+    return decodeTextRun(elem.textRun, namedStyle)
   }
   if (elem.inlineObjectElement) {
-    return decodeInlineObjectElement(elem.inlineObjectElement)
+    return decodeInlineObjectElement(elem.inlineObjectElement, context)
+  }
+  if (elem.footnoteReference) {
+    return decodeFootnoteReference(elem.footnoteReference, context)
   }
   if (elem.pageBreak || elem.horizontalRule) {
     // We can not decode these to a `ThematicBreak` (because that is not `InlineContent`)
     // So return them as string of text that resembles a Markdown encoded `ThematicBreak`
     return '* * *'
   }
-  if (
-    elem.autoText ||
-    elem.columnBreak ||
-    elem.footnoteReference ||
-    elem.equation
-  ) {
+  if (elem.autoText || elem.columnBreak || elem.equation) {
     // Ignore these fields for now.
     return ''
   }
@@ -618,28 +1067,78 @@ function decodeParagraphElement(
  * Decode a GDoc `InlineObjectElement` to a Stencila `Entity`.
  */
 function decodeInlineObjectElement(
-  elem: GDocT.Schema$InlineObjectElement
+  elem: GDocT.Schema$InlineObjectElement,
+  context: DecodeContext
 ): stencila.Entity {
   const embeddedObject = assertDefined(
     assertDefined(
-      assertDefined(decodingGDoc.inlineObjects)[
+      assertDefined(context.gdoc.inlineObjects)[
         assertDefined(elem.inlineObjectId)
       ].inlineObjectProperties
     ).embeddedObject
   )
   if (embeddedObject.imageProperties) {
-    return decodeImage(embeddedObject, embeddedObject.imageProperties)
+    return decodeImage(embeddedObject, embeddedObject.imageProperties, context)
   } else {
     log.warn(`Unhandled embedded object type ${JSON.stringify(embeddedObject)}`)
     return stencila.imageObject({ contentUrl: '' })
   }
 }
 
+/**
+ * Decode a GDoc `FootnoteReference` to a footnote `Link`, and add
+ * the content of the footnote to the footnotes of the context.
+ */
+function decodeFootnoteReference(
+  ref: GDocT.Schema$FootnoteReference,
+  context: DecodeContext
+): stencila.Link {
+  const id = assertDefined(ref.footnoteId)
+  const footnote = context.gdoc.footnotes?.[id]
+  if (footnote && !context.footnotes.some((item) => item.id === id)) {
+    const content = (footnote.content ?? [])
+      .map((elem) => decodeStructuralElement(elem, context))
+      .filter((node) => node !== undefined) as stencila.Node[]
+    // The text of GDoc footnotes usually starts with a space
+    // after the footnote number, so remove it
+    const [first] = content
+    if (stencila.isParagraph(first) && typeof first.content[0] === 'string') {
+      first.content[0] = first.content[0].trimStart()
+    }
+    context.footnotes.push(stencila.listItem({ id, content }))
+  }
+  return footnoteLink(id, ref.footnoteNumber ? [ref.footnoteNumber] : [])
+}
+
+/**
+ * Encode a footnote `Link` to a GDoc `FootnoteReference`, and
+ * add the content of the footnote to the GDoc's `footnotes`.
+ */
+function encodeFootnoteLink(
+  link: stencila.Link,
+  context: EncodeContext
+): GDocT.Schema$ParagraphElement {
+  const id = footnoteLinkId(link)
+  const footnotes = (context.gdoc.footnotes = context.gdoc.footnotes ?? {})
+  footnotes[id] = {
+    footnoteId: id,
+    content: encodeBlocks(context.footnotes[id] ?? [], context),
+  }
+  const footnoteNumber = TxtCodec.stringify(link.content)
+  return {
+    footnoteReference: {
+      footnoteId: id,
+      ...(footnoteNumber !== '' ? { footnoteNumber } : {}),
+    },
+  }
+}
+
 /**
  * Encode a Stencila inline content node to a GDoc `ParagraphElement`
  */
 function encodeInlineContent(
-  node: stencila.InlineContent
+  node: stencila.InlineContent,
+  context: EncodeContext
 ): GDocT.Schema$ParagraphElement {
   const type_ = stencila.nodeType(node)
   switch (type_) {
@@ -653,14 +1152,29 @@ function encodeInlineContent(
       return encodeSuperscript(node as stencila.Superscript)
     case 'Subscript':
       return encodeSubscript(node as stencila.Subscript)
-    case 'Link':
-      return encodeLink(node as stencila.Link)
+    case 'Link': {
+      const link = node as stencila.Link
+      return isFootnoteLink(link)
+        ? encodeFootnoteLink(link, context)
+        : encodeLink(link)
+    }
+    case 'Cite':
+      return encodeCite(node as stencila.Cite)
+    case 'MathFragment':
+      return encodeMathFragment(node as stencila.MathFragment)
     case 'ImageObject':
-      return encodeImageObject(node as stencila.ImageObject)
+      return encodeImageObject(node as stencila.ImageObject, context)
+    case 'CodeExpression':
+      return encodeReproducibleImage(node as stencila.CodeExpression, context)
     case 'Text':
       return encodeString(node as string)
     default:
-      log.warn(`Unhandled node type ${type_}`)
+      report({
+        severity: 'warning',
+        codec: 'gdoc',
+        node,
+        message: `Unhandled node type ${type_}`,
+      })
       return encodeString('')
   }
 }
@@ -673,7 +1187,8 @@ function encodeInlineContent(
  * only decodes to the most "semantically important" e.g a `Link`.
  */
 function decodeTextRun(
-  textRun: GDocT.Schema$TextRun
+  textRun: GDocT.Schema$TextRun,
+  namedStyle: GDocT.Schema$TextStyle = {}
 ):
   | string
   | stencila.Emphasis
@@ -681,7 +1196,8 @@ function decodeTextRun(
   | stencila.Delete
   | stencila.Link
   | stencila.Subscript
-  | stencila.Superscript {
+  | stencila.Superscript
+  | stencila.MathFragment {
   const { textStyle } = textRun
   const textContent = assertDefined(textRun.content)
   const text = textContent.endsWith('\n')
@@ -692,13 +1208,21 @@ function decodeTextRun(
   if (textStyle) {
     if (textStyle.link)
       return stencila.link({ content, target: textStyle.link.url ?? '' })
-    if (textStyle.baselineOffset === 'SUPERSCRIPT')
-      return stencila.superscript({ content })
-    if (textStyle.baselineOffset === 'SUBSCRIPT')
-      return stencila.subscript({ content })
-    if (textStyle.strikethrough) return stencila.del({ content })
-    if (textStyle.bold) return stencila.strong({ content })
-    if (textStyle.italic) return stencila.emphasis({ content })
+    if (textStyle.weightedFontFamily?.fontFamily === MATH_FONT_FAMILY)
+      return stencila.mathFragment({ text })
+    // Styles that are the same as the paragraph's named style
+    // (e.g. bold text in a bold heading) are ignored
+    const { baselineOffset } = textStyle
+    if (baselineOffset !== namedStyle.baselineOffset) {
+      if (baselineOffset === 'SUPERSCRIPT')
+        return stencila.superscript({ content })
+      if (baselineOffset === 'SUBSCRIPT') return stencila.subscript({ content })
+    }
+    if (textStyle.strikethrough && !namedStyle.strikethrough)
+      return stencila.del({ content })
+    if (textStyle.bold && !namedStyle.bold) return stencila.strong({ content })
+    if (textStyle.italic && !namedStyle.italic)
+      return stencila.emphasis({ content })
   }
 
   return text
@@ -795,6 +1319,43 @@ function encodeLink(link: stencila.Link): GDocT.Schema$ParagraphElement {
   }
 }
 
+/**
+ * Encode a Stencila `Cite` node to a GDoc `TextRun` node with a `textStyle.link`
+ * to the cited reference.
+ */
+function encodeCite(cite: stencila.Cite): GDocT.Schema$ParagraphElement {
+  const { target, content } = cite
+  return {
+    textRun: {
+      content: content !== undefined ? TxtCodec.stringify(content) : target,
+      textStyle: {
+        link: {
+          url: `#${target}`,
+        },
+      },
+    },
+  }
+}
+
+/**
+ * Encode a Stencila `MathFragment` node to a GDoc `TextRun` node
+ * with a math font.
+ */
+function encodeMathFragment(
+  math: stencila.MathFragment
+): GDocT.Schema$ParagraphElement {
+  return {
+    textRun: {
+      content: math.text,
+      textStyle: {
+        weightedFontFamily: {
+          fontFamily: MATH_FONT_FAMILY,
+        },
+      },
+    },
+  }
+}
+
 /**
  * Decode a GDoc `EmbeddedObject` with `imageProperties` into a Stencila `Entity`.
  *
@@ -806,7 +1367,8 @@ function encodeLink(link: stencila.Link): GDocT.Schema$ParagraphElement {
  */
 function decodeImage(
   embeddedObject: GDocT.Schema$EmbeddedObject,
-  imageProperties: GDocT.Schema$ImageProperties
+  imageProperties: GDocT.Schema$ImageProperties,
+  context: DecodeContext
 ): stencila.Entity {
   let { title, description } = embeddedObject
   if (title === null) title = undefined
@@ -828,7 +1390,7 @@ function decodeImage(
     }
   }
 
-  const contentUrl = decodingFetcher(imageProperties.contentUri ?? '')
+  const contentUrl = context.fetcher.get(imageProperties.contentUri ?? '')
   return stencila.imageObject({
     contentUrl,
     title,
@@ -841,9 +1403,10 @@ function decodeImage(
  * an image item in `inlineObjects`.
  */
 function encodeImageObject(
-  imageObject: stencila.ImageObject
+  imageObject: stencila.ImageObject,
+  context: EncodeContext
 ): GDocT.Schema$ParagraphElement {
-  const inlineObjects = encodingGDoc.inlineObjects!
+  const inlineObjects = context.gdoc.inlineObjects!
   const inlineObjectId = `kix.inlineobj${Object.keys(inlineObjects).length}`
   inlineObjects[inlineObjectId] = {
     inlineObjectProperties: {
@@ -863,6 +1426,32 @@ function encodeImageObject(
   }
 }
 
+/**
+ * Encode a Stencila `CodeChunk` or `CodeExpression` to a GDoc `ParagraphElement`
+ * linked to an image of its output.
+ *
+ * The node is encoded as JSON in the image's description so that it can
+ * be decoded (see `decodeImage`).
+ */
+function encodeReproducibleImage(
+  node: stencila.CodeChunk | stencila.CodeExpression,
+  context: EncodeContext
+): GDocT.Schema$ParagraphElement {
+  const outputs = stencila.isA('CodeChunk', node)
+    ? node.outputs ?? []
+    : [node.output]
+  const image = outputs.find((output): output is stencila.ImageObject =>
+    stencila.isA('ImageObject', output)
+  )
+  return encodeImageObject(
+    stencila.imageObject({
+      contentUrl: image?.contentUrl ?? '',
+      text: JSON.stringify(node),
+    }),
+    context
+  )
+}
+
 /**
  * Encode a `string` to a GDoc `TextRun`.
  */
@@ -49,8 +49,12 @@ import stencila, {
 import { getAllByRole, getByText } from '@testing-library/dom'
 import fs from 'fs'
 import { JSDOM } from 'jsdom'
+import { definitionList, definitionListItem } from '../../util/definitionLists'
+import { footnoteLink, footnotesList } from '../../util/footnotes'
 import * as vfile from '../../util/vfile'
-import { commonEncodeDefaults } from '../types'
+import { visualization } from '../../util/visualizations'
+import citationsArticle from '../../__fixtures__/article/citations'
+import { commonEncodeDefaults, CommonEncodeOptions } from '../types'
 import { decodeHref, HTMLCodec, stencilaItemProp } from './'
 
 const doc = (innerHTML: string) =>
@@ -61,7 +65,10 @@ const { encode, decode } = htmlCodec
 
 const e = async (
   node: stencila.Node,
-  options = { ...commonEncodeDefaults, isStandalone: false }
+  options: CommonEncodeOptions = {
+    ...commonEncodeDefaults,
+    isStandalone: false,
+  }
 ) => vfile.dump(await encode(node, options))
 
 const d = async (htmlString: string): Promise<stencila.Node> =>
@@ -209,6 +216,45 @@ describe('Encode & Decode cite group nodes', () => {
   })
 })
 
+describe('Encode with a citation style', () => {
+  test('author-year', async () => {
+    const actual = doc(await e(citationsArticle, { citationStyle: 'apa' }))
+    const [cite, group] = [
+      ...actual.querySelectorAll('article > p > cite, article > p > span'),
+    ]
+    const text = (elem: Element): string =>
+      elem.textContent?.replace(/\s+/g, ' ').trim() ?? ''
+    expect(text(cite)).toBe('(Jones et al., 2019)')
+    expect(text(group)).toBe('(Jones et al., 2019; Smith, 2020)')
+    expect(group.querySelectorAll('cite')).toHaveLength(2)
+
+    const refs = [...actual.querySelectorAll('section li')]
+    expect(refs.map((li) => li.id)).toEqual(['jones2019', 'smith2020'])
+    expect(text(refs[1])).toBe('Smith, J. (2020). Alpha.')
+  })
+
+  test('numeric', async () => {
+    const actual = doc(
+      await e(citationsArticle, { citationStyle: 'vancouver' })
+    )
+    expect(actual.querySelector('article > p > cite')?.textContent).toBe('(1)')
+    expect(
+      actual
+        .querySelector('article > p > span')
+        ?.textContent?.replace(/\s+/g, '')
+    ).toBe('(1,2)')
+
+    // References are numbered once, by the citation style
+    const list = actual.querySelector<HTMLElement>('section ul')
+    expect(list?.style.listStyle).toBe('none')
+    expect(actual.querySelector('section ol')).toBeNull()
+    const refs = [...actual.querySelectorAll('section li')]
+    expect(refs.map((li) => li.id)).toEqual(['jones2019', 'smith2020'])
+    expect(refs[0].textContent?.replace(/\s+/g, ' ').trim()).toMatch(/^1\. /)
+    expect(refs[1].textContent?.replace(/\s+/g, ' ').trim()).toMatch(/^2\. /)
+  })
+})
+
 describe.skip('Encode & Decode references', () => {
   const schemaNode = article({
     authors: [],
@@ -546,6 +592,174 @@ describe('Encode & Decode Collections', () => {
   })
 })
 
+describe('Encode & Decode footnotes', () => {
+  const schemaNode = [
+    paragraph({ content: ['A footnote', footnoteLink('fn1', ['1'])] }),
+    footnotesList([
+      listItem({
+        id: 'fn1',
+        content: [paragraph({ content: ['The footnote.'] })],
+      }),
+    ]),
+  ]
+
+  const htmlNode = `
+    <p>A footnote<a href="#fn1" role="doc-noteref">1</a></p>
+    <ol role="doc-endnotes">
+      <li id="fn1"><p>The footnote.</p></li>
+    </ol>
+  `
+
+  test('encode', async () => {
+    const actual = doc(await e(schemaNode))
+
+    expect(actual.querySelector('a')).toHaveAttribute('role', 'doc-noteref')
+    expect(actual.querySelector('a')).toHaveAttribute('href', '#fn1')
+    expect(actual.querySelector('ol')).toHaveAttribute('role', 'doc-endnotes')
+    expect(actual.querySelector('li')).toHaveAttribute('id', 'fn1')
+  })
+
+  test('decode', async () => {
+    expect(await d(htmlNode)).toMatchObject(schemaNode)
+  })
+})
+
+describe('Encode & Decode definition lists', () => {
+  const schemaNode = definitionList([
+    definitionListItem(
+      ['Term ', emphasis({ content: ['one'] })],
+      [paragraph({ content: ['The first definition.'] })]
+    ),
+    definitionListItem(
+      ['Term two'],
+      [
+        paragraph({ content: ['The second definition.'] }),
+        paragraph({ content: ['With a second paragraph.'] }),
+      ]
+    ),
+  ])
+
+  const htmlNode = `
+    <dl>
+      <dt>Term <em>one</em></dt>
+      <dd>The first definition.</dd>
+      <div>
+        <dt>Term two</dt>
+        <dd><p>The second definition.</p></dd>
+        <dd><p>With a second paragraph.</p></dd>
+      </div>
+    </dl>
+  `
+
+  test('encode', async () => {
+    const actual = doc(await e(schemaNode))
+
+    expect(actual.querySelectorAll('dl > dt')).toHaveLength(2)
+    expect(actual.querySelectorAll('dl > dd')).toHaveLength(2)
+    expect(actual.querySelector('dd')?.innerHTML).toBe('The first definition.')
+    expect(actual.querySelectorAll('dd')[1].querySelectorAll('p')).toHaveLength(
+      2
+    )
+  })
+
+  test('decode', async () => {
+    expect(await d(htmlNode)).toMatchObject(schemaNode)
+  })
+})
+
+describe('Encode code chunks with hidden or removed code and outputs', () => {
+  const chunk = (meta: Record<string, unknown>) =>
+    codeChunk({ text: 'x * 2', meta, outputs: [42] })
+
+  test('shown by default', async () => {
+    const actual = doc(await e(chunk({})))
+    expect(actual.querySelector('stencila-code-chunk')).not.toHaveAttribute(
+      'is-code-visible'
+    )
+    expect(actual.querySelector('[slot="text"]')).not.toBeNull()
+    expect(actual.querySelector('[slot="outputs"]')).not.toHaveAttribute(
+      'hidden'
+    )
+  })
+
+  test('hidden', async () => {
+    for (const meta of [
+      { tags: ['hide-input', 'hide-output'] },
+      { tags: ['hide-cell'] },
+      { collapsed: true, jupyter: { source_hidden: true } },
+    ]) {
+      const actual = doc(await e(chunk(meta)))
+      expect(actual.querySelector('stencila-code-chunk')).toHaveAttribute(
+        'is-code-visible',
+        'false'
+      )
+      expect(actual.querySelector('[slot="text"]')).not.toBeNull()
+      expect(actual.querySelector('[slot="outputs"]')).toHaveAttribute('hidden')
+    }
+  })
+
+  test('removed', async () => {
+    const actual = doc(
+      await e(chunk({ tags: ['remove-input', 'remove-output'] }))
+    )
+    expect(actual.querySelector('stencila-code-chunk')).not.toBeNull()
+    expect(actual.querySelector('[slot="text"]')).toBeNull()
+    expect(actual.querySelector('[slot="outputs"]')).toBeNull()
+  })
+})
+
+describe('Encode & Decode visualizations', () => {
+  const spec = { mark: 'point', data: { values: [{ a: '</script>' }] } }
+  const schemaNode = visualization(
+    'application/vnd.vegalite.v4+json',
+    spec,
+    'https://example.org/plot.png'
+  )
+
+  test('encode', async () => {
+    const actual = doc(await e(schemaNode))
+    const div = actual.querySelector('div[data-visualization]')
+
+    expect(div).toHaveAttribute('data-visualization', 'vega')
+    expect(div?.querySelector('script')).toHaveAttribute(
+      'type',
+      'application/vnd.vegalite.v4+json'
+    )
+    expect(JSON.parse(div?.querySelector('script')?.textContent ?? '')).toEqual(
+      spec
+    )
+    expect(div?.querySelector('img')).toHaveAttribute(
+      'src',
+      'https://example.org/plot.png'
+    )
+  })
+
+  test('encode standalone', async () => {
+    const html = await htmlCodec.dump(article({ content: [schemaNode] }), {
+      isStandalone: true,
+    })
+    expect(html).toMatch('<script src="https://unpkg.com/vega-embed@6"')
+    expect(html).not.toMatch('plotly.js')
+
+    const plain = await htmlCodec.dump(article(), { isStandalone: true })
+    expect(plain).not.toMatch('vega-embed')
+  })
+
+  test('encode standalone concurrently', async () => {
+    const [withPlot, plain] = await Promise.all(
+      [article({ content: [schemaNode] }), article()].map(async (node) =>
+        vfile.dump(await htmlCodec.encode(node, { isStandalone: true }))
+      )
+    )
+    expect(withPlot).toMatch('<script src="https://unpkg.com/vega-embed@6"')
+    expect(plain).not.toMatch('vega-embed')
+  })
+
+  test('decode', async () => {
+    expect(await d(await e(schemaNode))).toEqual(schemaNode)
+  })
+})
+
 test('encode with different themes - default theme', async () => {
   let html = await htmlCodec.dump(stencila.article(), {
     isStandalone: true,
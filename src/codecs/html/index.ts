@@ -32,9 +32,36 @@ import { VFileContents } from 'vfile'
 import { columnIndexToName } from '../../codecs/xlsx'
 import { logWarnLossIfAny } from '../../log'
 import { isDefined } from '../../util'
+import {
+  FormattedCitations,
+  formatCitations,
+  orderReferences,
+} from '../../util/citations'
+import { getChunkVisibility } from '../../util/chunkVisibility'
+import { ensureBlockContentArray } from '../../util/content/ensureBlockContentArray'
+import {
+  definitionList,
+  definitionListItem,
+  definitionListItemParts,
+  isDefinitionList,
+} from '../../util/definitionLists'
+import {
+  FOOTNOTE_RELATION,
+  footnotesList,
+  isFootnoteLink,
+  isFootnotesList,
+} from '../../util/footnotes'
 import { getThemeAssets } from '../../util/html'
 import { truncate } from '../../util/truncate'
 import * as vfile from '../../util/vfile'
+import {
+  isVisualization,
+  visualization,
+  VisualizationLibrary,
+  visualizationLibrary,
+  visualizationRenderer,
+  visualizationScripts,
+} from '../../util/visualizations'
 import { TxtCodec } from '../txt'
 import { Codec, CommonEncodeOptions } from '../types'
 import { fromFiles } from '../../util/media/fromFiles'
@@ -91,6 +118,23 @@ async function mathJaxFinish(): Promise<unknown> {
   return Promise.all(mathJaxPromises)
 }
 
+/**
+ * The citations and references of the article being encoded, formatted
+ * using the `citationStyle` option (if any). Like `mathJaxPromises`,
+ * module level so that it is available to the `encode*` functions.
+ */
+let formattedCitations: FormattedCitations | undefined
+
+/**
+ * The libraries used by the interactive visualizations in the
+ * node being encoded. Used to add the necessary scripts to standalone documents.
+ *
+ * Because the same set is used by concurrent encodes, it must only be
+ * read during the synchronous encoding pass of `encode` (i.e. before
+ * any `await`).
+ */
+const visualizationLibraries = new Set<VisualizationLibrary>()
+
 /**
  * Generate placeholder using given dimensions and text.
  */
@@ -235,7 +279,7 @@ export class HTMLCodec extends Codec implements Codec {
     node: stencila.Node,
     options: CommonEncodeOptions = this.commonEncodeDefaults
   ): Promise<vfile.VFile> => {
-    const { isStandalone, isBundle, theme } = {
+    const { isStandalone, isBundle, theme, citationStyle } = {
       ...this.commonEncodeDefaults,
       ...options,
     }
@@ -248,6 +292,13 @@ export class HTMLCodec extends Codec implements Codec {
 
     mathJaxInit()
 
+    formattedCitations =
+      citationStyle !== undefined
+        ? formatCitations(node, citationStyle, 'html')
+        : undefined
+
+    visualizationLibraries.clear()
+
     const fragment = Array.isArray(node)
     let dom = Array.isArray(node)
       ? h('div', encodeNodes(node))
@@ -256,6 +307,8 @@ export class HTMLCodec extends Codec implements Codec {
     const [name, value] = Object.entries(microdataRoot())[0]
     dom.setAttribute(name, value as string)
 
+    const scripts = visualizationScripts(visualizationLibraries)
+
     await mathJaxFinish()
 
     if (isStandalone) {
@@ -264,7 +317,8 @@ export class HTMLCodec extends Codec implements Codec {
         TxtCodec.stringify(title),
         [dom],
         isBundle,
-        theme
+        theme,
+        scripts
       )
     }
 
@@ -358,6 +412,7 @@ function decodeNode(node: Node): stencila.Node | stencila.Node[] {
 
     case 'ul':
     case 'ol':
+    case 'dl':
     case 'List':
       return decodeList(node as HTMLUListElement)
     case 'Collection':
@@ -428,9 +483,11 @@ function decodeNode(node: Node): stencila.Node | stencila.Node[] {
       return decodeCodeFragment(node as HTMLElement)
 
     case 'img':
-    case 'ImageObject':
       return decodeImage(node as HTMLImageElement)
 
+    case 'ImageObject':
+      return decodeImageObject(node as HTMLElement)
+
     case 'figure':
     case 'Figure':
       return decodeFigure(node as HTMLElement)
@@ -528,7 +585,9 @@ const encodeNode = (node: stencila.Node): Node => {
     case 'Figure':
       return encodeFigure(node as stencila.Figure)
     case 'List':
-      return encodeList(node as stencila.List)
+      return isDefinitionList(node)
+        ? encodeDefinitionList(node)
+        : encodeList(node as stencila.List)
     case 'ListItem':
       return encodeListItem(node as stencila.ListItem)
     case 'Table':
@@ -610,7 +669,8 @@ async function generateHtmlElement(
   title: string,
   root: Node[],
   isBundle: boolean,
-  theme?: string
+  theme?: string,
+  scripts: string[] = []
 ): Promise<HTMLHtmlElement> {
   let themeCss: HTMLElement[] = []
   let themeJs: HTMLElement[] = []
@@ -672,7 +732,11 @@ async function generateHtmlElement(
         src:
           'https://unpkg.com/@stencila/components@<=1/dist/stencila-components/stencila-components.js',
         type: 'text/javascript',
-      })
+      }),
+      ...scripts.map((src) => h('script', { src, type: 'text/javascript' })),
+      ...(scripts.length > 0
+        ? [h('script', { innerHTML: visualizationRenderer })]
+        : [])
     ),
     h('body', h('main', { attrs: { role: 'main' } }, root))
   )
@@ -1047,6 +1111,9 @@ function encodeDescriptionProperty(
 function encodeReferencesProperty(
   references: (string | stencila.CreativeWork)[]
 ): HTMLElement {
+  if (formattedCitations !== undefined)
+    return encodeFormattedReferences(references, formattedCitations.references)
+
   return h(
     'section',
     { attrs: microdata(references, 'references', 'array') },
@@ -1083,6 +1150,41 @@ function encodeReferencesProperty(
   )
 }
 
+/**
+ * Encode the `Article.references` property using references formatted
+ * with a citation style.
+ *
+ * References are listed in the order of the citation style (e.g. alphabetical
+ * or order of citation) with any that could not be formatted at the end.
+ * They are in an unstyled `<ul>`, rather than an `<ol>`, because numeric
+ * styles include the number of each reference in its formatted text.
+ */
+function encodeFormattedReferences(
+  references: (string | stencila.CreativeWork)[],
+  formatted: Map<string, string>
+): HTMLElement {
+  return h(
+    'section',
+    { attrs: microdata(references, 'references', 'array') },
+    h('h2', { [stencilaItemType]: microdataItemtype('Heading') }, 'References'),
+    h(
+      'ul',
+      { attrs: { style: 'list-style: none' } },
+      orderReferences(references, formatted).map((ref) => {
+        const md = microdata(ref, 'references', 'item')
+        if (typeof ref === 'string') return h('li', md, ref)
+        const attrs = { attrs: { ...md, id: ref.id } }
+        const html = formatted.get(ref.id ?? '')
+        if (html === undefined)
+          return h('li', attrs, encodeTitleProperty(ref.title, 'span'))
+        const li = h('li', attrs)
+        li.innerHTML = html
+        return li
+      })
+    )
+  )
+}
+
 interface CreativeWorkOptions {
   attrs?: { [key: string]: unknown }
   as?: keyof HTMLElementTagNameMap
@@ -1489,7 +1591,10 @@ function decodeCite(elem: HTMLElement): stencila.Cite {
 /**
  * Encode a `stencila.Cite` to a `<cite>` element.
  */
-function encodeCite(cite: stencila.Cite): HTMLElement {
+function encodeCite(
+  cite: stencila.Cite,
+  formatted = formattedCitations?.citations.get(cite)?.text
+): HTMLElement {
   const { prefix, target, suffix, content, ...lost } = cite
   logWarnLossIfAny('html', 'encode', cite, lost)
 
@@ -1497,7 +1602,7 @@ function encodeCite(cite: stencila.Cite): HTMLElement {
     'cite',
     encodeAttrs(cite),
     encodeMaybe(prefix, h('span', { itemprop: 'citePrefix' }, [prefix])),
-    h('a', { href: encodeHref(target) }, content ?? target),
+    h('a', { href: encodeHref(target) }, formatted ?? content ?? target),
     encodeMaybe(suffix, h('span', { itemprop: 'citeSuffix' }, [suffix]))
   )
 }
@@ -1515,7 +1620,27 @@ function decodeCiteGroup(citeGroup: HTMLOListElement): stencila.CiteGroup {
  * Encode a `stencila.CiteGroup` element to a `<ol itemtype="https://schema.stenci.la/CiteGroup">`.
  */
 function encodeCiteGroup(citeGroup: stencila.CiteGroup): HTMLElement {
-  return h('span', encodeAttrs(citeGroup), citeGroup.items.map(encodeCite))
+  const formatted = formattedCitations?.citations.get(citeGroup)
+  if (formatted === undefined)
+    return h(
+      'span',
+      encodeAttrs(citeGroup),
+      citeGroup.items.map((cite) => encodeCite(cite))
+    )
+
+  // Place the citation's prefix, delimiters and suffix between
+  // the `<cite>` elements for each item
+  const { items, prefix, delimiter, suffix } = formatted
+  return h(
+    'span',
+    encodeAttrs(citeGroup),
+    prefix,
+    items.map(({ cite, text }, index) => [
+      index > 0 ? delimiter : '',
+      encodeCite(cite, text),
+    ]),
+    suffix
+  )
 }
 
 /**
@@ -1630,6 +1755,11 @@ function decodeCodeChunk(chunk: HTMLElement): stencila.CodeChunk {
  *
  * If the code chunk has a label or a caption then it is encoded as a figure
  * with the code chunk as the content.
+ *
+ * Code that should be hidden (e.g. a `hide-input` tag) is collapsed using
+ * the `is-code-visible` attribute, and outputs that should be hidden are given the
+ * `hidden` attribute. Code or outputs that should be removed are not encoded.
+ * See `getChunkVisibility`.
  */
 function encodeCodeChunk(chunk: stencila.CodeChunk): HTMLElement {
   const {
@@ -1658,29 +1788,39 @@ function encodeCodeChunk(chunk: stencila.CodeChunk): HTMLElement {
     )
   }
 
-  const codeElem = encodeCodeBlock(
-    stencila.codeBlock({ text, programmingLanguage })
-  )
-  codeElem.setAttribute('slot', 'text')
+  const visibility = getChunkVisibility(chunk)
 
-  const outputsElem = encodeMaybe(outputs, (outputs) =>
-    h(
-      'figure',
-      {
-        attrs: {
-          slot: 'outputs',
-        },
-      },
-      outputs.map(encodeCodeOutput)
-    )
-  )
+  const codeElem =
+    visibility.code === 'remove'
+      ? undefined
+      : encodeCodeBlock(stencila.codeBlock({ text, programmingLanguage }))
+  codeElem?.setAttribute('slot', 'text')
 
-  return h(
+  const outputsElem =
+    visibility.outputs === 'remove'
+      ? undefined
+      : encodeMaybe(outputs, (outputs) =>
+          h(
+            'figure',
+            {
+              attrs: {
+                slot: 'outputs',
+                ...(visibility.outputs === 'hide' ? { hidden: '' } : {}),
+              },
+            },
+            outputs.map(encodeCodeOutput)
+          )
+        )
+
+  const chunkElem = h<HTMLElement>(
     'stencila-code-chunk',
     encodeAttrs(chunk, { ...meta, programmingLanguage }),
     codeElem,
     outputsElem
   )
+  if (visibility.code === 'hide')
+    chunkElem.setAttribute('is-code-visible', 'false')
+  return chunkElem
 }
 
 /**
@@ -1759,13 +1899,23 @@ const encodeCodeOutput = (node: stencila.Node): Node => {
 }
 
 /**
- * Decode a `<ul>` or `<ol>` element to a `stencila.List`.
+ * Decode a `<ul>`, `<ol>` or `<dl>` element to a `stencila.List`.
+ *
+ * A list with the [`doc-endnotes`](https://www.w3.org/TR/dpub-aria-1.0/#doc-endnotes)
+ * role is decoded as a list of footnotes.
  */
-function decodeList(list: HTMLUListElement | HTMLOListElement): stencila.List {
+function decodeList(
+  list: HTMLUListElement | HTMLOListElement | HTMLDListElement
+): stencila.List {
+  if (list.tagName === 'DL') return decodeDefinitionList(list)
+
+  const items = [...list.querySelectorAll('li')].map(decodeListItem)
+  if (list.getAttribute('role') === 'doc-endnotes') return footnotesList(items)
+
   const order = list.tagName === 'UL' ? 'unordered' : 'ascending'
   return stencila.list({
     order,
-    items: [...list.querySelectorAll('li')].map(decodeListItem),
+    items,
   })
 }
 
@@ -1779,7 +1929,12 @@ function decodeList(list: HTMLUListElement | HTMLOListElement): stencila.List {
 function encodeList(list: stencila.List): HTMLUListElement | HTMLOListElement {
   return h(
     list.order === 'unordered' ? 'ul' : 'ol',
-    { attrs: microdata(list) },
+    {
+      attrs: {
+        ...microdata(list),
+        ...(isFootnotesList(list) && { role: 'doc-endnotes' }),
+      },
+    },
     list.items.map((item, index) =>
       encodeNode({
         position: item.position ?? index + 1,
@@ -1789,11 +1944,80 @@ function encodeList(list: stencila.List): HTMLUListElement | HTMLOListElement {
   )
 }
 
+/**
+ * Decode a `<dl>` element to a `stencila.List` of definitions.
+ *
+ * Each `<dt>` starts a new item and the content of each `<dd>` is added
+ * to the definition of the preceding term. `<div>`s wrapping groups of
+ * terms and definitions are unwrapped.
+ */
+function decodeDefinitionList(dl: HTMLDListElement): stencila.List {
+  const children = [...dl.children].reduce(
+    (prev: Element[], child) => [
+      ...prev,
+      ...(child.tagName === 'DIV' ? [...child.children] : [child]),
+    ],
+    []
+  )
+  const items = children.reduce(
+    (
+      prev: [stencila.InlineContent[], stencila.BlockContent[]][],
+      child
+    ): [stencila.InlineContent[], stencila.BlockContent[]][] => {
+      if (child.tagName === 'DT')
+        return [...prev, [decodeInlineChildNodes(child), []]]
+      if (child.tagName !== 'DD') return prev
+
+      const content = decodeChildNodes(child)
+      const blocks = content.every(stencila.isInlineContent)
+        ? [stencila.paragraph({ content })]
+        : ensureBlockContentArray(content)
+      const [term, definition] = prev[prev.length - 1] ?? [[], []]
+      return [...prev.slice(0, -1), [term, [...definition, ...blocks]]]
+    },
+    []
+  )
+  return definitionList(
+    items.map(([term, definition]) => definitionListItem(term, definition))
+  )
+}
+
+/**
+ * Encode a `stencila.List` of definitions to a `<dl>` element.
+ *
+ * As for `<li>` elements, if the definition is a single `Paragraph`
+ * then it is "unwrapped".
+ */
+function encodeDefinitionList(list: stencila.List): HTMLDListElement {
+  return h(
+    'dl',
+    { attrs: microdata(list) },
+    list.items.map((item) => {
+      const { term, definition } = definitionListItemParts(item)
+      return [
+        h('dt', encodeNodes(term)),
+        definition.length === 0
+          ? []
+          : h(
+              'dd',
+              definition.length === 1 &&
+                stencila.isA('Paragraph', definition[0])
+                ? encodeNodes(definition[0].content)
+                : definition.map(encodeNode)
+            ),
+      ]
+    })
+  )
+}
+
 /**
  * Decode a `<li>` element to a `stencila.ListItem`.
  */
 function decodeListItem(li: HTMLLIElement): stencila.ListItem {
-  return stencila.listItem({ content: decodeChildNodes(li) })
+  return stencila.listItem({
+    id: li.getAttribute('id') ?? undefined,
+    content: decodeChildNodes(li),
+  })
 }
 
 /**
@@ -2019,11 +2243,18 @@ function encodeMark(node: stencila.Mark, tag: string): HTMLElement {
 
 /**
  * Decode a `<a>` element to a `stencila.Link`.
+ *
+ * A link with the [`doc-noteref`](https://www.w3.org/TR/dpub-aria-1.0/#doc-noteref)
+ * role is decoded as a reference to a footnote.
  */
 function decodeLink(elem: HTMLAnchorElement): stencila.Link {
   return stencila.link({
     target: elem.getAttribute('href') ?? '#',
     content: decodeInlineChildNodes(elem),
+    relation:
+      elem.getAttribute('role') === 'doc-noteref'
+        ? FOOTNOTE_RELATION
+        : undefined,
     meta: decodeDataAttrs(elem),
   })
 }
@@ -2035,7 +2266,10 @@ function encodeLink(link: stencila.Link): HTMLAnchorElement {
   const attrs = {
     ...encodeDataAttrs(link.meta ?? {}),
     href: link.target,
-    attrs: microdata(link),
+    attrs: {
+      ...microdata(link),
+      ...(isFootnoteLink(link) && { role: 'doc-noteref' }),
+    },
   }
   return h('a', attrs, link.content.map(encodeNode))
 }
@@ -2118,24 +2352,71 @@ function decodeImage(elem: HTMLImageElement): stencila.ImageObject {
   })
 }
 
+/**
+ * Decode an element with `itemtype="http://schema.org/ImageObject"` to a Stencila `ImageObject`.
+ *
+ * Usually an `<img>` element, but interactive visualizations are encoded
+ * as a `<div>` with the specification of the visualization in a `<script>`
+ * (see `encodeImageObject`).
+ */
+function decodeImageObject(elem: HTMLElement): stencila.ImageObject {
+  const script = elem.querySelector('script')
+  const format = script?.getAttribute('type')
+  if (
+    script === null ||
+    format === null ||
+    format === undefined ||
+    visualizationLibrary(format) === undefined
+  ) {
+    const img = elem.tagName === 'IMG' ? elem : elem.querySelector('img')
+    return decodeImage((img ?? elem) as HTMLImageElement)
+  }
+  const spec = JSON.parse(script.textContent ?? 'null')
+  const src = elem.querySelector('img')?.getAttribute('src') ?? undefined
+  return visualization(format, spec, src)
+}
+
 /**
  * Encode a Stencila `ImageObject` to a HTML `<img>` element.
  *
  * Ensures that the `alt` attribute is always set (with empty string
  * if there is no other source).
+ *
+ * Interactive visualizations are encoded as a `<div>` containing the
+ * specification of the visualization in a `<script>` element and, if there
+ * is a static rendering of it, an `<img>`. In standalone documents, the
+ * visualization is rendered using the scripts of its library (replacing the `<img>`).
  */
 function encodeImageObject(
   image: stencila.ImageObject,
   property?: string
-): HTMLImageElement {
-  const { contentUrl: src, title, text } = image
+): HTMLElement {
+  const { contentUrl: src, title, text, format = '', content = [] } = image
   const titleString = title !== undefined ? TxtCodec.stringify(title) : null
-  return h('img', {
-    attrs: microdata(image, property),
-    src,
-    title: titleString,
-    alt: text ?? titleString ?? property ?? '',
-  })
+  const alt = text ?? titleString ?? property ?? ''
+
+  const library = visualizationLibrary(format)
+  if (library === undefined || !isVisualization(image))
+    return h('img', {
+      attrs: microdata(image, property),
+      src,
+      title: titleString,
+      alt,
+    })
+
+  visualizationLibraries.add(library)
+  return h(
+    'div',
+    { attrs: { ...microdata(image, property), 'data-visualization': library } },
+    h('script', {
+      type: format,
+      // Escape `</` so that the spec can not close the `<script>` element
+      innerHTML: JSON.stringify(content[0]).replace(/<\//g, '<\\/'),
+    }),
+    src.startsWith(`data:${format}`)
+      ? []
+      : h('img', { src, title: titleString, alt })
+  )
 }
 
 /**
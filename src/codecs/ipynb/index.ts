@@ -33,7 +33,14 @@ import nbformat3Schema from './nbformat-v3.schema.json'
 import * as nbformat4 from './nbformat-v4'
 import nbformat4Schema from './nbformat-v4.schema.json'
 import { coerce } from '../../util/coerce'
+import { inferValidators } from '../../util/datatable/infer'
 import { getSchema } from '../../util/schemas'
+import {
+  isVisualization,
+  visualization,
+  visualizationLibrary,
+} from '../../util/visualizations'
+import { columnIndexToName } from '../xlsx'
 const log = getLogger('encoda:ipynb')
 
 /**
@@ -488,36 +495,50 @@ async function decodeCodeCell(
   version: nbformat.Version = 4,
   language = 'python'
 ): Promise<schema.CodeChunk> {
-  const { metadata, outputs } = cell
+  const { metadata } = cell
+  const outputs: (nbformat3.Output | nbformat4.Output)[] = cell.outputs ?? []
 
-  const [execution_count, source] = isv3(cell, 'Cell', version)
-    ? [cell.prompt_number, cell.input]
-    : [cell.execution_count, cell.source]
+  // In v3, `collapsed` is a property of the cell, rather
+  // than of its metadata (as it is in v4)
+  const [execution_count, source, collapsed] = isv3(cell, 'Cell', version)
+    ? [cell.prompt_number, cell.input, cell.collapsed]
+    : [cell.execution_count, cell.source, undefined]
+
+  // Error outputs are decoded to the `errors` of the chunk,
+  // rather than its `outputs`
+  const errors = outputs.filter(isErrorOutput)
+  const others = outputs.filter((output) => !isErrorOutput(output))
 
   return schema.codeChunk({
     text: decodeMultilineString(source),
     programmingLanguage: language,
-    meta: { ...metadata, execution_count },
-    outputs: outputs?.length
-      ? await decodeOutputs(outputs, version)
-      : undefined,
+    meta: {
+      ...(collapsed !== undefined ? { collapsed } : {}),
+      ...metadata,
+      execution_count,
+    },
+    outputs: others.length ? await decodeOutputs(others, version) : undefined,
+    errors: errors.length ? errors.map(decodeError) : undefined,
   })
 }
 
 /**
  * Encode a Stencila `CodeChunk` as a Jupyter `CodeCell`.
+ *
+ * The chunk's `meta` (e.g. `tags`, `collapsed`, `jupyter.source_hidden`) is
+ * used as the cell's metadata so that it is preserved when a notebook
+ * is round-tripped.
  */
 async function encodeCodeChunk(
   chunk: schema.CodeChunk
 ): Promise<nbformat4.CodeCell> {
-  const metadata = {}
-  const execution_count =
-    (chunk.meta && parseInt(chunk.meta.execution_count)) || 1
+  const { execution_count: _, ...metadata } = chunk.meta ?? {}
+  const execution_count = encodeExecutionCount(chunk)
   const source = encodeMultilineString(chunk.text || '')
-  const outputs: nbformat4.Output[] = await encodeOutputs(
-    chunk,
-    chunk.outputs ?? []
-  )
+  const outputs: nbformat4.Output[] = [
+    ...(await encodeOutputs(chunk, chunk.outputs ?? [])),
+    ...(chunk.errors ?? []).map(encodeError),
+  ]
   return {
     cell_type: 'code',
     metadata,
@@ -527,6 +548,18 @@ async function encodeCodeChunk(
   }
 }
 
+/**
+ * Encode the execution count of a Stencila `CodeChunk` for a Jupyter `CodeCell`.
+ *
+ * A `null` count (i.e. the cell has not been run) is preserved. Chunks without
+ * a count (e.g. decoded from other formats) are given a count of 1.
+ */
+function encodeExecutionCount(chunk: schema.CodeChunk): number | null {
+  const { execution_count } = chunk.meta ?? {}
+  if (execution_count === null) return null
+  return parseInt(execution_count) || 1
+}
+
 /**
  * Decode the `outputs` of a Jupyter `CodeCell` to an array of Stencila `Node`s.
  */
@@ -578,8 +611,9 @@ function decodeOutput(
       return decodeMimeBundle({ 'text/plain': output.text }, version)
     case 'error':
     case 'pyerr':
-      // TODO: decode error
-      return Promise.resolve('')
+      // Usually separated out by `decodeCodeCell` so this
+      // is only for outputs decoded in isolation
+      return Promise.resolve(decodeError(output))
     default:
       // The above should handle all output types but in case of an invalid
       // type, instead of throwing an error, return a JSON code block of output
@@ -592,6 +626,52 @@ function decodeOutput(
   }
 }
 
+/**
+ * Is a Jupyter `Output` an error?
+ */
+function isErrorOutput(
+  output: nbformat3.Output | nbformat4.Output
+): output is nbformat3.Pyerr | nbformat4.Error {
+  return output.output_type === 'error' || output.output_type === 'pyerr'
+}
+
+/**
+ * Matches ANSI escape sequences (e.g. for colors) which
+ * Jupyter kernels use in tracebacks.
+ */
+// eslint-disable-next-line no-control-regex
+const ansiEscapeRegex = /\u001b\[[0-9;]*[A-Za-z]/g
+
+/**
+ * Decode a Jupyter `Error` (or `Pyerr` in v3) output to a Stencila `CodeError`.
+ *
+ * ANSI escape sequences are removed from the traceback.
+ */
+function decodeError(
+  output: nbformat3.Pyerr | nbformat4.Error
+): schema.CodeError {
+  const { ename, evalue, traceback = [] } = output
+  const stackTrace = traceback.join('\n').replace(ansiEscapeRegex, '')
+  return schema.codeError({
+    errorType: ename,
+    errorMessage: evalue,
+    stackTrace: stackTrace.length > 0 ? stackTrace : undefined,
+  })
+}
+
+/**
+ * Encode a Stencila `CodeError` to a Jupyter `Error` output.
+ */
+function encodeError(error: schema.CodeError): nbformat4.Error {
+  const { errorType = 'Error', errorMessage, stackTrace } = error
+  return {
+    output_type: 'error',
+    ename: errorType,
+    evalue: errorMessage,
+    traceback: stackTrace !== undefined ? stackTrace.split('\n') : [],
+  }
+}
+
 /**
  * Encode the `outputs` of a Stencila `CodeChunk` to an array of Jupyter `Output`s.
  *
@@ -656,97 +736,217 @@ async function encodeExecuteResult(
   chunk: schema.CodeChunk,
   node: schema.Node
 ): Promise<nbformat4.ExecuteResult> {
-  const execution_count =
-    (chunk.meta && parseInt(chunk.meta.execution_count)) || 1
   return {
     output_type: 'execute_result',
-    execution_count,
+    execution_count: encodeExecutionCount(chunk),
     metadata: {},
     data: await encodeMimeBundle(node),
   }
 }
 
+/**
+ * For nbformat 3 it is necessary to convert some property
+ * names of a `MimeBundle` to mimetypes.
+ */
+const v3MimeTypes: { [key: string]: string } = {
+  html: 'text/html',
+  javascript: 'application/javascript',
+  jpeg: 'image/jpeg',
+  json: 'application/json',
+  latex: 'application/x-latex',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  text: 'text/plain',
+}
+
+/**
+ * The mimetypes of `MimeBundle` content, from most to least preferred
+ * when decoding.
+ *
+ * Interactive visualizations are preferred over all else. HTML is preferred
+ * over images only if it contains a table (e.g. a Pandas data frame). Otherwise,
+ * for most libraries, the HTML is a mix of markup and scripts for which an
+ * image is a better representation.
+ * Mimetypes not in this list are only decoded if there is no alternative.
+ */
+const mimeTypeRanking: ((mimetype: string, content: string) => boolean)[] = [
+  (mimetype) => visualizationLibrary(mimetype) !== undefined,
+  (mimetype, content) =>
+    mimetype === 'text/html' && /<table[\s>]/i.test(content),
+  (mimetype) => mimetype === 'image/svg+xml',
+  (mimetype) => ['image/png', 'image/jpeg', 'image/gif'].includes(mimetype),
+  (mimetype) => mimetype === 'text/html',
+  (mimetype) => mimetype === 'text/markdown',
+  (mimetype) => mimetype === 'application/json',
+  (mimetype) => mimetype === 'text/plain',
+]
+
 /**
  * Decode a Jupyter `MimeBundle` to a Stencila `Node`.
  *
- * The bundle is a dictionary of {mediaType : content}. We iterate over
- * the dictionary until we find the first media type that can be decoded.
+ * The bundle is a dictionary of {mediaType : content}. The content
+ * with the most preferred media type (see `mimeTypeRanking`) is decoded.
  */
 async function decodeMimeBundle(
   bundle: nbformat.MimeBundle,
   version: nbformat.Version = 4
 ): Promise<schema.Node> {
-  for (const [key, data] of Object.entries(bundle)) {
-    // For nbformat 3 it is necessary to convert some property
-    // names to mimetypes
-    const map: { [key: string]: string } = {
-      html: 'text/html',
-      javascript: 'application/javascript',
-      jpeg: 'image/jpeg',
-      json: 'application/json',
-      latex: 'application/x-latex',
-      pdf: 'application/pdf',
-      png: 'image/png',
-      svg: 'image/svg+xml',
-      text: 'text/plain',
-    }
-    const mimetype = version === 3 ? map[key] || key : key
-
+  const entries = Object.entries(bundle).map(([key, data]) => {
+    const mimetype = version === 3 ? v3MimeTypes[key] || key : key
     const content =
       typeof data === 'string'
         ? data
         : Array.isArray(data)
         ? data.join('')
-        : data.toString()
+        : typeof data === 'object' && data !== null
+        ? JSON.stringify(data)
+        : `${data}`
+    return { mimetype, data, content }
+  })
+  const rank = ({ mimetype, content }: typeof entries[number]): number => {
+    const index = mimeTypeRanking.findIndex((test) => test(mimetype, content))
+    return index < 0 ? mimeTypeRanking.length : index
+  }
+  const [first] = entries.sort((a, b) => rank(a) - rank(b))
+  if (first === undefined) return ''
+  const { mimetype, data, content } = first
+
+  if (visualizationLibrary(mimetype) !== undefined) {
+    // Visualizations as an `ImageObject` with any static rendering
+    // of it as the `contentUrl`
+    const spec = typeof data === 'object' ? data : JSON.parse(content)
+    const image = entries.find((entry) => entry.mimetype.startsWith('image/'))
+    const contentUrl =
+      image !== undefined
+        ? (await decodeImage(image.mimetype, image.content)).contentUrl
+        : undefined
+    return visualization(mimetype, spec, contentUrl)
+  } else if (mimetype.startsWith('image/')) {
+    return decodeImage(mimetype, content)
+  } else if (mimetype === 'text/html') {
+    // HTML tables from Pandas data frames as a `Datatable`,
+    // other tables as a `Table`
+    const node = await load(content, mimetype)
+    return schema.isA('Table', node) &&
+      /class="[^"]*\bdataframe\b/.test(content)
+      ? tableToDatatable(node) ?? node
+      : node
+  } else if (mimetype === 'text/plain') {
+    // Text output, including stdout, is decoded using the `txt` codec
+    // which attempts to parse `numbers` etc (and may in the future,
+    // attempt to parse fixed with table etc). However, if the result
+    // is a `string` (`txt` could not decode anything), containing
+    // preformatting (tabs, newlines or more than one consecutive space),
+    // then decode as a `CodeBlock` since formatting is
+    // often important in text output of cells.
+    const node = await load(content, 'txt')
+    if (typeof node === 'string' && /[ ]{2,}|\t|\n/g.test(node))
+      return schema.codeBlock({ text: node, programmingLanguage: 'text' })
+    else return node
+  } else {
+    return load(content, mimetype)
+  }
+}
 
-    if (['image/png', 'image/jpeg'].includes(mimetype)) {
-      // Image mime types as `ImagesObject`
-      const dataUrl = `data:${mimetype};base64,${content}`
-      const { mediaType: format, filePath: contentUrl } = await dataUri.toFile(
-        dataUrl
-      )
-      return schema.imageObject({ contentUrl, format })
-    } else if (mimetype === 'text/plain') {
-      // Text output, including stdout, is decoded using the `txt` codec
-      // which attempts to parse `numbers` etc (and may in the future,
-      // attempt to parse fixed with table etc). However, if the result
-      // is a `string` (`txt` could not decode anything), containing
-      // preformatting (tabs, newlines or more than one consecutive space),
-      // then decode as a `CodeBlock` since formatting is
-      // often important in text output of cells.
-      const node = await load(content, 'txt')
-      if (typeof node === 'string' && /[ ]{2,}|\t|\n/g.test(node))
-        return schema.codeBlock({ text: node, programmingLanguage: 'text' })
-      else return node
-    } else {
-      // TODO: handle other mime types e.g. application/x+json
-      return load(content, mimetype)
-    }
+/**
+ * Decode the content of an image in a Jupyter `MimeBundle` to an `ImageObject`.
+ *
+ * SVG images are text and other images are Base64 encoded.
+ */
+async function decodeImage(
+  mimetype: string,
+  content: string
+): Promise<schema.ImageObject> {
+  const data =
+    mimetype === 'image/svg+xml'
+      ? Buffer.from(content).toString('base64')
+      : content.replace(/\s/g, '')
+  const { mediaType: format, filePath: contentUrl } = await dataUri.toFile(
+    `data:${mimetype};base64,${data}`
+  )
+  return schema.imageObject({ contentUrl, format })
+}
+
+/**
+ * Convert a `Table` to a `Datatable`.
+ *
+ * The first row is used for the names of the columns (with unnamed
+ * columns, such as the index of a Pandas data frame, named `A`, `B` etc).
+ * Cell values are parsed as numbers and booleans where possible.
+ *
+ * @returns A `Datatable`, or `undefined` if the table does not have a single
+ *          header row followed by rows of the same length
+ */
+function tableToDatatable(table: schema.Table): schema.Datatable | undefined {
+  const [header, ...rows] = table.rows
+  const headers = table.rows.filter((row) => row.rowType === 'header')
+  if (
+    header === undefined ||
+    headers.length !== 1 ||
+    headers[0] !== header ||
+    rows.some((row) => row.cells.length !== header.cells.length)
+  )
+    return undefined
+
+  const value = (cell: schema.TableCell): schema.Node => {
+    const text = TxtCodec.stringify(cell.content).trim()
+    if (text === '' || text === 'NaN') return null
+    if (text === 'True') return true
+    if (text === 'False') return false
+    const number = Number(text)
+    return Number.isNaN(number) ? text : number
   }
-  // TODO: handling of fallback
-  return ''
+
+  return inferValidators(
+    schema.datatable({
+      columns: header.cells.map((cell, index) => {
+        const name = TxtCodec.stringify(cell.content).trim()
+        return schema.datatableColumn({
+          name: name.length > 0 ? name : columnIndexToName(index),
+          values: rows.map((row) => value(row.cells[index])),
+        })
+      }),
+    })
+  )
 }
 
 /**
  * Encode a Stencila `Node` as a Jupyter `MimeBundle`.
  *
  * The MIME type (aka media type) of the bundle is determined
- * by the type of `Node`.
+ * by the type of `Node`. Interactive visualizations are encoded
+ * using their own media type, and if they have a static rendering, as an image
+ * as well so that it can be displayed by other Jupyter clients.
  */
 async function encodeMimeBundle(
   node: schema.Node
 ): Promise<nbformat.MimeBundle> {
+  if (isVisualization(node)) {
+    const { format = '', content = [], contentUrl } = node
+    const image = contentUrl.startsWith(`data:${format}`)
+      ? {}
+      : await encodeMimeBundle(schema.imageObject({ contentUrl }))
+    return { [format]: content[0], ...image }
+  }
+
   const [mediaType, data] = await (async (): Promise<[string, string]> => {
     switch (nodeType(node)) {
       case 'Text':
         return ['text/plain', await dump(node, 'text')]
       case 'ImageObject': {
-        const image = node as schema.ImageObject
-        const { mediaType, dataUri: dataUrl } = await dataUri.fromFile(
-          image.contentUrl
-        )
+        const { contentUrl } = node as schema.ImageObject
+        const { mediaType, dataUri: dataUrl } = dataUri.match(contentUrl)
+          ? {
+              mediaType: contentUrl.slice(5, contentUrl.indexOf(';')),
+              dataUri: contentUrl,
+            }
+          : await dataUri.fromFile(contentUrl)
         const data = dataUrl.split('base64,').pop() ?? ''
-        return [mediaType, data]
+        // SVG images are text in notebooks
+        return mediaType === 'image/svg+xml'
+          ? [mediaType, Buffer.from(data, 'base64').toString()]
+          : [mediaType, data]
       }
     }
     return ['text/html', await dump(node, 'html')]
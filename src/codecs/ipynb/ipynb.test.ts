@@ -1,7 +1,11 @@
+import fs from 'fs-extra'
 import { unlinkFiles } from '../../util/media/unlinkFiles'
 import jupyterNotebookSimple from '../../__fixtures__/article/jupyter-notebook-simple'
+import { article, codeChunk, codeError } from '@stencila/schema'
 import { fixture, snapshot } from '../../__tests__/helpers'
+import { visualization } from '../../util/visualizations'
 import { JsonCodec } from '../json'
+import * as nbformat4 from './nbformat-v4'
 import { decodeMultilineString, encodeMultilineString, IpynbCodec } from './'
 
 const ipynbCodec = new IpynbCodec()
@@ -18,18 +22,23 @@ describe('decode', () => {
     expect(encodeMultilineString(str1)).toEqual(mls1)
   })
 
-  test.each(['metadata-v4', 'running-code', 'sunspots', 'well-switching'])(
-    '%s',
-    async (name) => {
-      expect(
-        await jsonCodec.dump(
-          // Unlink files to remove references to temporary files (which
-          // will change between test runs)
-          unlinkFiles(await ipynbCodec.read(fixture(name + '.ipynb')))
-        )
-      ).toMatchFile(snapshot(name + '.json'))
-    }
-  )
+  test.each([
+    'metadata-v4',
+    'running-code',
+    'sunspots',
+    'well-switching',
+    'errors',
+    'mime-bundles',
+    'cell-metadata',
+  ])('%s', async (name) => {
+    expect(
+      await jsonCodec.dump(
+        // Unlink files to remove references to temporary files (which
+        // will change between test runs)
+        unlinkFiles(await ipynbCodec.read(fixture(name + '.ipynb')))
+      )
+    ).toMatchFile(snapshot(name + '.json'))
+  })
 })
 
 describe('encode', () => {
@@ -47,12 +56,68 @@ describe('encode', () => {
 })
 
 describe('encode+decode', () => {
-  test.each([['jupyter-notebook-simple', jupyterNotebookSimple]])(
-    '%s',
-    async (name, encoded) => {
-      const ipynb = await ipynbCodec.dump(encoded)
-      const decoded = await ipynbCodec.load(ipynb)
-      expect(decoded).toEqual(encoded)
-    }
+  const errors = article({
+    meta: {},
+    content: [
+      codeChunk({
+        text: '1 / 0',
+        programmingLanguage: 'python',
+        meta: { execution_count: 1 },
+        outputs: ['Before the error'],
+        errors: [
+          codeError({
+            errorType: 'ZeroDivisionError',
+            errorMessage: 'division by zero',
+            stackTrace: 'Traceback (most recent call last)\n----> 1 1 / 0',
+          }),
+        ],
+      }),
+    ],
+  })
+
+  const visualizations = article({
+    meta: {},
+    content: [
+      codeChunk({
+        text: 'alt.Chart(df).mark_point()',
+        programmingLanguage: 'python',
+        meta: { execution_count: 1 },
+        outputs: [
+          visualization('application/vnd.vegalite.v4+json', {
+            data: { values: [{ a: 1 }] },
+            mark: 'point',
+          }),
+        ],
+      }),
+    ],
+  })
+
+  test.each([
+    ['jupyter-notebook-simple', jupyterNotebookSimple],
+    ['errors', errors],
+    ['visualizations', visualizations],
+  ])('%s', async (name, encoded) => {
+    const ipynb = await ipynbCodec.dump(encoded)
+    const decoded = await ipynbCodec.load(ipynb)
+    expect(decoded).toEqual(encoded)
+  })
+})
+
+test('encode preserves notebook and cell metadata', async () => {
+  const file = fixture('cell-metadata.ipynb')
+  const original = JSON.parse(await fs.readFile(file, 'utf8'))
+  const encoded = JSON.parse(await ipynbCodec.dump(await ipynbCodec.read(file)))
+
+  expect(encoded.metadata).toEqual(original.metadata)
+  expect(
+    encoded.cells.map(({ metadata, execution_count }: nbformat4.CodeCell) => ({
+      metadata,
+      execution_count,
+    }))
+  ).toEqual(
+    original.cells.map(({ metadata, execution_count }: nbformat4.CodeCell) => ({
+      metadata,
+      execution_count,
+    }))
   )
 })
@@ -18,10 +18,30 @@ import crypto from 'crypto'
 import { dropLeft, takeLeftWhile } from 'fp-ts/lib/Array'
 import fs from 'fs-extra'
 import { isDefined } from '../../util'
+import {
+  FormattedCitations,
+  formatCitations,
+  orderReferences,
+} from '../../util/citations'
 import { ensureArticle } from '../../util/content/ensureArticle'
 import { ensureBlockContent } from '../../util/content/ensureBlockContent'
 import { ensureBlockContentArray } from '../../util/content/ensureBlockContentArray'
 import { ensureInlineContentArray } from '../../util/content/ensureInlineContentArray'
+import {
+  definitionList,
+  definitionListItem,
+  definitionListItemParts,
+  isDefinitionList,
+} from '../../util/definitionLists'
+import {
+  appendFootnotes,
+  footnoteLink,
+  footnoteLinkId,
+  isFootnoteLink,
+  isFootnotesList,
+} from '../../util/footnotes'
+import { report } from '../../util/diagnostics'
+import { setRange } from '../../util/positions'
 import { encodeCitationText } from '../../util/references'
 import transform from '../../util/transform'
 import * as vfile from '../../util/vfile'
@@ -42,7 +62,7 @@ import {
   textOrUndefined,
 } from '../../util/xml'
 import { MathMLCodec } from '../mathml'
-import { Codec, CommonEncodeOptions } from '../types'
+import { Codec, CommonDecodeOptions, CommonEncodeOptions } from '../types'
 
 const log = getLogger('encoda:jats')
 const mathml = new MathMLCodec()
@@ -101,11 +121,13 @@ export class JatsCodec extends Codec implements Codec {
    * @returns A promise that resolves to a Stencila `Node`
    */
   public readonly decode = async (
-    file: vfile.VFile
+    file: vfile.VFile,
+    options: CommonDecodeOptions = this.commonDecodeDefaults
   ): Promise<stencila.Article | Content[]> => {
+    const { positions = false } = options
     const jats = await vfile.dump(file)
-    const doc = xml.load(jats)
-    return decodeDocument(doc)
+    const doc = xml.load(jats, { positions })
+    return decodeDocument(doc, positions ? { filePath: file.path } : undefined)
   }
 
   /**
@@ -118,7 +140,10 @@ export class JatsCodec extends Codec implements Codec {
     node: stencila.Node,
     options: CommonEncodeOptions = this.commonEncodeDefaults
   ): Promise<vfile.VFile> => {
-    const { isStandalone } = { ...this.commonEncodeDefaults, ...options }
+    const { isStandalone, citationStyle } = {
+      ...this.commonEncodeDefaults,
+      ...options,
+    }
     const doc = isStandalone
       ? {
           declaration: {
@@ -133,12 +158,16 @@ export class JatsCodec extends Codec implements Codec {
               doctype: DOCTYPE,
             },
             encodeArticle(
-              (await encodePrepare(ensureArticle(node))) as stencila.Article
+              (await encodePrepare(ensureArticle(node))) as stencila.Article,
+              citationStyle
             ),
           ],
         }
       : {
-          elements: encodeNode(await encodePrepare(node), initialEncodeState()),
+          elements: encodeNode(
+            await encodePrepare(node),
+            initialEncodeState(citationStyle)
+          ),
         }
     const jats = xml.dump(doc, { spaces: 4 })
     return vfile.load(jats)
@@ -155,9 +184,12 @@ export class JatsCodec extends Codec implements Codec {
  *
  * If there is no `<article>` element then returns an array of `Content` nodes.
  */
-function decodeDocument(doc: xml.Element): stencila.Article | Content[] {
+function decodeDocument(
+  doc: xml.Element,
+  positions?: { filePath?: string }
+): stencila.Article | Content[] {
   const article = first(doc, 'article')
-  if (article !== null) return decodeArticle(article)
+  if (article !== null) return decodeArticle(article, positions)
 
   const { elements } = doc
   if (elements === undefined) {
@@ -165,7 +197,9 @@ function decodeDocument(doc: xml.Element): stencila.Article | Content[] {
     return []
   }
 
-  return decodeElements(elements, initialDecodeState(doc)) as Content[]
+  const state = initialDecodeState(doc, positions)
+  const content = decodeElements(elements, state) as Content[]
+  return appendFootnotes(content, state.footnotes)
 }
 
 /**
@@ -223,13 +257,30 @@ interface DecodeState {
    * of headings.
    */
   sectionDepth: number
+
+  /**
+   * Footnotes decoded from `<fn>` elements. These are
+   * appended to the content of the article.
+   */
+  footnotes: stencila.ListItem[]
+
+  /**
+   * If source ranges of nodes are to be recorded,
+   * the path of the file being decoded (if any).
+   */
+  positions?: { filePath?: string }
 }
 
-const initialDecodeState = (article: xml.Element): DecodeState => ({
+const initialDecodeState = (
+  article: xml.Element,
+  positions?: DecodeState['positions']
+): DecodeState => ({
   article,
   ancestorElem: article,
   sectionId: '',
   sectionDepth: 0,
+  footnotes: [],
+  positions,
 })
 
 /**
@@ -263,12 +314,24 @@ interface EncodeState {
    * stored.
    */
   references: { [rid: string]: string }
+
+  /**
+   * The citation style, if any, to format citations and references with.
+   */
+  citationStyle?: string
+
+  /**
+   * The citations and references of the current article, formatted
+   * using the `citationStyle`.
+   */
+  formatted?: FormattedCitations
 }
 
-const initialEncodeState = (): EncodeState => ({
+const initialEncodeState = (citationStyle?: string): EncodeState => ({
   tables: 0,
   citations: {},
   references: {},
+  citationStyle,
 })
 
 /**
@@ -287,8 +350,11 @@ function decodeMaybe<Type extends stencila.Node>(
  * Extracts front- and back-matter, from `<front>` and
  * `<back>` respectively and decodes `<body>` to `content`.
  */
-function decodeArticle(article: xml.Element): stencila.Article {
-  const state: DecodeState = initialDecodeState(article)
+function decodeArticle(
+  article: xml.Element,
+  positions?: DecodeState['positions']
+): stencila.Article {
+  const state: DecodeState = initialDecodeState(article, positions)
 
   const { meta: metaFront, ...front } = decodeFront(
     child(article, 'front'),
@@ -298,7 +364,12 @@ function decodeArticle(article: xml.Element): stencila.Article {
   const metaAll = { ...metaFront, ...metaBack }
   const meta = Object.keys(metaAll).length > 0 ? metaAll : undefined
 
-  const content = decodeBody(child(article, 'body'), state)
+  const body = decodeBody(child(article, 'body'), state)
+  decodeBackFootnotes(article, state)
+  const content =
+    body !== undefined || state.footnotes.length > 0
+      ? appendFootnotes(body ?? [], state.footnotes)
+      : undefined
 
   return stencila.article({ ...front, ...back, meta, content })
 }
@@ -306,7 +377,10 @@ function decodeArticle(article: xml.Element): stencila.Article {
 /**
  * Encode a Stencila `Article` as a JATS `<article>`.
  */
-function encodeArticle(article: stencila.Article): xml.Element {
+function encodeArticle(
+  article: stencila.Article,
+  citationStyle?: string
+): xml.Element {
   const {
     title = '',
     authors = [],
@@ -325,10 +399,25 @@ function encodeArticle(article: stencila.Article): xml.Element {
     )
   )
 
-  const state: EncodeState = initialEncodeState()
-  const body = encodeBody(content, state)
+  const state: EncodeState = {
+    ...initialEncodeState(citationStyle),
+    formatted:
+      citationStyle !== undefined
+        ? formatCitations(article, citationStyle)
+        : undefined,
+  }
+  const body = encodeBody(
+    content.filter((node) => !isFootnotesList(node)),
+    state
+  )
 
-  const back = elem('back', ...encodeReferences(references, state))
+  const back = elem(
+    'back',
+    ...encodeReferences(references, state),
+    ...content
+      .filter(isFootnotesList)
+      .map((footnotes) => encodeFnGroup(footnotes, state))
+  )
 
   return elem(
     'article',
@@ -1046,6 +1135,25 @@ function decodeBack(
   return { references }
 }
 
+/**
+ * Decode the `<fn>` elements in the JATS `<back>` element that are referenced
+ * from within the `<body>` (using `<xref ref-type="fn">`), adding them to the
+ * footnotes of the article.
+ *
+ * Other `<fn>` elements in `<back>` (e.g. `fn-type="COI-statement"`) are
+ * usually article metadata (and may be referenced from `<front>`) rather
+ * than notes and so are ignored.
+ */
+function decodeBackFootnotes(article: xml.Element, state: DecodeState): void {
+  const body = child(article, 'body')
+  const rids = all(body, 'xref', { 'ref-type': 'fn' }).map((xref) =>
+    attr(xref, 'rid')
+  )
+  all(child(article, 'back'), 'fn')
+    .filter((fn) => rids.includes(attr(fn, 'id')))
+    .forEach((fn) => state.footnotes.push(decodeFootnote(fn, state)))
+}
+
 /**
  * Decode a JATS `<ref-list>` element to a Stencila `Article.reference`
  * property.
@@ -1078,15 +1186,25 @@ function encodeReferences(
   references: stencila.Article['references'],
   state: EncodeState
 ): xml.Element[] {
-  return references === undefined
-    ? []
-    : [
-        elem(
-          'ref-list',
-          elem('title', 'References'),
-          ...references.map((ref) => encodeReference(ref, state))
-        ),
-      ]
+  if (references === undefined) return []
+
+  const formatted = state.formatted?.references
+  if (formatted !== undefined)
+    references = orderReferences(references, formatted)
+
+  return [
+    elem(
+      'ref-list',
+      elem('title', 'References'),
+      ...references.map((ref) => {
+        if (typeof ref === 'string') return encodeReference(ref, state)
+        const text = formatted?.get(ref.id ?? '')
+        return text !== undefined
+          ? elem('ref', { id: ref.id }, elem('mixed-citation', text))
+          : encodeReference(ref, state)
+      })
+    ),
+  ]
 }
 
 /**
@@ -1306,6 +1424,17 @@ function encodeBody(nodes: stencila.Node[], state: EncodeState): xml.Element {
  * Decode a JATS element to an array of Stencila `Node`s
  */
 function decodeElement(elem: xml.Element, state: DecodeState): stencila.Node[] {
+  const decoded = decodeElementType(elem, state)
+  const range = state.positions !== undefined ? xml.range(elem) : undefined
+  if (range === undefined) return decoded
+  const { filePath: file } = state.positions ?? {}
+  return decoded.map((node) => setRange(node, { file, ...range }))
+}
+
+function decodeElementType(
+  elem: xml.Element,
+  state: DecodeState
+): stencila.Node[] {
   if (elem.type === 'text') return [elem.text ?? '']
   switch (elem.name) {
     case 'sec':
@@ -1316,6 +1445,8 @@ function decodeElement(elem: xml.Element, state: DecodeState): stencila.Node[] {
       return decodeParagraph(elem, state)
     case 'list':
       return decodeList(elem, state)
+    case 'def-list':
+      return decodeDefList(elem, state)
     case 'table-wrap':
       return decodeTableWrap(elem, state)
     case 'ext-link':
@@ -1328,6 +1459,10 @@ function decodeElement(elem: xml.Element, state: DecodeState): stencila.Node[] {
       return decodeMedia(elem)
     case 'xref':
       return decodeXRef(elem, state)
+    case 'fn':
+      return decodeFn(elem, state)
+    case 'fn-group':
+      return decodeFnGroup(elem, state)
     case 'italic':
       return decodeMark(elem, state, 'Emphasis')
     case 'bold':
@@ -1361,18 +1496,24 @@ function decodeElement(elem: xml.Element, state: DecodeState): stencila.Node[] {
 function encodeNode(node: stencila.Node, state: EncodeState): xml.Element[] {
   switch (stencila.nodeType(node)) {
     case 'Article':
-      return [encodeArticle(node as stencila.Article)]
+      return [encodeArticle(node as stencila.Article, state.citationStyle)]
 
     case 'Heading':
       return encodeHeading(node as stencila.Heading, state)
     case 'Paragraph':
       return encodeParagraph(node as stencila.Paragraph, state)
     case 'List':
-      return encodeList(node as stencila.List, state)
+      return isFootnotesList(node)
+        ? [encodeFnGroup(node, state)]
+        : isDefinitionList(node)
+        ? encodeDefList(node, state)
+        : encodeList(node as stencila.List, state)
     case 'Table':
       return encodeTable(node as stencila.Table, state)
     case 'Link':
-      return encodeLink(node as stencila.Link, state)
+      return isFootnoteLink(node)
+        ? encodeFootnoteLink(node, state)
+        : encodeLink(node as stencila.Link, state)
     case 'Emphasis':
       return encodeMark(node as stencila.Emphasis, state, 'italic')
     case 'Strong':
@@ -1394,6 +1535,8 @@ function encodeNode(node: stencila.Node, state: EncodeState): xml.Element[] {
       return encodeMedia(node as stencila.ImageObject, 'media')
     case 'Cite':
       return encodeCite(node as stencila.Cite, state)
+    case 'CiteGroup':
+      return encodeCiteGroup(node as stencila.CiteGroup, state)
     case 'Collection': {
       const collection = node as stencila.Collection
       if (collection.meta && collection.meta.usage === 'figGroup') {
@@ -1412,9 +1555,14 @@ function encodeNode(node: stencila.Node, state: EncodeState): xml.Element[] {
       return [{ type: 'text', text: node as string }]
   }
 
-  log.warn(
-    `Unhandled node type when encoding to JATS: "${stencila.nodeType(node)}"`
-  )
+  report({
+    severity: 'warning',
+    codec: 'jats',
+    node,
+    message: `Unhandled node type when encoding to JATS: "${stencila.nodeType(
+      node
+    )}"`,
+  })
   return []
 }
 
@@ -1605,16 +1753,109 @@ function encodeLink(node: stencila.Link, state: EncodeState): [xml.Element] {
  *
  * The `rid` attribute is decoded to a local `Link`.
  * The `ref-type` attribute is preserved in the link's `relation` property, or
- * discarded if decoding to a `Cite` (in the case of "bibr").
+ * discarded if decoding to a `Cite` (in the case of "bibr"), or
+ * translated to the footnote relation (in the case of "fn").
  * See https://jats.nlm.nih.gov/archiving/tag-library/1.1/element/xref.html
  */
 function decodeXRef(
   elem: xml.Element,
   state: DecodeState
 ): [stencila.Link | stencila.Cite] {
-  return attr(elem, 'ref-type') === 'bibr'
-    ? decodeBibr(elem, state)
-    : decodeLink(elem, state)
+  switch (attr(elem, 'ref-type')) {
+    case 'bibr':
+      return decodeBibr(elem, state)
+    case 'fn':
+      return [
+        footnoteLink(
+          decodeInternalId(attr(elem, 'rid')) ?? '',
+          decodeInlineContent(elem.elements ?? [], state)
+        ),
+      ]
+    default:
+      return decodeLink(elem, state)
+  }
+}
+
+/**
+ * Encode a Stencila footnote `Link` as a JATS `<xref ref-type="fn">` element.
+ */
+function encodeFootnoteLink(
+  link: stencila.Link,
+  state: EncodeState
+): [xml.Element] {
+  return [
+    elem(
+      'xref',
+      { 'ref-type': 'fn', rid: footnoteLinkId(link) },
+      ...encodeNodes(link.content, state)
+    ),
+  ]
+}
+
+/**
+ * Decode a JATS `<fn>` element to a Stencila `ListItem` to be
+ * added to the footnotes of the article.
+ *
+ * Any `<label>` is ignored since footnotes are numbered when encoded.
+ */
+function decodeFootnote(
+  elem: xml.Element,
+  state: DecodeState
+): stencila.ListItem {
+  const id =
+    decodeInternalId(attr(elem, 'id')) ?? `fn-${state.footnotes.length + 1}`
+  const content = ensureBlockContentArray(
+    decodeElements(
+      (elem.elements ?? []).filter((child) => child.name !== 'label'),
+      state
+    )
+  )
+  return stencila.listItem({ id, content })
+}
+
+/**
+ * Decode a JATS `<fn>` element which is within content (e.g. within a `<p>`)
+ * to a Stencila footnote `Link`, adding the content of the note to the
+ * footnotes of the article.
+ */
+function decodeFn(elem: xml.Element, state: DecodeState): [stencila.Link] {
+  const footnote = decodeFootnote(elem, state)
+  state.footnotes.push(footnote)
+  const label = textOrUndefined(child(elem, 'label'))
+  return [
+    footnoteLink(footnote.id ?? '', [label ?? `${state.footnotes.length}`]),
+  ]
+}
+
+/**
+ * Decode a JATS `<fn-group>` element by adding each of its `<fn>`
+ * elements to the footnotes of the article.
+ *
+ * Returns an empty array because footnotes are appended
+ * to the end of the content.
+ */
+function decodeFnGroup(elem: xml.Element, state: DecodeState): [] {
+  all(elem, 'fn').forEach((fn) =>
+    state.footnotes.push(decodeFootnote(fn, state))
+  )
+  return []
+}
+
+/**
+ * Encode a Stencila `List` of footnotes as a JATS `<fn-group>` element.
+ */
+function encodeFnGroup(list: stencila.List, state: EncodeState): xml.Element {
+  return elem(
+    'fn-group',
+    ...list.items.map((item) => {
+      const { id, content = [] } = item
+      return elem(
+        'fn',
+        id !== undefined ? { id } : null,
+        ...encodeNodes(content, state)
+      )
+    })
+  )
 }
 
 /**
@@ -1663,11 +1904,18 @@ function decodeBibr(elem: xml.Element, state: DecodeState): [stencila.Cite] {
 /**
  * Encode a Stencila `Cite` node as a JATS `<xref>` element.
  */
-function encodeCite(cite: stencila.Cite, state: EncodeState): [xml.Element] {
+function encodeCite(
+  cite: stencila.Cite,
+  state: EncodeState,
+  formatted = state.formatted?.citations.get(cite)?.text
+): [xml.Element] {
   const rid = cite.target.startsWith('#')
     ? cite.target.substring(1)
     : cite.target
 
+  if (formatted !== undefined)
+    return [elem('xref', { rid, 'ref-type': 'bibr' }, formatted)]
+
   const xref = elem('xref', { rid, 'ref-type': 'bibr' })
 
   if (state.citations[rid] === undefined) {
@@ -1681,6 +1929,35 @@ function encodeCite(cite: stencila.Cite, state: EncodeState): [xml.Element] {
   return [xref]
 }
 
+/**
+ * Encode a Stencila `CiteGroup` node as a JATS `<xref>` element for each of
+ * its items.
+ *
+ * If the citations have been formatted using a citation style then the
+ * prefix, delimiters and suffix of the citation are placed between
+ * the `<xref>` elements e.g. `(<xref>Jones, 2019</xref>; <xref>Smith, 2020</xref>)`.
+ */
+function encodeCiteGroup(
+  citeGroup: stencila.CiteGroup,
+  state: EncodeState
+): xml.Element[] {
+  const formatted = state.formatted?.citations.get(citeGroup)
+  if (formatted === undefined)
+    return citeGroup.items.flatMap((cite) => encodeCite(cite, state))
+
+  const { items, prefix, delimiter, suffix } = formatted
+  const text = (text: string): xml.Element[] =>
+    text.length > 0 ? [{ type: 'text', text }] : []
+  return [
+    ...text(prefix),
+    ...items.flatMap(({ cite, text: itemText }, index) => [
+      ...text(index > 0 ? delimiter : ''),
+      ...encodeCite(cite, state, itemText),
+    ]),
+    ...text(suffix),
+  ]
+}
+
 /**
  * Check if we have both a reference and its citation, if so, apply the
  * reference content to the citation node
@@ -1760,6 +2037,44 @@ function encodeList(node: stencila.List, state: EncodeState): [xml.Element] {
   return [elem('list', attrs, ...items)]
 }
 
+/**
+ * Decode a JATS `<def-list>` element to a Stencila definition `List` node.
+ *
+ * Any `<title>` or `<label>` of the list is ignored.
+ */
+function decodeDefList(elem: xml.Element, state: DecodeState): [stencila.List] {
+  const items = all(elem, 'def-item').map((item) =>
+    definitionListItem(
+      decodeInlineContent(child(item, 'term')?.elements ?? [], state),
+      all(item, 'def').reduce(
+        (prev: stencila.BlockContent[], def) => [
+          ...prev,
+          ...ensureBlockContentArray(decodeDefault(def, state)),
+        ],
+        []
+      )
+    )
+  )
+  return [definitionList(items)]
+}
+
+/**
+ * Encode a Stencila definition `List` node as a JATS `<def-list>` element.
+ */
+function encodeDefList(node: stencila.List, state: EncodeState): [xml.Element] {
+  const items = node.items.map((item) => {
+    const { term, definition } = definitionListItemParts(item)
+    return elem(
+      'def-item',
+      elem('term', ...encodeNodes(term, state)),
+      ...(definition.length > 0
+        ? [elem('def', ...encodeNodes(definition, state))]
+        : [])
+    )
+  })
+  return [elem('def-list', ...items)]
+}
+
 /**
  * Decode a JATS `<table-wrap>` element to a Stencila `Table` node.
  */
@@ -10,7 +10,17 @@ import {
 } from '../../__fixtures__/math/kitchen-sink'
 import { YamlCodec } from '../yaml'
 import { unlinkFiles } from '../../util/media/unlinkFiles'
-import { Article, organization, contactPoint } from '@stencila/schema'
+import {
+  Article,
+  article,
+  organization,
+  contactPoint,
+  emphasis,
+  paragraph,
+} from '@stencila/schema'
+import { load } from '../../util/vfile'
+import { definitionList, definitionListItem } from '../../util/definitionLists'
+import citationsArticle from '../../__fixtures__/article/citations'
 
 const jats = new JatsCodec()
 const yaml = new YamlCodec()
@@ -118,3 +128,87 @@ describe('authors', () => {
     )
   })
 })
+
+describe('definition lists', () => {
+  const xml = `<def-list><def-item><term>Term one</term><def><p>The first definition.</p></def></def-item><def-item><term>Term two</term><def><p>The second definition.</p><p>With a second paragraph.</p></def></def-item></def-list>`
+
+  const node = definitionList([
+    definitionListItem(
+      ['Term one'],
+      [paragraph({ content: ['The first definition.'] })]
+    ),
+    definitionListItem(
+      ['Term two'],
+      [
+        paragraph({ content: ['The second definition.'] }),
+        paragraph({ content: ['With a second paragraph.'] }),
+      ]
+    ),
+  ])
+
+  test('decode', async () => {
+    const { content } = (await jats.load(
+      `<article><body>${xml}</body></article>`
+    )) as Article
+    expect(content).toEqual([node])
+  })
+
+  test('encode', async () => {
+    const jatsXml = await jats.dump(article({ content: [node] }), {
+      isStandalone: true,
+    })
+    expect(jatsXml).toContain('<def-list>')
+    const { content } = (await jats.load(jatsXml)) as Article
+    expect(content).toEqual([node])
+  })
+})
+
+test('encode with a citation style', async () => {
+  const jatsXml = await jats.dump(citationsArticle, {
+    isStandalone: true,
+    citationStyle: 'apa',
+  })
+  expect(jatsXml).toMatch(
+    /As shown by\s*<xref rid="jones2019" ref-type="bibr">\(Jones et al., 2019\)<\/xref>/
+  )
+  expect(jatsXml).toMatch(
+    /\(\s*<xref rid="jones2019" ref-type="bibr">Jones et al., 2019<\/xref>;\s*<xref rid="smith2020" ref-type="bibr">Smith, 2020<\/xref>\)/
+  )
+  expect(jatsXml).toMatch(
+    /<ref id="jones2019">\s*<mixed-citation>Jones, K., Lee, M., &amp; Wu, X. \(2019\). Beta.<\/mixed-citation>\s*<\/ref>\s*<ref id="smith2020">/
+  )
+})
+
+test('decode with source positions', async () => {
+  const { content = [] } = (await jats.decode(
+    load(`<article>
+  <body>
+    <p>Para with <italic>emphasis</italic>.</p>
+  </body>
+</article>`),
+    { positions: true }
+  )) as Article
+  expect(content).toEqual([
+    paragraph({
+      content: [
+        'Para with ',
+        emphasis({
+          content: ['emphasis'],
+          meta: {
+            sourceRange: {
+              start: { line: 3, column: 18 },
+              end: { line: 3, column: 43 },
+            },
+          },
+        }),
+        '.',
+      ],
+      meta: {
+        sourceRange: {
+          start: { line: 3, column: 5 },
+          end: { line: 3, column: 48 },
+        },
+      },
+    }),
+  ])
+})
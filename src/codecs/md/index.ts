@@ -31,6 +31,7 @@ import compact from 'mdast-util-compact'
 import path from 'path'
 // @ts-ignore
 import attrs from 'remark-attr'
+import footnotes from 'remark-footnotes'
 import frontmatter from 'remark-frontmatter'
 // @ts-ignore
 import genericExtensions from 'remark-generic-extensions'
@@ -46,10 +47,26 @@ import filter from 'unist-util-filter'
 import map from 'unist-util-map'
 import { selectAll } from 'unist-util-select'
 import { STDIO_PATH } from '../..'
+import { ensureBlockContentArray } from '../../util/content/ensureBlockContentArray'
 import { ensureInlineContentArray } from '../../util/content/ensureInlineContentArray'
 import { isContentArray } from '../../util/content/isContentArray'
+import {
+  definitionList,
+  definitionListItem,
+  definitionListItemParts,
+  isDefinitionList,
+} from '../../util/definitionLists'
+import {
+  appendFootnotes,
+  footnoteLink,
+  footnoteLinkId,
+  isFootnoteLink,
+  isFootnotesList,
+} from '../../util/footnotes'
+import { setRange } from '../../util/positions'
+import { formatCitations } from '../../util/citations'
 import { encodeCitationText } from '../../util/references'
-import transform from '../../util/transform'
+import transform, { transformSync } from '../../util/transform'
 import * as vfile from '../../util/vfile'
 import { BibCodec } from '../bib'
 import { HTMLCodec } from '../html'
@@ -57,6 +74,7 @@ import { TexCodec } from '../tex'
 import { TxtCodec } from '../txt'
 import { Codec, CommonDecodeOptions, CommonEncodeOptions } from '../types'
 import { citePlugin } from './plugins/cite'
+import { DefList, definitionListPlugin } from './plugins/definitionList'
 import { stringifyHTML } from './stringifyHtml'
 
 const texCodec = new TexCodec()
@@ -77,9 +95,9 @@ export class MdCodec extends Codec implements Codec {
     file: vfile.VFile,
     options: CommonDecodeOptions = this.commonDecodeDefaults
   ): Promise<stencila.Node> => {
-    const { isStandalone } = options
+    const { isStandalone, positions } = options
     const md = await vfile.dump(file)
-    return decodeRootArticle(md, file.path, isStandalone)
+    return decodeRootArticle(md, file.path, isStandalone, positions)
   }
 
   /**
@@ -92,7 +110,10 @@ export class MdCodec extends Codec implements Codec {
     node: stencila.Node,
     options: CommonEncodeOptions = this.commonEncodeDefaults
   ): Promise<vfile.VFile> => {
-    const prepared = await encodePrepare(node, options)
+    const { citationStyle } = options
+    const cited =
+      citationStyle !== undefined ? encodeCitations(node, citationStyle) : node
+    const prepared = await encodePrepare(cited, options)
     const md = encodeMarkdown(prepared)
     return Promise.resolve(vfile.load(md))
   }
@@ -146,6 +167,13 @@ const isMdastPhrasingContent = nodeIs(mdastPhrasingContentTypes)
  */
 const FRONTMATTER_OPTIONS = [{ type: 'yaml', marker: '-' }]
 
+/**
+ * Options for `remark-footnotes` plugin
+ *
+ * @see https://github.com/remarkjs/remark-footnotes#options
+ */
+const FOOTNOTES_OPTIONS = { inlineNotes: true }
+
 /**
  * Options for `remark-attr` plugin
  */
@@ -230,11 +258,13 @@ for (const ext of GENERIC_EXTENSIONS) {
 export function stringToMdast(content: string): UNIST.Node {
   const mdast = unified()
     .use(parser, { commonmark: true })
+    .use(footnotes, FOOTNOTES_OPTIONS)
     .use(frontmatter, FRONTMATTER_OPTIONS)
     .use(attrs, ATTR_OPTIONS)
     .use(subSuper)
     .use(math)
     .use(citePlugin)
+    .use(definitionListPlugin)
     .use(genericExtensions, { elements: extensionHandlers })
     .parse(content)
 
@@ -249,6 +279,22 @@ interface DecodeContext {
   frontmatter: Partial<
     Exclude<stencila.CreativeWork, 'content'> & { bibliography: string }
   >
+
+  /**
+   * Footnotes collected during decoding, from both footnote
+   * definitions and inline footnotes, to be appended to the content.
+   */
+  footnotes: stencila.ListItem[]
+
+  /**
+   * Should the source range of nodes be recorded?
+   */
+  positions?: boolean
+
+  /**
+   * The path of the file being decoded (used in source ranges).
+   */
+  filePath?: string
 }
 
 /**
@@ -261,6 +307,7 @@ export function decodeMarkdown(md: string): stencila.Article {
 
   const context: DecodeContext = {
     frontmatter,
+    footnotes: [],
   }
   return decodeArticle(root, context)
 }
@@ -273,7 +320,8 @@ export function decodeMarkdown(md: string): stencila.Article {
 async function decodeRootArticle(
   content: string,
   filePath?: string,
-  isStandalone = true
+  isStandalone = true,
+  positions = false
 ): Promise<stencila.Article | stencila.Node[]> {
   const mdast = stringToMdast(content)
   const root = stringifyHTML(resolveReferences(mdast)) as MDAST.Root
@@ -291,14 +339,25 @@ async function decodeRootArticle(
       ...frontmatter,
       references,
     },
+    footnotes: [],
+    positions,
+    filePath,
   }
 
   // Remove the reference to the bibliography file as it has been inlined to the `references` key by this point
   delete context.frontmatter.bibliography
 
-  return isStandalone
-    ? decodeArticle(root, context)
-    : root.children.map((child) => decodeNode(child, context))
+  if (isStandalone) return decodeArticle(root, context)
+
+  const nodes: stencila.Node[] = []
+  for (const child of root.children) {
+    if (child.type === 'footnoteDefinition') {
+      context.footnotes.push(decodeFootnoteDefinition(child, context))
+    } else {
+      nodes.push(decodeNode(child, context))
+    }
+  }
+  return appendFootnotes(nodes, context.footnotes)
 }
 
 function loadFrontmatter(root: MDAST.Root): Frontmatter {
@@ -328,7 +387,9 @@ export function encodeMarkdown(node: stencila.Node): string {
 
   return unified()
     .use(stringifier)
+    .use(footnotes, FOOTNOTES_OPTIONS)
     .use(frontmatter, FRONTMATTER_OPTIONS)
+    .use(definitionListPlugin)
     .stringify(mdast)
 }
 
@@ -388,6 +449,40 @@ async function extractReferences(
   return article
 }
 
+/**
+ * Format the `Cite` and `CiteGroup` nodes, and references, of an article
+ * using a citation style.
+ *
+ * Citations are replaced by their formatted text, rather than being encoded
+ * as Pandoc style `@`-prefixed citations, and a "References" section with
+ * the formatted references is appended to the content of the article
+ * (instead of the references being in the front matter).
+ */
+function encodeCitations(
+  node: stencila.Node,
+  citationStyle: string
+): stencila.Node {
+  const formatted = formatCitations(node, citationStyle)
+  if (formatted === undefined || !stencila.isArticle(node)) return node
+
+  const { citations, references } = formatted
+  const article = transformSync(
+    node,
+    (child) => citations.get(child as stencila.Cite)?.text ?? child
+  ) as stencila.Article
+  return {
+    ...article,
+    references: undefined,
+    content: [
+      ...(article.content ?? []),
+      stencila.heading({ depth: 2, content: ['References'] }),
+      ...[...references.values()].map((text) =>
+        stencila.paragraph({ content: [text] })
+      ),
+    ],
+  }
+}
+
 /**
  * Do any async operations necessary on the node tree before encoding it.
  *
@@ -424,6 +519,21 @@ async function encodePrepare(
 }
 
 function decodeNode(node: UNIST.Node, context: DecodeContext): stencila.Node {
+  const decoded = decodeNodeType(node, context)
+  const { position } = node
+  if (context.positions !== true || position === undefined) return decoded
+  const { start, end } = position
+  return setRange(decoded, {
+    file: context.filePath,
+    start: { line: start.line, column: start.column },
+    end: { line: end.line, column: end.column },
+  })
+}
+
+function decodeNodeType(
+  node: UNIST.Node,
+  context: DecodeContext
+): stencila.Node {
   const type = node.type
   switch (type) {
     case 'heading':
@@ -440,6 +550,8 @@ function decodeNode(node: UNIST.Node, context: DecodeContext): stencila.Node {
       return decodeList(node as MDAST.List, context)
     case 'listItem':
       return decodeListItem(node as MDAST.ListItem, context)
+    case 'defList':
+      return decodeDefList(node as DefList, context)
     case 'table':
       return decodeTable(node as MDAST.Table, context)
     case 'thematicBreak':
@@ -447,6 +559,10 @@ function decodeNode(node: UNIST.Node, context: DecodeContext): stencila.Node {
 
     case 'link':
       return decodeLink(node as MDAST.Link, context)
+    case 'footnoteReference':
+      return decodeFootnoteReference(node as MDAST.FootnoteReference)
+    case 'footnote':
+      return decodeFootnote(node as MDAST.Footnote, context)
     case 'emphasis':
       return decodeEmphasis(node as MDAST.Emphasis, context)
     case 'strong':
@@ -535,7 +651,11 @@ function encodeNode(node: stencila.Node): UNIST.Node[] {
     case 'CodeChunk':
       return [encodeCodeChunk(node as stencila.CodeChunk)]
     case 'List':
-      return [encodeList(node as stencila.List)]
+      return isFootnotesList(node)
+        ? encodeFootnotesList(node)
+        : isDefinitionList(node)
+        ? [encodeDefList(node)]
+        : [encodeList(node as stencila.List)]
     case 'ListItem':
       return [encodeListItem(node as stencila.ListItem)]
     case 'Table':
@@ -548,7 +668,9 @@ function encodeNode(node: stencila.Node): UNIST.Node[] {
     case 'Cite':
       return [encodeCite(node as stencila.Cite)]
     case 'Link':
-      return [encodeLink(node as stencila.Link)]
+      return isFootnoteLink(node)
+        ? [encodeFootnoteLink(node)]
+        : [encodeLink(node as stencila.Link)]
     case 'Emphasis':
       return [encodeEmphasis(node as stencila.Emphasis)]
     case 'Strong':
@@ -644,6 +766,8 @@ function decodeArticle(
   for (const child of root.children) {
     if (child.type === 'yaml') {
       // The YAML frontmatter has already been parsed into a JS Object in the `decodeMarkdown` function
+    } else if (child.type === 'footnoteDefinition') {
+      context.footnotes.push(decodeFootnoteDefinition(child, context))
     } else if (
       title === undefined &&
       child.type === 'heading' &&
@@ -665,7 +789,7 @@ function decodeArticle(
     ...context.frontmatter,
     title,
     references: context.frontmatter.references,
-    content,
+    content: appendFootnotes(content, context.footnotes),
   })
 }
 
@@ -1136,6 +1260,71 @@ function decodeListItem(
     : _listItem
 }
 
+/**
+ * Decode a `DefList` to a `stencila.List` of definitions
+ *
+ * Multiple definitions of a term are concatenated.
+ */
+function decodeDefList(
+  defList: DefList,
+  context: DecodeContext
+): stencila.List {
+  const items = defList.children.reduce(
+    (
+      prev: [stencila.InlineContent[], stencila.BlockContent[]][],
+      child
+    ): [stencila.InlineContent[], stencila.BlockContent[]][] => {
+      if (child.type === 'defListTerm')
+        return [
+          ...prev,
+          [
+            child.children.map((node) => decodePhrasingContent(node, context)),
+            [],
+          ],
+        ]
+
+      const [term, definition] = prev[prev.length - 1] ?? [[], []]
+      const blocks = child.children.map((node) =>
+        decodeBlockContent(node, context)
+      )
+      return [...prev.slice(0, -1), [term, [...definition, ...blocks]]]
+    },
+    []
+  )
+  return definitionList(
+    items.map(([term, definition]) => definitionListItem(term, definition))
+  )
+}
+
+/**
+ * Encode a `stencila.List` of definitions to a `DefList`
+ */
+function encodeDefList(list: stencila.List): DefList {
+  return {
+    type: 'defList',
+    children: list.items.reduce((prev: DefList['children'], item) => {
+      const { term, definition } = definitionListItemParts(item)
+      return [
+        ...prev,
+        {
+          type: 'defListTerm',
+          children: term.map(encodeInlineContent).flat(),
+        },
+        ...(definition.length > 0
+          ? [
+              {
+                type: 'defListDescription' as const,
+                children: ensureBlockContentArray(definition)
+                  .map(encodeBlockContent)
+                  .flat(),
+              },
+            ]
+          : []),
+      ]
+    }, []),
+  }
+}
+
 /**
  * Decode a `MDAST.Table` to a `stencila.Table`
  */
@@ -1339,6 +1528,102 @@ function encodeLink(link: stencila.Link): MDAST.Link {
   }
 }
 
+/**
+ * Decode a MDAST footnote `identifier` to the `id` of a footnote.
+ *
+ * The identifier is prefixed so that the `id` is valid in formats
+ * such as HTML and JATS (e.g. identifiers are often numbers).
+ */
+function decodeFootnoteId(identifier: string): string {
+  return `fn-${identifier}`
+}
+
+/**
+ * Encode the `id` of a footnote to a MDAST footnote `identifier`.
+ */
+function encodeFootnoteId(id: string): string {
+  return id.replace(/^fn-/, '')
+}
+
+/**
+ * Decode a `MDAST.FootnoteReference` e.g. `[^1]` to a footnote `Link`.
+ */
+function decodeFootnoteReference(
+  footnoteReference: MDAST.FootnoteReference
+): stencila.Link {
+  const { identifier, label } = footnoteReference
+  return footnoteLink(decodeFootnoteId(identifier), [label ?? identifier])
+}
+
+/**
+ * Encode a footnote `Link` to a `MDAST.FootnoteReference`.
+ */
+function encodeFootnoteLink(link: stencila.Link): MDAST.FootnoteReference {
+  const identifier = encodeFootnoteId(footnoteLinkId(link))
+  return {
+    type: 'footnoteReference',
+    identifier,
+    label: identifier,
+  }
+}
+
+/**
+ * Decode a `MDAST.FootnoteDefinition` e.g. `[^1]: A note` to a `ListItem`
+ * to be added to the footnotes of the document.
+ */
+function decodeFootnoteDefinition(
+  footnoteDefinition: MDAST.FootnoteDefinition,
+  context: DecodeContext
+): stencila.ListItem {
+  const { identifier, children } = footnoteDefinition
+  return stencila.listItem({
+    id: decodeFootnoteId(identifier),
+    content: children
+      .map((child) => decodeNode(child, context))
+      .filter(isBlockContent),
+  })
+}
+
+/**
+ * Decode an inline `MDAST.Footnote` e.g. `^[A note]` to a footnote `Link`,
+ * adding the content of the note to the footnotes of the document.
+ */
+function decodeFootnote(
+  footnote: MDAST.Footnote,
+  context: DecodeContext
+): stencila.Link {
+  const label = `inline${context.footnotes.length + 1}`
+  const id = decodeFootnoteId(label)
+  context.footnotes.push(
+    stencila.listItem({
+      id,
+      content: [
+        stencila.paragraph({
+          content: footnote.children.map((child) =>
+            decodePhrasingContent(child, context)
+          ),
+        }),
+      ],
+    })
+  )
+  return footnoteLink(id, [label])
+}
+
+/**
+ * Encode a `List` of footnotes to an array of `MDAST.FootnoteDefinition`s.
+ */
+function encodeFootnotesList(list: stencila.List): MDAST.FootnoteDefinition[] {
+  return list.items.filter(isListItem).map((item) => {
+    const identifier = encodeFootnoteId(item.id ?? '')
+    return {
+      type: 'footnoteDefinition',
+      identifier,
+      label: identifier,
+      children: encodeListItem(item).children,
+    }
+  })
+}
+
 /**
  * Decode a `MDAST.Emphasis` to a `stencila.Emphasis`
  */
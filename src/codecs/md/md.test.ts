@@ -1,15 +1,21 @@
 import stencila, {
   article,
   cite,
+  codeFragment,
+  emphasis,
   heading,
   imageObject,
   link,
+  listItem,
   paragraph,
 } from '@stencila/schema'
 import fs from 'fs'
 import path from 'path'
+import { definitionList, definitionListItem } from '../../util/definitionLists'
+import { footnoteLink, footnotesList } from '../../util/footnotes'
 import { dump, load } from '../../util/vfile'
 import { fixture, snapshot } from '../../__tests__/helpers'
+import citationsArticle from '../../__fixtures__/article/citations'
 import { JsonCodec } from '../json'
 import { MdCodec } from './'
 
@@ -1188,3 +1194,212 @@ describe('References', () => {
     )
   })
 })
+
+describe('Footnotes', () => {
+  const md = `A paragraph with a footnote[^1] and another[^note].
+
+[^1]: The first footnote.
+
+[^note]: The second footnote.
+
+    With a second paragraph.
+`
+
+  const node = article({
+    content: [
+      paragraph({
+        content: [
+          'A paragraph with a footnote',
+          footnoteLink('fn-1', ['1']),
+          ' and another',
+          footnoteLink('fn-note', ['note']),
+          '.',
+        ],
+      }),
+      footnotesList([
+        listItem({
+          id: 'fn-1',
+          content: [paragraph({ content: ['The first footnote.'] })],
+        }),
+        listItem({
+          id: 'fn-note',
+          content: [
+            paragraph({ content: ['The second footnote.'] }),
+            paragraph({ content: ['With a second paragraph.'] }),
+          ],
+        }),
+      ]),
+    ],
+  })
+
+  test('decode', async () => {
+    expect(await d(md)).toEqual(node)
+  })
+
+  test('encode', async () => {
+    expect(await e(node)).toEqual(md)
+  })
+
+  test('decode inline footnote', async () => {
+    expect(await d(`An inline footnote^[With *emphasis*].`)).toEqual(
+      article({
+        content: [
+          paragraph({
+            content: [
+              'An inline footnote',
+              footnoteLink('fn-inline1', ['inline1']),
+              '.',
+            ],
+          }),
+          footnotesList([
+            listItem({
+              id: 'fn-inline1',
+              content: [
+                paragraph({
+                  content: ['With ', emphasis({ content: ['emphasis'] })],
+                }),
+              ],
+            }),
+          ]),
+        ],
+      })
+    )
+  })
+})
+
+describe('Definition lists', () => {
+  const md = `Para before.
+
+Term \`one\`
+:   The first definition.
+
+Term two
+:   The second definition.
+
+    With a second paragraph.
+
+Para after.
+`
+
+  const node = article({
+    content: [
+      paragraph({ content: ['Para before.'] }),
+      definitionList([
+        definitionListItem(
+          ['Term ', codeFragment({ text: 'one' })],
+          [paragraph({ content: ['The first definition.'] })]
+        ),
+        definitionListItem(
+          ['Term two'],
+          [
+            paragraph({ content: ['The second definition.'] }),
+            paragraph({ content: ['With a second paragraph.'] }),
+          ]
+        ),
+      ]),
+      paragraph({ content: ['Para after.'] }),
+    ],
+  })
+
+  test('decode', async () => {
+    expect(await d(md)).toEqual(node)
+  })
+
+  test('encode', async () => {
+    expect(await e(node)).toEqual(md)
+  })
+
+  test('decode loose list with multiple definitions', async () => {
+    expect(
+      await d(`Term
+
+:   Definition one
+
+:   Definition two
+`)
+    ).toEqual(
+      article({
+        content: [
+          definitionList([
+            definitionListItem(
+              ['Term'],
+              [
+                paragraph({ content: ['Definition one'] }),
+                paragraph({ content: ['Definition two'] }),
+              ]
+            ),
+          ]),
+        ],
+      })
+    )
+  })
+})
+
+describe('Source positions', () => {
+  const md = `## Heading
+
+Para with *emphasis*.
+`
+
+  test('are not recorded by default', async () => {
+    const { content = [] } = (await d(md)) as stencila.Article
+    expect(content[0]).toEqual(heading({ depth: 2, content: ['Heading'] }))
+  })
+
+  test('are recorded with the positions option', async () => {
+    const file = load(md)
+    file.path = 'doc.md'
+    const { content = [] } = (await decode(file, {
+      positions: true,
+    })) as stencila.Article
+    expect(content).toEqual([
+      heading({
+        depth: 2,
+        content: ['Heading'],
+        meta: {
+          sourceRange: {
+            file: 'doc.md',
+            start: { line: 1, column: 1 },
+            end: { line: 1, column: 11 },
+          },
+        },
+      }),
+      paragraph({
+        content: [
+          'Para with ',
+          emphasis({
+            content: ['emphasis'],
+            meta: {
+              sourceRange: {
+                file: 'doc.md',
+                start: { line: 3, column: 11 },
+                end: { line: 3, column: 21 },
+              },
+            },
+          }),
+          '.',
+        ],
+        meta: {
+          sourceRange: {
+            file: 'doc.md',
+            start: { line: 3, column: 1 },
+            end: { line: 3, column: 22 },
+          },
+        },
+      }),
+    ])
+  })
+})
+
+test('encode with a citation style', async () => {
+  const md = await mdCodec.dump(citationsArticle, { citationStyle: 'apa' })
+  expect(md).toContain(
+    'As shown by (Jones et al., 2019) and others (Jones et al., 2019; Smith, 2020).'
+  )
+  expect(md).toContain(`## References
+
+Jones, K., Lee, M., & Wu, X. (2019). Beta.
+
+Smith, J. (2020). Alpha.`)
+  expect(md).not.toMatch(/^references:/m)
+})
@@ -0,0 +1,218 @@
+// Remark plugin for definition lists
+// Parses, and stringifies, Pandoc style definition lists e.g.
+//
+//   Term
+//   :   Definition
+//
+//       Another paragraph of the definition
+//
+// into custom `defList` MDAST nodes which have `defListTerm` and
+// `defListDescription` children.
+
+import * as MDAST from 'mdast'
+import { Eat, Parser } from 'remark-parse'
+import { Plugin } from 'unified'
+import * as UNIST from 'unist'
+
+export interface DefListTerm extends UNIST.Parent {
+  type: 'defListTerm'
+  children: MDAST.PhrasingContent[]
+}
+
+export interface DefListDescription extends UNIST.Parent {
+  type: 'defListDescription'
+  children: MDAST.BlockContent[]
+}
+
+export interface DefList extends UNIST.Parent {
+  type: 'defList'
+  children: (DefListTerm | DefListDescription)[]
+}
+
+/**
+ * The marker at the start of the first line of a definition
+ * (up to two spaces, a colon or tilde, and then spaces or a tab)
+ */
+const MARKER_REGEX = /^ {0,2}[:~](?: {1,3}|\t)/
+
+/**
+ * The indentation of subsequent lines of a definition
+ */
+const INDENT_REGEX = /^(?: {4}|\t)/
+
+/**
+ * The marker used when stringifying definitions
+ */
+const MARKER = ':   '
+
+/**
+ * The indentation used when stringifying definitions
+ */
+const INDENT = '    '
+
+const isBlank = (line?: string): boolean =>
+  line !== undefined && line.trim() === ''
+
+const isMarked = (line?: string): boolean =>
+  line !== undefined && MARKER_REGEX.test(line)
+
+const isIndented = (line?: string): boolean =>
+  line !== undefined && INDENT_REGEX.test(line)
+
+/**
+ * Methods of the Remark parser that are not included
+ * in its type definitions.
+ */
+interface BlockParser extends Parser {
+  blockTokenizers: Record<string, unknown>
+  offset: Record<number, number | undefined>
+  enterBlock: () => () => void
+  tokenizeBlock: (value: string, now: UNIST.Point) => MDAST.BlockContent[]
+  tokenizeInline: (value: string, now: UNIST.Point) => MDAST.PhrasingContent[]
+}
+
+/**
+ * Methods of the Remark compiler that are not included
+ * in its type definitions.
+ */
+interface Compiler {
+  visitors: Record<string, unknown>
+  all: (node: UNIST.Parent) => string[]
+  block: (node: UNIST.Parent) => string
+}
+
+export const definitionListPlugin: Plugin<[]> = function () {
+  function blockTokenizer(
+    this: BlockParser,
+    eat: Eat,
+    value: string,
+    silent?: boolean
+  ): DefList | boolean | undefined {
+    const lines = value.split('\n')
+
+    // Find the terms and the lines of each of their definitions
+    // (as indices into `lines`)
+    const groups: { term: number; definitions: number[][] }[] = []
+    let index = 0
+    let end = 0
+    while (index < lines.length) {
+      const term = lines[index]
+      if (isBlank(term) || isMarked(term) || isIndented(term)) break
+
+      let line = index + 1
+      if (isBlank(lines[line])) line += 1
+      if (!isMarked(lines[line])) break
+
+      const definitions: number[][] = []
+      while (isMarked(lines[line])) {
+        const definition = [line]
+        line += 1
+        while (
+          isIndented(lines[line]) ||
+          (isBlank(lines[line]) && isIndented(lines[line + 1]))
+        ) {
+          definition.push(line)
+          line += 1
+        }
+        definitions.push(definition)
+        if (isBlank(lines[line]) && isMarked(lines[line + 1])) line += 1
+      }
+
+      groups.push({ term: index, definitions })
+      end = line
+      index = line
+      while (isBlank(lines[index])) index += 1
+    }
+
+    if (groups.length === 0) return
+    if (silent === true) return true
+
+    // Functions for getting the position of the start of a line
+    // (after any prefix), and for removing the prefix from subsequent
+    // lines, so that the positions of child nodes are correct
+    const now = (eat as Eat & { now: () => UNIST.Point }).now()
+    const offsets = this.offset
+    const starts = lines.reduce(
+      (prev: number[], line) => [
+        ...prev,
+        prev[prev.length - 1] + line.length + 1,
+      ],
+      [0]
+    )
+    const point = (line: number, prefix = 0): UNIST.Point => ({
+      line: now.line + line,
+      column:
+        (line === 0 ? now.column : 1 + (offsets[now.line + line] ?? 0)) +
+        prefix,
+      offset: (now.offset ?? 0) + starts[line] + prefix,
+    })
+    const strip = (line: number, regex: RegExp): string => {
+      const prefix = regex.exec(lines[line])?.[0].length ?? 0
+      offsets[now.line + line] = (offsets[now.line + line] ?? 0) + prefix
+      return lines[line].slice(prefix)
+    }
+
+    const children: (DefListTerm | DefListDescription)[] = []
+    for (const { term, definitions } of groups) {
+      children.push({
+        type: 'defListTerm',
+        children: this.tokenizeInline(lines[term], point(term)),
+      })
+      for (const definition of definitions) {
+        const [first, ...rest] = definition
+        const marker = MARKER_REGEX.exec(lines[first])?.[0].length ?? 0
+        const start = point(first, marker)
+        const content = [
+          lines[first].slice(marker),
+          ...rest.map((line) => strip(line, INDENT_REGEX)),
+        ].join('\n')
+
+        const exit = this.enterBlock()
+        children.push({
+          type: 'defListDescription',
+          children: this.tokenizeBlock(content, start),
+        })
+        exit()
+      }
+    }
+
+    return eat(lines.slice(0, end).join('\n'))({
+      type: 'defList',
+      children,
+    } as UNIST.Node) as DefList
+  }
+
+  function defListVisitor(this: Compiler, node: DefList): string {
+    return node.children
+      .map((child, index) => {
+        const separator =
+          index === 0 ? '' : child.type === 'defListTerm' ? '\n\n' : '\n'
+        const text =
+          child.type === 'defListTerm'
+            ? this.all(child).join('')
+            : MARKER +
+              this.block(child)
+                .split('\n')
+                .map((line, index) =>
+                  index === 0 || line === '' ? line : INDENT + line
+                )
+                .join('\n')
+        return separator + text
+      })
+      .join('')
+  }
+
+  // Inject block tokenizer, if this is a parser
+  const Parser = this.Parser as { prototype: BlockParser } | undefined
+  if (Parser !== undefined) {
+    const { blockTokenizers, blockMethods } = Parser.prototype
+    blockTokenizers.definitionList = blockTokenizer
+    blockMethods.splice(blockMethods.indexOf('paragraph'), 0, 'definitionList')
+  }
+
+  // Inject visitor, if this is a compiler
+  const Compiler = this.Compiler as { prototype: Compiler } | undefined
+  if (Compiler !== undefined) {
+    Compiler.prototype.visitors.defList = defListVisitor
+  }
+}
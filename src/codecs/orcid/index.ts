@@ -6,6 +6,7 @@ import * as stencila from '@stencila/schema'
 import { getLogger } from '@stencila/logga'
 import { load } from '../..'
 import * as http from '../../util/http'
+import { matchIdentifier } from '../../util/identifiers'
 import * as vfile from '../../util/vfile'
 import { Codec } from '../types'
 
@@ -49,7 +50,16 @@ export class OrcidCodec extends Codec implements Codec {
     return stencila.person()
   }
 
-  public readonly encode = (): Promise<vfile.VFile> => {
-    throw new Error(`Encoding to an ORCID is not yet implemented`)
+  /**
+   * Encode a `Person` as an ORCID iD
+   * e.g. `https://orcid.org/0000-0002-1825-0097`.
+   *
+   * The ORCID is taken from the first of the node's `identifiers`
+   * (or its `id` or `url`) that is an ORCID.
+   */
+  public readonly encode = (node: stencila.Node): Promise<vfile.VFile> => {
+    const match = matchIdentifier(node, OrcidCodec.regex)
+    if (match === undefined) throw new Error('Unable to find an ORCID for node')
+    return Promise.resolve(vfile.load(`https://orcid.org/${match[4]}`))
   }
 }
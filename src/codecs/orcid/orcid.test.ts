@@ -1,4 +1,5 @@
 import { toMatchFile } from 'jest-file-snapshot'
+import * as stencila from '@stencila/schema'
 import { OrcidCodec } from '.'
 import * as vfile from '../../util/vfile'
 import { nockRecord, snapshot } from '../../__tests__/helpers'
@@ -37,5 +38,24 @@ test('decode', async () => {
 })
 
 test('encode', async () => {
-  expect(() => encode()).toThrow(/Encoding to an ORCID is not yet implemented/)
+  expect(
+    await vfile.dump(
+      await encode(
+        stencila.person({ id: 'https://orcid.org/0000-0002-1825-0097' })
+      )
+    )
+  ).toBe('https://orcid.org/0000-0002-1825-0097')
+  expect(
+    await vfile.dump(
+      await encode(
+        stencila.person({
+          identifiers: [
+            stencila.propertyValue({ propertyID: 'Scopus', value: 7007156898 }),
+            'ORCID: 0000-0002-9079-593X',
+          ],
+        })
+      )
+    )
+  ).toBe('https://orcid.org/0000-0002-9079-593X')
+  expect(() => encode(stencila.person())).toThrow(/Unable to find an ORCID/)
 })
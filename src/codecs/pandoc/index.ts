@@ -22,6 +22,20 @@ import childProcess from 'child_process'
 import { makeBy } from 'fp-ts/lib/Array'
 import tempy from 'tempy'
 import { ensureBlockContent } from '../../util/content/ensureBlockContent'
+import {
+  definitionList,
+  definitionListItem,
+  definitionListItemParts,
+  isDefinitionList,
+} from '../../util/definitionLists'
+import {
+  appendFootnotes,
+  collectFootnotes,
+  footnoteLink,
+  footnoteLinkId,
+  isFootnoteLink,
+} from '../../util/footnotes'
+import { report } from '../../util/diagnostics'
 import transform, { transformSync } from '../../util/transform'
 import * as vfile from '../../util/vfile'
 import { encodeCsl } from '../csl'
@@ -287,10 +301,21 @@ async function encodeDocumentAsync(
 
 /**
  * Decode a Pandoc `Document` to a Stencila `Article`.
+ *
+ * Pandoc `Note`s are decoded, in document order, to footnote `Link`s
+ * prior to decoding the blocks, with the content of each note appended to
+ * the end of the article's `content`.
  */
 function decodeDocument(pdoc: Pandoc.Document): stencila.Article {
   const meta = decodeMeta(pdoc.meta)
-  const content = decodeBlocks(pdoc.blocks)
+  const footnotes: stencila.ListItem[] = []
+  const blocks = transformSync(pdoc.blocks, (node) => {
+    const elem = node as Pandoc.Inline | null
+    return typeof elem === 'object' && elem !== null && elem.t === 'Note'
+      ? decodeNote(elem, footnotes)
+      : node
+  }) as Pandoc.Block[]
+  const content = appendFootnotes(decodeBlocks(blocks), footnotes)
   return stencila.article({ ...meta, content })
 }
 
@@ -329,7 +354,7 @@ function encodeNode(
     )
 
     // TODO: wrap nodes as necessary and avoid use of `as`
-    blocks = encodeBlocks(content as stencila.BlockContent[])
+    blocks = encodeBlocks(encodeNotes(content ?? []) as stencila.BlockContent[])
   } else {
     if (isBlockContent(node)) {
       // The node is a block, so just encode it
@@ -349,6 +374,41 @@ function encodeNode(
   return { standalone, pdoc }
 }
 
+/**
+ * Decode a Pandoc `Note` to a footnote `Link`, adding the content
+ * of the note to `footnotes`.
+ */
+function decodeNote(
+  note: Pandoc.Note,
+  footnotes: stencila.ListItem[]
+): stencila.Link {
+  const label = `${footnotes.length + 1}`
+  const id = `fn-${label}`
+  footnotes.push(stencila.listItem({ id, content: decodeBlocks(note.c) }))
+  return footnoteLink(id, [label])
+}
+
+/**
+ * Encode the footnotes in content as Pandoc `Note`s.
+ *
+ * Removes any `List` of footnotes from the content and replaces each
+ * footnote `Link` with a Pandoc `Note` containing the content of the footnote.
+ */
+function encodeNotes(content: stencila.Node[]): stencila.Node[] {
+  const { content: rest, footnotes } = collectFootnotes(content)
+  if (Object.keys(footnotes).length === 0) return rest
+  return transformSync(rest, (node) => {
+    if (!isFootnoteLink(node)) return node
+    const note: Pandoc.Note = {
+      t: 'Note',
+      c: encodeBlocks(
+        ensureBlockContentArray(footnotes[footnoteLinkId(node)] ?? [])
+      ),
+    }
+    return note
+  }) as stencila.Node[]
+}
+
 /**
  * Decode a Pandoc `Meta` node to an `object`.
  *
@@ -516,6 +576,8 @@ function decodeBlock(elem: Pandoc.Block): stencila.BlockContent {
     case 'BulletList':
     case 'OrderedList':
       return decodeList(elem as Pandoc.OrderedList)
+    case 'DefinitionList':
+      return decodeDefinitionList(elem)
     case 'Table':
       return decodeTable(elem)
     case 'HorizontalRule':
@@ -543,7 +605,9 @@ function encodeBlock(node: stencila.BlockContent): Pandoc.Block {
     case 'CodeBlock':
       return encodeCodeBlock(node)
     case 'List':
-      return encodeList(node)
+      return isDefinitionList(node)
+        ? encodeDefinitionList(node)
+        : encodeList(node)
     case 'Table':
       return encodeTable(node)
     case 'Figure':
@@ -721,6 +785,46 @@ function encodeList(
   }
 }
 
+/**
+ * Decode a Pandoc `DefinitionList` to a Stencila definition `List`.
+ *
+ * Multiple definitions of a term are concatenated.
+ */
+function decodeDefinitionList(node: Pandoc.DefinitionList): stencila.List {
+  return definitionList(
+    node.c.map(([term, definitions]) =>
+      definitionListItem(
+        decodeInlines(term),
+        definitions.reduce(
+          (prev: stencila.BlockContent[], blocks) => [
+            ...prev,
+            ...decodeBlocks(blocks),
+          ],
+          []
+        )
+      )
+    )
+  )
+}
+
+/**
+ * Encode a Stencila definition `List` as a Pandoc `DefinitionList`.
+ */
+function encodeDefinitionList(node: stencila.List): Pandoc.DefinitionList {
+  return {
+    t: 'DefinitionList',
+    c: node.items.map((item) => {
+      const { term, definition } = definitionListItemParts(item)
+      return [
+        encodeInlines(term),
+        definition.length > 0
+          ? [definition.map(ensureBlockContent).map(encodeBlock)]
+          : [],
+      ]
+    }),
+  }
+}
+
 /**
  * Decode a Pandoc `Table` to a Stencila `Table`
  *
@@ -1486,9 +1590,14 @@ function encodeImageObject(imageObject: stencila.ImageObject): Pandoc.Image {
  * This is a fallback encoding for block nodes not handled elsewhere.
  */
 function encodeFallbackBlock(node: stencila.Node): Pandoc.Para {
-  log.warn(
-    `Unhandled block node type when encoding: ${stencila.nodeType(node)}`
-  )
+  report({
+    severity: 'warning',
+    codec: 'pandoc',
+    node,
+    message: `Unhandled block node type when encoding: ${stencila.nodeType(
+      node
+    )}`,
+  })
   return {
     t: 'Para',
     c: [],
@@ -1501,9 +1610,14 @@ function encodeFallbackBlock(node: stencila.Node): Pandoc.Para {
  * not handled elsewhere.
  */
 function encodeFallbackInline(node: stencila.Node): Pandoc.Str {
-  log.warn(
-    `Unhandled inline node type when encoding: ${stencila.nodeType(node)}`
-  )
+  report({
+    severity: 'warning',
+    codec: 'pandoc',
+    node,
+    message: `Unhandled inline node type when encoding: ${stencila.nodeType(
+      node
+    )}`,
+  })
   return { t: 'Str', c: '' }
 }
 
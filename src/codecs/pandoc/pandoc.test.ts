@@ -25,11 +25,16 @@ test('decode', async () => {
   expect(await pdoc2node(imageInlinesToString.pdoc)).toEqual(
     imageInlinesToString.node
   )
+  expect(await pdoc2node(footnotes.pdoc)).toEqual(footnotes.node)
+  expect(await pdoc2node(definitionLists.pdoc)).toEqual(definitionLists.node)
 })
 
 test('encode', async () => {
   let got = await node2pdoc(kitchenSink.node)
   expect(got).toEqual(kitchenSink.pdoc)
+
+  expect(await node2pdoc(footnotes.node)).toEqual(footnotes.pdoc)
+  expect(await node2pdoc(definitionLists.node)).toEqual(definitionLists.pdoc)
 })
 
 test('metadata', async () => {
@@ -566,6 +571,99 @@ const imageInlinesToString: testCase = {
   },
 }
 
+// Test that `Note`s are decoded to footnote links and a list of footnotes
+const footnotes: testCase = {
+  pdoc: {
+    'pandoc-api-version': Pandoc.Version,
+    meta: {},
+    blocks: [
+      {
+        t: 'Para',
+        c: [
+          str('Text'),
+          {
+            t: 'Note',
+            c: [{ t: 'Para', c: [str('Note')] }],
+          },
+        ],
+      },
+    ],
+  },
+  node: {
+    type: 'Article',
+    content: [
+      {
+        type: 'Paragraph',
+        content: [
+          'Text',
+          {
+            type: 'Link',
+            target: '#fn-1',
+            relation: 'footnote',
+            content: ['1'],
+          },
+        ],
+      },
+      {
+        type: 'List',
+        order: 'ascending',
+        items: [
+          {
+            type: 'ListItem',
+            id: 'fn-1',
+            content: [{ type: 'Paragraph', content: ['Note'] }],
+          },
+        ],
+        meta: { listType: 'footnotes' },
+      },
+    ],
+  },
+}
+
+// Test that a `DefinitionList` is decoded to a list of definitions
+const definitionLists: testCase = {
+  pdoc: {
+    'pandoc-api-version': Pandoc.Version,
+    meta: {},
+    blocks: [
+      {
+        t: 'DefinitionList',
+        c: [
+          [
+            [str('Term')],
+            [
+              [
+                { t: 'Para', c: [str('Definition')] },
+                { t: 'Para', c: [str('More')] },
+              ],
+            ],
+          ],
+        ],
+      },
+    ],
+  },
+  node: {
+    type: 'Article',
+    content: [
+      {
+        type: 'List',
+        order: 'unordered',
+        items: [
+          {
+            type: 'ListItem',
+            content: [
+              { type: 'Paragraph', content: ['Term'] },
+              { type: 'Paragraph', content: ['Definition'] },
+              { type: 'Paragraph', content: ['More'] },
+            ],
+          },
+        ],
+        meta: { listType: 'definitions' },
+      },
+    ],
+  },
+}
+
 // A very simple test of the approach to typing Pandoc nodes
 test('types', () => {
   const str: Pandoc.Str = {
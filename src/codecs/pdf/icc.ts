@@ -0,0 +1,134 @@
+/**
+ * @module pdf/icc
+ *
+ * Generates an ICC color profile for the sRGB color space. PDF/A requires
+ * an output intent with an ICC profile for the color space used by the
+ * document. Rather than distributing a binary profile file, a compact
+ * version 2 matrix/TRC display profile is generated from the published
+ * sRGB primaries (adapted to the D50 illuminant of the profile connection space).
+ */
+
+/**
+ * The identifier of the sRGB output condition, for use in
+ * the `OutputConditionIdentifier` of a PDF output intent.
+ */
+export const SRGB_IDENTIFIER = 'sRGB IEC61966-2.1'
+
+/**
+ * The D50 illuminant, and the sRGB primaries, as CIE XYZ values.
+ */
+const D50 = [0.9642, 1.0, 0.8249]
+const RED = [0.4361, 0.2225, 0.0139]
+const GREEN = [0.3851, 0.7169, 0.0971]
+const BLUE = [0.1431, 0.0606, 0.7141]
+
+/**
+ * The number of entries in the tone reproduction curve.
+ */
+const CURVE_ENTRIES = 1024
+
+/**
+ * Generate an ICC profile for sRGB.
+ *
+ * @returns A buffer containing the profile
+ */
+export function srgbProfile(): Buffer {
+  const tags: [string, Buffer][] = [
+    ['desc', textDescription(SRGB_IDENTIFIER)],
+    ['cprt', text('No copyright, use freely')],
+    ['wtpt', xyz(D50)],
+    ['rXYZ', xyz(RED)],
+    ['gXYZ', xyz(GREEN)],
+    ['bXYZ', xyz(BLUE)],
+    ['rTRC', curve()],
+    ['gTRC', curve()],
+    ['bTRC', curve()],
+  ]
+
+  // Lay out the tag data after the header and tag table,
+  // with each tag aligned to four bytes
+  const tableSize = 4 + tags.length * 12
+  let offset = 128 + tableSize
+  const table = Buffer.alloc(tableSize)
+  table.writeUInt32BE(tags.length, 0)
+  const data = tags.map(([signature, buffer], index) => {
+    table.write(signature, 4 + index * 12, 'ascii')
+    table.writeUInt32BE(offset, 8 + index * 12)
+    table.writeUInt32BE(buffer.length, 12 + index * 12)
+    const padded = Buffer.alloc(Math.ceil(buffer.length / 4) * 4)
+    buffer.copy(padded)
+    offset += padded.length
+    return padded
+  })
+
+  const header = Buffer.alloc(128)
+  header.writeUInt32BE(offset, 0)
+  header.writeUInt32BE(0x02100000, 8) // Version 2.1
+  header.write('mntr', 12, 'ascii') // Display device profile
+  header.write('RGB ', 16, 'ascii')
+  header.write('XYZ ', 20, 'ascii')
+  header.writeUInt16BE(2020, 24)
+  header.writeUInt16BE(1, 26)
+  header.writeUInt16BE(1, 28)
+  header.write('acsp', 36, 'ascii')
+  xyz(D50).copy(header, 68, 8)
+
+  return Buffer.concat([header, table, ...data])
+}
+
+/**
+ * Encode a number as a signed 15.16 fixed point number.
+ */
+function s15Fixed16(value: number): number {
+  return Math.round(value * 65536)
+}
+
+/**
+ * Create an `XYZType` tag.
+ */
+function xyz([x, y, z]: number[]): Buffer {
+  const buffer = Buffer.alloc(20)
+  buffer.write('XYZ ', 0, 'ascii')
+  buffer.writeInt32BE(s15Fixed16(x), 8)
+  buffer.writeInt32BE(s15Fixed16(y), 12)
+  buffer.writeInt32BE(s15Fixed16(z), 16)
+  return buffer
+}
+
+/**
+ * Create a `textType` tag.
+ */
+function text(value: string): Buffer {
+  const buffer = Buffer.alloc(8 + value.length + 1)
+  buffer.write('text', 0, 'ascii')
+  buffer.write(value, 8, 'ascii')
+  return buffer
+}
+
+/**
+ * Create a `textDescriptionType` tag (with empty Unicode
+ * and ScriptCode descriptions).
+ */
+function textDescription(value: string): Buffer {
+  const buffer = Buffer.alloc(12 + value.length + 1 + 8 + 3 + 67)
+  buffer.write('desc', 0, 'ascii')
+  buffer.writeUInt32BE(value.length + 1, 8)
+  buffer.write(value, 12, 'ascii')
+  return buffer
+}
+
+/**
+ * Create a `curveType` tag for the sRGB tone reproduction curve.
+ */
+function curve(): Buffer {
+  const buffer = Buffer.alloc(12 + CURVE_ENTRIES * 2)
+  buffer.write('curv', 0, 'ascii')
+  buffer.writeUInt32BE(CURVE_ENTRIES, 8)
+  for (let index = 0; index < CURVE_ENTRIES; index++) {
+    const value = index / (CURVE_ENTRIES - 1)
+    const linear =
+      value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+    buffer.writeUInt16BE(Math.round(linear * 65535), 12 + index * 2)
+  }
+  return buffer
+}
@@ -4,21 +4,153 @@
 
 import { getLogger } from '@stencila/logga'
 import * as stencila from '@stencila/schema'
-import { PDFDocument, PDFName, PDFStream } from 'pdf-lib'
+import crypto from 'crypto'
+import escape from 'escape-html'
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib'
 import { dump, load } from '../..'
 import * as puppeteer from '../../util/puppeteer'
+import { transformSync } from '../../util/transform'
 import * as vfile from '../../util/vfile'
 import * as xml from '../../util/xml'
 import { HTMLCodec } from '../html'
 import { TxtCodec } from '../txt'
 import { Codec, CommonEncodeOptions } from '../types'
 import { decodeDoc as decodeXmlDoc, encodeDoc as encodeXmlDoc } from '../xml'
+import { srgbProfile, SRGB_IDENTIFIER } from './icc'
+import { decodeSpans, extractSpans } from './text'
 
 const htmlCodec = new HTMLCodec()
 
 const log = getLogger('encoda:pdf')
 
-export class PdfCodec extends Codec {
+/**
+ * The margins of PDF pages. Either a CSS style shorthand
+ * (e.g. `2cm 1.5cm`) or an object with the margin of each side.
+ */
+export type Margins =
+  | string
+  | { top?: string; right?: string; bottom?: string; left?: string }
+
+/**
+ * The width and height, in millimetres, of the paper sizes supported
+ * by Puppeteer. Used to size CSS named pages (e.g. landscape pages for
+ * tables) because not all of these sizes are valid in the CSS `size` property.
+ */
+export const pageSizes: Record<puppeteer.PDFFormat, [number, number]> = {
+  Letter: [215.9, 279.4],
+  Legal: [215.9, 355.6],
+  Tabloid: [279.4, 431.8],
+  Ledger: [431.8, 279.4],
+  A0: [841, 1189],
+  A1: [594, 841],
+  A2: [420, 594],
+  A3: [297, 420],
+  A4: [210, 297],
+  A5: [148, 210],
+  A6: [105, 148],
+}
+
+export interface EncodeOptions extends CommonEncodeOptions {
+  /**
+   * The paper size e.g. `A4`, `Letter`.
+   * Defaults to `A4`.
+   */
+  pageSize?: puppeteer.PDFFormat
+
+  /**
+   * Should pages be in landscape orientation?
+   * Defaults to `false`.
+   */
+  landscape?: boolean
+
+  /**
+   * Should tables be placed on landscape pages (so that wide
+   * tables fit)? Defaults to `false`.
+   */
+  landscapeTables?: boolean
+
+  /**
+   * The scale of the rendering of the content.
+   * Defaults to `0.85`.
+   */
+  scale?: number
+
+  /**
+   * The margins of pages.
+   * Defaults to `2.54cm` on each side.
+   */
+  margins?: Margins
+
+  /**
+   * A template for a header at the top of each page (see `populateTemplate`)
+   * e.g. `{{title}}`.
+   */
+  header?: string
+
+  /**
+   * A template for a footer at the bottom of each page (see `populateTemplate`)
+   * e.g. `{{authors}} - page {{pageNumber}} of {{totalPages}}`.
+   */
+  footer?: string
+
+  /**
+   * Should page numbers be shown in the footer? Only used if there is
+   * no `footer` template. Defaults to `false`.
+   */
+  pageNumbers?: boolean
+
+  /**
+   * Should the PDF conform to the PDF/A-2b archival standard?
+   * Defaults to `false`.
+   */
+  pdfa?: boolean
+
+  /**
+   * Should the PDF have an outline (i.e. bookmarks) generated
+   * from the headings in the document? Defaults to `false`.
+   */
+  outline?: boolean
+}
+
+/**
+ * A heading in the outline of a PDF.
+ */
+export interface OutlineHeading {
+  /**
+   * The id of the heading (used to find its destination in the PDF)
+   */
+  id: string
+
+  /**
+   * The depth of the heading (1 for the top level)
+   */
+  depth: number
+
+  /**
+   * The text of the heading
+   */
+  title: string
+}
+
+/**
+ * The style applied to the header and footer. This is necessary
+ * because, by default, Chrome uses a very small font size.
+ */
+const HEADER_FOOTER_STYLE =
+  'width: 100%; margin: 0 1cm; font-size: 9px; text-align: center;'
+
+export class PdfCodec extends Codec<EncodeOptions>
+  implements Codec<EncodeOptions> {
   /**
    * The media types that this codec can decode/encode.
    */
@@ -32,6 +164,10 @@ export class PdfCodec extends Codec {
    * nodes in PDFs, it could be any node type, including a
    * `Datatable` or even a `number`.
    *
+   * PDFs that were not created by this codec are decoded to an `Article`
+   * with metadata from the PDF's info dictionary, and headings and
+   * paragraphs inferred from the text on its pages.
+   *
    * @param file The PDF file to decode
    * @returns A promise that resolves to a `Node`
    */
@@ -45,8 +181,11 @@ export class PdfCodec extends Codec {
     const node = await decodeXmp(pdf)
     if (node !== undefined) return node
 
-    // Fallback to extracting meta-data from info dict
-    log.warn('PDF file does not appear to be a Reproducible-PDF')
+    // Fallback to extracting meta-data from info dict, and
+    // content from the text of the pages
+    log.warn(
+      'PDF file does not appear to be a Reproducible-PDF; extracting text only'
+    )
     const meta = decodeInfoDict(pdf)
     const {
       title,
@@ -55,12 +194,21 @@ export class PdfCodec extends Codec {
       dateCreated,
       dateModified,
     } = await decodeMetadata(meta)
-    return stencila.creativeWork({
+    let text: ReturnType<typeof decodeSpans> = { content: [] }
+    try {
+      text = decodeSpans(extractSpans(pdf))
+    } catch (error) {
+      log.warn(
+        `Unable to extract text from PDF; decoding metadata only: ${error.message}`
+      )
+    }
+    return stencila.article({
       authors,
-      title,
+      title: title ?? text.title,
       keywords,
       dateCreated,
       dateModified,
+      content: text.content,
     })
   }
 
@@ -68,68 +216,383 @@ export class PdfCodec extends Codec {
    * Encode a Stencila `Node` to a `VFile` with PDF content.
    *
    * @param node The Stencila `Node` to encode
-   * @param filePath The file system path to write the PDF to
+   * @param options Encoding options e.g. `pageSize`, `margins`
    * @returns A promise that resolves to a `VFile`
    */
   public readonly encode = async (
     node: stencila.Node,
-    options: CommonEncodeOptions = this.commonEncodeDefaults
+    options: EncodeOptions = this.commonEncodeDefaults
   ): Promise<vfile.VFile> => {
+    const {
+      pageSize = 'A4',
+      landscape = false,
+      landscapeTables = false,
+      scale = 0.85,
+      margins = '2.54cm',
+      header,
+      footer,
+      pageNumbers = false,
+      pdfa = false,
+      outline = false,
+    } = options
+
+    const format = parsePageSize(pageSize)
+
+    // Ensure that headings have ids so that they can be
+    // used as destinations for the outline
+    const headings: OutlineHeading[] = []
+    const rendered = outline ? identifyHeadings(node, headings) : node
+
     // Generate HTML that will be used to render the PDF.
     // Standalone: so that the theme option is respected.
     // Bundle: because Puppeteer will not load local (e.g. `/tmp`) files.
     // Other options e.g. themes are passed through
-    const html = await htmlCodec.dump(node, {
+    const html = await htmlCodec.dump(rendered, {
       ...options,
       isStandalone: true,
       isBundle: true,
     })
 
     // Render the PDF in the browser
-    // Use extra styles to hide chrome from web components
+    // Use extra styles to hide chrome from web components, and
+    // hidden code (since it can not be expanded in a PDF)
     const page = await puppeteer.page()
     await page.setContent(html, { waitUntil: 'networkidle0' })
     await page.addStyleTag({
       content: `
       stencila-code-chunk stencila-code-editor,
-      stencila-code-chunk stencila-action-menu {
+      stencila-code-chunk stencila-action-menu,
+      stencila-code-chunk[is-code-visible="false"] [slot="text"] {
         display: none !important;
       }
     `,
     })
+    // Use a CSS named page for tables, so they can be landscape
+    if (landscapeTables) {
+      await page.addStyleTag({
+        content: landscapeTablesStyle(format, landscape),
+      })
+    }
+
+    // Chrome only creates named destinations for elements that
+    // are linked to, so add hidden links to each heading
+    if (headings.length > 0) {
+      await page.evaluate(
+        (ids: string[]) => {
+          const nav = document.createElement('nav')
+          nav.setAttribute(
+            'style',
+            'position: absolute; top: 0; width: 1px; height: 1px; overflow: hidden;'
+          )
+          for (const id of ids) {
+            const link = document.createElement('a')
+            link.setAttribute('href', `#${id}`)
+            link.textContent = id
+            nav.appendChild(link)
+          }
+          document.body.appendChild(nav)
+        },
+        headings.map(({ id }) => id)
+      )
+    }
+
+    const metadata = await encodeMetadata(node)
+    const headerTemplate =
+      header !== undefined ? populateTemplate(header, metadata) : undefined
+    const footerTemplate =
+      footer !== undefined
+        ? populateTemplate(footer, metadata)
+        : pageNumbers
+        ? populateTemplate('{{pageNumber}}', metadata)
+        : undefined
+    const displayHeaderFooter =
+      headerTemplate !== undefined || footerTemplate !== undefined
+
     const buffer = await page.pdf({
-      format: 'A4',
+      format,
+      landscape,
+      preferCSSPageSize: landscapeTables,
       printBackground: true,
-      scale: 0.85,
-      margin: {
-        top: '2.54cm',
-        bottom: '2.54cm',
-        left: '2.54cm',
-        right: '2.54cm',
-      },
+      scale,
+      margin: parseMargins(margins),
+      displayHeaderFooter,
+      // Empty templates are necessary to prevent Chrome's default header
+      // or footer being shown when only one of them is specified
+      headerTemplate: headerTemplate ?? '<span></span>',
+      footerTemplate: footerTemplate ?? '<span></span>',
     })
     await page.close()
 
     // Add meta-data to the PDF
-    const pdf = await PDFDocument.load(new Uint8Array(buffer))
-    const metadata = await encodeMetadata(node)
+    const pdf = await PDFDocument.load(new Uint8Array(buffer), {
+      updateMetadata: false,
+    })
     encodeInfoDict(pdf, metadata)
-    await encodeXmp(pdf, metadata, node)
+    await encodeXmp(pdf, metadata, node, pdfa)
+    if (outline) encodeOutline(pdf, headings)
+    if (pdfa) encodePdfA(pdf)
     const bytes = await pdf.save()
 
     return vfile.load(Buffer.from(bytes))
   }
 }
 
+/**
+ * Give `Heading`s without an `id` one, and collect them for the outline.
+ *
+ * @param node The node to identify headings within
+ * @param headings The array to add headings to
+ * @returns The node with identified headings
+ */
+function identifyHeadings(
+  node: stencila.Node,
+  headings: OutlineHeading[]
+): stencila.Node {
+  return transformSync(node, (node) => {
+    if (!stencila.isA('Heading', node) || node.content.length === 0) return node
+    const id = node.id ?? `heading-${headings.length + 1}`
+    headings.push({
+      id,
+      depth: node.depth ?? 1,
+      title: TxtCodec.stringify(node),
+    })
+    return { ...node, id }
+  })
+}
+
+/**
+ * An item in a PDF outline.
+ */
+interface OutlineItem {
+  title: string
+  dest: PDFObject
+  children: OutlineItem[]
+}
+
+/**
+ * Add an outline (i.e. bookmarks) to a PDF.
+ *
+ * Each heading is linked to the named destination (in the catalog's
+ * `Dests` dictionary) with the same name as its `id`. Headings without
+ * a destination are ignored.
+ *
+ * @param pdf The PDF document to add the outline to
+ * @param headings The headings, in document order
+ */
+export function encodeOutline(
+  pdf: PDFDocument,
+  headings: OutlineHeading[]
+): void {
+  const dests = pdf.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)
+  if (dests === undefined) return
+
+  // Nest items according to heading depth
+  const root: OutlineItem[] = []
+  const stack: { depth: number; children: OutlineItem[] }[] = [
+    { depth: 0, children: root },
+  ]
+  for (const { id, depth, title } of headings) {
+    let dest = dests.lookup(PDFName.of(id))
+    if (dest instanceof PDFDict) dest = dest.lookup(PDFName.of('D'))
+    if (!(dest instanceof PDFArray)) continue
+
+    while (stack.length > 1 && stack[stack.length - 1].depth >= depth)
+      stack.pop()
+    const item = { title, dest, children: [] }
+    stack[stack.length - 1].children.push(item)
+    stack.push({ depth, children: item.children })
+  }
+  if (root.length === 0) return
+
+  const { context } = pdf
+  const outlinesRef = context.nextRef()
+  const write = (
+    items: OutlineItem[],
+    parent: PDFRef
+  ): { first: PDFRef; last: PDFRef; count: number } => {
+    const refs = items.map(() => context.nextRef())
+    let count = items.length
+    items.forEach(({ title, dest, children }, index) => {
+      const dict = context.obj({
+        Title: PDFHexString.fromText(title),
+        Parent: parent,
+        Dest: dest,
+      })
+      if (index > 0) dict.set(PDFName.of('Prev'), refs[index - 1])
+      if (index < items.length - 1)
+        dict.set(PDFName.of('Next'), refs[index + 1])
+      if (children.length > 0) {
+        const sub = write(children, refs[index])
+        dict.set(PDFName.of('First'), sub.first)
+        dict.set(PDFName.of('Last'), sub.last)
+        dict.set(PDFName.of('Count'), context.obj(sub.count))
+        count += sub.count
+      }
+      context.assign(refs[index], dict)
+    })
+    return { first: refs[0], last: refs[refs.length - 1], count }
+  }
+  const { first, last, count } = write(root, outlinesRef)
+  context.assign(
+    outlinesRef,
+    context.obj({ Type: 'Outlines', First: first, Last: last, Count: count })
+  )
+  pdf.catalog.set(PDFName.of('Outlines'), outlinesRef)
+  pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'))
+}
+
+/**
+ * Add the parts of a PDF that are required for PDF/A conformance,
+ * other than XMP metadata (see `encodeXmp`).
+ *
+ * Adds an output intent with an sRGB ICC profile, a file identifier
+ * (if there is not already one), and a viewer preference to display the
+ * document title. Chrome already embeds the fonts used.
+ *
+ * @param pdf The PDF document to make conformant
+ */
+export function encodePdfA(pdf: PDFDocument): void {
+  const { context } = pdf
+
+  const profile = context.register(context.flateStream(srgbProfile(), { N: 3 }))
+  const intent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    OutputConditionIdentifier: PDFString.of(SRGB_IDENTIFIER),
+    Info: PDFString.of(SRGB_IDENTIFIER),
+    DestOutputProfile: profile,
+  })
+  pdf.catalog.set(PDFName.of('OutputIntents'), context.obj([intent]))
+
+  if (context.trailerInfo.ID === undefined) {
+    const id = PDFHexString.of(
+      crypto.randomBytes(16).toString('hex').toUpperCase()
+    )
+    context.trailerInfo.ID = context.obj([id, id])
+  }
+
+  pdf.catalog.set(
+    PDFName.of('ViewerPreferences'),
+    context.obj({ DisplayDocTitle: true })
+  )
+}
+
 interface PdfMetadata {
   title?: string
   authors?: string[]
   keywords?: string[]
+  datePublished?: Date
   dateCreated?: Date
   dateModified?: Date
   dateCurrent?: Date
 }
 
+/**
+ * Is a date defined and valid? Dates in an article's metadata
+ * may be unparsable e.g. `2020-13-45`.
+ */
+const isValidDate = (date?: Date): date is Date =>
+  date !== undefined && !isNaN(date.getTime())
+
+/**
+ * Parse margins into the form used by Puppeteer.
+ *
+ * A string is treated like the CSS `margin` shorthand property
+ * i.e. one to four values for the top, right, bottom and left margins.
+ *
+ * @param margins The margins to parse
+ */
+export function parseMargins(
+  margins: Margins
+): { top?: string; right?: string; bottom?: string; left?: string } {
+  if (typeof margins !== 'string') return margins
+  const values = margins.trim().split(/\s+/)
+  const [top, right = top, bottom = top, left = right] = values
+  return { top, right, bottom, left }
+}
+
+/**
+ * Parse a page size, checking that it is one of the paper sizes
+ * supported by Puppeteer (e.g. when it is a command line option).
+ *
+ * @param pageSize The page size to parse
+ */
+export function parsePageSize(pageSize: unknown): puppeteer.PDFFormat {
+  if (typeof pageSize === 'string' && Object.keys(pageSizes).includes(pageSize))
+    return pageSize as puppeteer.PDFFormat
+  throw new Error(
+    `Invalid page size "${String(pageSize)}"; should be one of ${Object.keys(
+      pageSizes
+    ).join(', ')}`
+  )
+}
+
+/**
+ * Generate CSS which places tables on landscape pages
+ * using a CSS named page.
+ *
+ * Explicit dimensions are used for pages, rather than page size names,
+ * because only some of Puppeteer's paper sizes (e.g. not `Tabloid` or `A0`)
+ * are valid in the CSS `size` property.
+ *
+ * @param pageSize The paper size
+ * @param landscape Are other pages in landscape orientation?
+ */
+export function landscapeTablesStyle(
+  pageSize: puppeteer.PDFFormat,
+  landscape: boolean
+): string {
+  const [width, height] = pageSizes[pageSize]
+  const [long, short] = [Math.max(width, height), Math.min(width, height)]
+  return `
+    @page {
+      size: ${landscape ? `${height}mm ${width}mm` : `${width}mm ${height}mm`};
+    }
+    @page landscape {
+      size: ${long}mm ${short}mm;
+    }
+    table {
+      page: landscape;
+    }
+  `
+}
+
+/**
+ * Populate a header or footer template with PDF metadata.
+ *
+ * The template can include these placeholders:
+ *
+ * - `{{title}}`: the title of the document
+ * - `{{authors}}`: the names of the authors of the document
+ * - `{{date}}`: the date that the document was published (or, if not
+ *   published, modified) e.g. `2020-10-09`
+ * - `{{pageNumber}}`: the number of the current page
+ * - `{{totalPages}}`: the total number of pages
+ *
+ * @param template The template to populate
+ * @param metadata The metadata to populate it with
+ * @returns HTML for Puppeteer's `headerTemplate` or `footerTemplate` option
+ */
+export function populateTemplate(
+  template: string,
+  metadata: PdfMetadata
+): string {
+  const { title, authors, datePublished, dateModified } = metadata
+  const date = isValidDate(datePublished) ? datePublished : dateModified
+  const values: Record<string, string> = {
+    title: escape(title ?? ''),
+    authors: escape((authors ?? []).join(', ')),
+    date: isValidDate(date) ? date.toISOString().slice(0, 10) : '',
+    pageNumber: '<span class="pageNumber"></span>',
+    totalPages: '<span class="totalPages"></span>',
+  }
+  const content = template.replace(
+    /{{\s*(\w+)\s*}}/g,
+    (match: string, name: string) => values[name] ?? match
+  )
+  return `<div style="${HEADER_FOOTER_STYLE}">${content}</div>`
+}
+
 /**
  * Decode PDF metadata to a `CreativeWork`.
  */
@@ -170,11 +633,19 @@ const encodeMetadata = async (node: stencila.Node): Promise<PdfMetadata> => {
   let title
   let authors
   let keywords
+  let datePublished
   let dateCreated
   let dateModified
   const dateCurrent = new Date()
   if (stencila.isCreativeWork(node)) {
-    ;({ title, authors, keywords, dateCreated, dateModified } = node)
+    ;({
+      title,
+      authors,
+      keywords,
+      datePublished,
+      dateCreated,
+      dateModified,
+    } = node)
   }
 
   if (title !== undefined) {
@@ -190,6 +661,14 @@ const encodeMetadata = async (node: stencila.Node): Promise<PdfMetadata> => {
     )
   }
 
+  datePublished =
+    datePublished !== undefined
+      ? new Date(
+          typeof datePublished === 'string'
+            ? datePublished
+            : datePublished.value
+        )
+      : undefined
   dateCreated =
     dateCreated !== undefined
       ? new Date(
@@ -207,6 +686,7 @@ const encodeMetadata = async (node: stencila.Node): Promise<PdfMetadata> => {
     title,
     authors,
     keywords,
+    datePublished,
     dateCreated,
     dateModified,
     dateCurrent,
@@ -246,15 +726,20 @@ function decodeXmp(pdf: PDFDocument): Promise<stencila.Node | void> {
  * - it's properties as standard metadata elements e.g `dc:title` (for use by other PDF readers)
  * - the entire node as `stencila:source` (for use by this codec when decoding)
  *
+ * Dates are in ISO 8601 format, to the second, and keywords are in `pdf:Keywords`,
+ * so that they are consistent with the info dict (as required for PDF/A).
+ *
  * @see https://github.com/Hopding/pdf-lib/issues/55#issuecomment-527447921
  *
  * @param pdf The PDF document to add XMP metadata to
  * @param node The node to encode
+ * @param pdfa Whether to identify the PDF as conforming to PDF/A-2b
  */
-async function encodeXmp(
+export async function encodeXmp(
   pdf: PDFDocument,
   meta: PdfMetadata,
-  node: stencila.Node
+  node: stencila.Node,
+  pdfa = false
 ): Promise<void> {
   const {
     title,
@@ -276,6 +761,14 @@ async function encodeXmp(
    */
   const whitespacePadding = new Array(20).fill(' '.repeat(100)).join('\n')
 
+  // Invalid dates are omitted, rather than encoded as an empty, or `NaN`, element
+  const xmpDate = (name: string, date?: Date): string =>
+    isValidDate(date)
+      ? `<xmp:${name}>${date
+          .toISOString()
+          .replace(/\.\d+Z$/, 'Z')}</xmp:${name}>`
+      : ''
+
   const metadataXML = `
     <?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>
       <x:xmpmeta xmlns:x="adobe:ns:meta/" x:xmptk="Adobe XMP Core 5.2-c001 63.139439, 2010/09/27-13:37:26        ">
@@ -289,23 +782,27 @@ async function encodeXmp(
                 : `<dc:creator>
               <rdf:Seq>
                 ${authors
-                  .map((author) => `<rdf:li>${author}</rdf:li>`)
+                  .map((author) => `<rdf:li>${escape(author)}</rdf:li>`)
                   .join('\n')}
               </rdf:Seq>
             </dc:creator>`
             }
-            <dc:title>
+            ${
+              title === undefined
+                ? ''
+                : `<dc:title>
                <rdf:Alt>
-                  <rdf:li xml:lang="x-default">${title}</rdf:li>
+                  <rdf:li xml:lang="x-default">${escape(title)}</rdf:li>
                </rdf:Alt>
-            </dc:title>
+            </dc:title>`
+            }
             ${
               keywords === undefined
                 ? ''
                 : `<dc:subject>
               <rdf:Bag>
                 ${keywords
-                  .map((keyword) => `<rdf:li>${keyword}</rdf:li>`)
+                  .map((keyword) => `<rdf:li>${escape(keyword)}</rdf:li>`)
                   .join('\n')}
               </rdf:Bag>
             </dc:subject>`
@@ -314,11 +811,30 @@ async function encodeXmp(
 
           <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">
             <xmp:CreatorTool>${creatorTool}</xmp:CreatorTool>
-            <xmp:CreateDate>${dateCreated}</xmp:CreateDate>
-            <xmp:ModifyDate>${dateModified}</xmp:ModifyDate>
-            <xmp:MetadataDate>${dateCurrent}</xmp:MetadataDate>
+            ${xmpDate('CreateDate', dateCreated)}
+            ${xmpDate('ModifyDate', dateModified)}
+            ${xmpDate('MetadataDate', dateCurrent)}
           </rdf:Description>
 
+          <rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+            <pdf:Producer>${creatorTool}</pdf:Producer>
+            ${
+              keywords === undefined
+                ? ''
+                : `<pdf:Keywords>${escape(
+                    encodeKeywords(keywords)
+                  )}</pdf:Keywords>`
+            }
+          </rdf:Description>
+          ${
+            pdfa
+              ? `<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+            <pdfaid:part>2</pdfaid:part>
+            <pdfaid:conformance>B</pdfaid:conformance>
+          </rdf:Description>`
+              : ''
+          }
+
         </rdf:RDF>
         ${nodeXML}
       </x:xmpmeta>
@@ -344,11 +860,10 @@ function decodeInfoDict(pdf: PDFDocument): PdfMetadata {
   // @ts-ignore that getInfoDict is private
   const info = pdf.getInfoDict()
   const extractValue = (name: string): string | undefined => {
-    const value = info.get(PDFName.of(name)).toString()
-    if (value === undefined) return
-    if (value[0] === '(' && value[value.length - 1] === ')')
-      return value.slice(1, -1)
-    return value
+    const value = info.lookup(PDFName.of(name))
+    if (value instanceof PDFString || value instanceof PDFHexString)
+      return value.decodeText()
+    return value?.toString()
   }
   const title = extractValue('Title')
   const authors = extractValue('Author')
@@ -368,7 +883,7 @@ function decodeInfoDict(pdf: PDFDocument): PdfMetadata {
   return {
     title,
     authors: authors !== undefined ? authors.split(',') : undefined,
-    keywords: keywords !== undefined ? keywords.split(/\s+/) : undefined,
+    keywords: keywords !== undefined ? decodeKeywords(keywords) : undefined,
     dateCreated,
     dateModified,
   }
@@ -381,12 +896,33 @@ function decodeInfoDict(pdf: PDFDocument): PdfMetadata {
  * @param pdf The PDF document to add meta data to
  * @param node The node from which metadata will taken
  */
-function encodeInfoDict(pdf: PDFDocument, meta: PdfMetadata): void {
+export function encodeInfoDict(pdf: PDFDocument, meta: PdfMetadata): void {
   const { title, authors, keywords, dateCreated, dateModified } = meta
   if (title !== undefined) pdf.setTitle(title)
   if (authors !== undefined) pdf.setAuthor(authors.join(', '))
-  if (keywords !== undefined) pdf.setKeywords(keywords)
-  if (dateCreated !== undefined) pdf.setCreationDate(dateCreated)
-  if (dateModified !== undefined) pdf.setModificationDate(dateModified)
+  if (keywords !== undefined) pdf.setKeywords([encodeKeywords(keywords)])
+  if (isValidDate(dateCreated)) pdf.setCreationDate(dateCreated)
+  if (isValidDate(dateModified)) pdf.setModificationDate(dateModified)
   pdf.setCreator(creatorTool)
+  pdf.setProducer(creatorTool)
 }
+
+/**
+ * Encode keywords as a string for the info dict and XMP metadata.
+ *
+ * Keywords are separated by commas so that keywords with more
+ * than one word (e.g. "machine learning") can be decoded.
+ */
+const encodeKeywords = (keywords: string[]): string => keywords.join(', ')
+
+/**
+ * Decode keywords from the info dict.
+ *
+ * Keywords are separated by commas, or, if there are none (as in some
+ * PDFs created by other tools), by whitespace.
+ */
+const decodeKeywords = (keywords: string): string[] =>
+  keywords
+    .split(keywords.includes(',') ? ',' : /\s+/)
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword.length > 0)
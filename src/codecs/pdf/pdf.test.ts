@@ -1,6 +1,27 @@
 import { fixture, output } from '../../__tests__/helpers'
-import { PdfCodec } from '.'
+import {
+  encodeInfoDict,
+  encodeOutline,
+  encodePdfA,
+  encodeXmp,
+  landscapeTablesStyle,
+  parseMargins,
+  parsePageSize,
+  PdfCodec,
+  populateTemplate,
+} from '.'
 import * as stencila from '@stencila/schema'
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFStream,
+  StandardFonts,
+} from 'pdf-lib'
+import { srgbProfile } from './icc'
+import { extractSpans } from './text'
+import * as vfile from '../../util/vfile'
 import { MdCodec } from '../md'
 
 const mdCodec = new MdCodec()
@@ -22,6 +43,88 @@ describe('decode', () => {
       stencila.date({ value: '2019-10-13T11:00:00.000Z' })
     )
   })
+
+  test('text from an externally created PDF', async () => {
+    const pdf = await PDFDocument.create()
+    const regular = await pdf.embedFont(StandardFonts.Helvetica)
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+    const first = pdf.addPage([600, 800])
+    first.drawText('A title that is long enough\nto wrap onto two lines', {
+      x: 50,
+      y: 750,
+      size: 24,
+      lineHeight: 28,
+      font: bold,
+    })
+    first.drawText('Introduction', { x: 50, y: 650, size: 16, font: bold })
+    first.drawText(
+      'The first paragraph has a word that is hyph-\nenated and a second line.',
+      { x: 50, y: 620, size: 11, lineHeight: 14, font: regular }
+    )
+    first.drawText('A second paragraph that continues onto', {
+      x: 50,
+      y: 580,
+      size: 11,
+      font: regular,
+    })
+    first.drawText('1', { x: 300, y: 30, size: 11, font: regular })
+
+    const second = pdf.addPage([600, 800])
+    second.drawText('the next page.', {
+      x: 50,
+      y: 750,
+      size: 11,
+      font: regular,
+    })
+    second.drawText('Methods', { x: 50, y: 700, size: 11, font: bold })
+    second.drawText('We used “quotes” – and dashes.', {
+      x: 50,
+      y: 680,
+      size: 11,
+      font: regular,
+    })
+
+    const article = await pdfCodec.decode(
+      vfile.load(Buffer.from(await pdf.save()))
+    )
+    const { title, content } = article as stencila.Article
+    expect(title).toEqual('A title that is long enough to wrap onto two lines')
+    expect(content).toEqual([
+      stencila.heading({ depth: 1, content: ['Introduction'] }),
+      stencila.paragraph({
+        content: [
+          'The first paragraph has a word that is hyphenated and a second line.',
+        ],
+      }),
+      stencila.paragraph({
+        content: ['A second paragraph that continues onto the next page.'],
+      }),
+      stencila.heading({ depth: 2, content: ['Methods'] }),
+      stencila.paragraph({ content: ['We used “quotes” – and dashes.'] }),
+    ])
+  })
+
+  test('meta data only if text can not be extracted', async () => {
+    const pdf = await PDFDocument.create()
+    pdf.setCreationDate(new Date('2020-10-09T00:00:00Z'))
+    const page = pdf.addPage()
+    page.node.set(
+      PDFName.of('Contents'),
+      pdf.context.register(
+        pdf.context.stream('Not deflated', { Filter: 'FlateDecode' })
+      )
+    )
+
+    const article = await pdfCodec.decode(
+      vfile.load(Buffer.from(await pdf.save()))
+    )
+    const { dateCreated, content } = article as stencila.Article
+    expect(dateCreated).toEqual(
+      stencila.date({ value: '2020-10-09T00:00:00.000Z' })
+    )
+    expect(content).toEqual([])
+  })
 })
 
 describe('round-trip', () => {
@@ -32,3 +135,252 @@ describe('round-trip', () => {
     expect(actual).toEqual(expected)
   })
 })
+
+describe('encode', () => {
+  test('page size and orientation', async () => {
+    const file = await pdfCodec.encode(
+      stencila.article({ title: 'Title', content: [] }),
+      {
+        pageSize: 'Letter',
+        landscape: true,
+        margins: '1in',
+        header: '{{title}}',
+        pageNumbers: true,
+      }
+    )
+    const pdf = await PDFDocument.load(await vfile.dump(file, 'buffer'))
+    const { width, height } = pdf.getPage(0).getSize()
+    expect([Math.round(width), Math.round(height)]).toEqual([792, 612])
+  })
+
+  test('landscape tables', async () => {
+    const cells = Array.from({ length: 12 }, (_, index) =>
+      stencila.tableCell({ content: [`A wide column ${index}`] })
+    )
+    const file = await pdfCodec.encode(
+      stencila.article({
+        content: [
+          stencila.paragraph({ content: ['Before the table'] }),
+          stencila.table({ rows: [stencila.tableRow({ cells })] }),
+        ],
+      }),
+      { pageSize: 'Tabloid', landscapeTables: true }
+    )
+    const pdf = await PDFDocument.load(await vfile.dump(file, 'buffer'))
+    const sizes = pdf.getPages().map((page) => {
+      const { width, height } = page.getSize()
+      return [Math.round(width), Math.round(height)]
+    })
+    // Tabloid is 11in x 17in i.e. 792pt x 1224pt
+    expect(sizes[0]).toEqual([792, 1224])
+    expect(sizes.slice(1)).toContainEqual([1224, 792])
+  })
+
+  test('PDF/A with outline', async () => {
+    const file = await pdfCodec.encode(
+      stencila.article({
+        title: 'Title',
+        content: [
+          stencila.heading({ depth: 1, content: ['One'] }),
+          stencila.heading({ depth: 2, content: ['One point one'] }),
+        ],
+      }),
+      { pdfa: true, outline: true }
+    )
+    const pdf = await PDFDocument.load(await vfile.dump(file, 'buffer'))
+    expect(pdf.catalog.has(PDFName.of('OutputIntents'))).toBe(true)
+    expect(pdf.catalog.has(PDFName.of('Outlines'))).toBe(true)
+  })
+})
+
+test('extractSpans', async () => {
+  const doc = await PDFDocument.create()
+  const page = doc.addPage()
+  const { context } = doc
+
+  // A composite font with a ToUnicode map
+  const cmap = context.register(
+    context.flateStream(`
+      begincmap
+      2 beginbfchar
+      <0001> <0048>
+      <0002> <0069>
+      endbfchar
+      1 beginbfrange
+      <0003> <0004> <0061>
+      endbfrange
+      endcmap
+    `)
+  )
+  const font = context.register(
+    context.obj({
+      Type: 'Font',
+      Subtype: 'Type0',
+      BaseFont: 'Foo-Bold',
+      Encoding: 'Identity-H',
+      DescendantFonts: [{ Type: 'Font', W: [1, [600, 600]], DW: 500 }],
+      ToUnicode: cmap,
+    })
+  )
+  page.node.setFontDictionary(PDFName.of('F0'), font)
+  page.node.addContentStream(
+    context.register(
+      context.flateStream(
+        'BT /F0 12 Tf 50 700 Td <00010002> Tj 20 0 Td [<0003> -300 <0004>] TJ ET'
+      )
+    )
+  )
+
+  const pdf = await PDFDocument.load(await doc.save())
+  expect(extractSpans(pdf)).toEqual([
+    { page: 0, text: 'Hi', x: 50, end: 64.4, y: 700, fontSize: 12, bold: true },
+    {
+      page: 0,
+      text: 'a b',
+      x: 70,
+      end: 85.6,
+      y: 700,
+      fontSize: 12,
+      bold: true,
+    },
+  ])
+})
+
+test('srgbProfile', () => {
+  const profile = srgbProfile()
+  expect(profile.readUInt32BE(0)).toBe(profile.length)
+  expect(profile.toString('ascii', 36, 40)).toBe('acsp')
+})
+
+test('encodeOutline', async () => {
+  const pdf = await PDFDocument.create()
+  const page = pdf.addPage()
+  const { context } = pdf
+  const dest = (y: number): PDFArray =>
+    context.obj([page.ref, 'XYZ', 0, y, null])
+  pdf.catalog.set(
+    PDFName.of('Dests'),
+    context.obj({ one: dest(700), 'one-one': dest(600), two: dest(500) })
+  )
+
+  encodeOutline(pdf, [
+    { id: 'one', depth: 1, title: 'One' },
+    { id: 'one-one', depth: 2, title: 'One point one' },
+    { id: 'missing', depth: 2, title: 'Missing' },
+    { id: 'two', depth: 1, title: 'Two' },
+  ])
+
+  const outlines = pdf.catalog.lookup(PDFName.of('Outlines'), PDFDict)
+  expect(outlines.lookup(PDFName.of('Count'))?.toString()).toBe('3')
+  const one = outlines.lookup(PDFName.of('First'), PDFDict)
+  expect(one.lookup(PDFName.of('Title'))?.toString()).toMatch(/^<FEFF/)
+  expect(one.lookup(PDFName.of('Count'))?.toString()).toBe('1')
+  const two = one.lookup(PDFName.of('Next'), PDFDict)
+  expect(two.get(PDFName.of('Prev'))).toBe(outlines.get(PDFName.of('First')))
+  expect(two.has(PDFName.of('First'))).toBe(false)
+  expect(pdf.catalog.get(PDFName.of('PageMode'))).toBe(
+    PDFName.of('UseOutlines')
+  )
+
+  // Does nothing if there are no destinations
+  const empty = await PDFDocument.create()
+  encodeOutline(empty, [{ id: 'one', depth: 1, title: 'One' }])
+  expect(empty.catalog.has(PDFName.of('Outlines'))).toBe(false)
+})
+
+test('encodePdfA', async () => {
+  const pdf = await PDFDocument.create()
+  encodePdfA(pdf)
+  const intents = pdf.catalog.lookup(PDFName.of('OutputIntents'), PDFArray)
+  const intent = intents.lookup(0, PDFDict)
+  expect(intent.get(PDFName.of('S'))).toBe(PDFName.of('GTS_PDFA1'))
+  expect(intent.has(PDFName.of('DestOutputProfile'))).toBe(true)
+  expect(pdf.context.trailerInfo.ID).toBeDefined()
+})
+
+test('encodeInfoDict and encodeXmp keywords', async () => {
+  const keywords = ['machine learning', 'statistics']
+
+  // Keywords are in both the info dict and XMP (as required for PDF/A)
+  const pdf = await PDFDocument.create()
+  encodeInfoDict(pdf, { keywords })
+  await encodeXmp(pdf, { keywords }, stencila.article(), true)
+  expect(pdf.getKeywords()).toBe('machine learning, statistics')
+  const xmp = pdf.catalog
+    .lookup(PDFName.of('Metadata'), PDFStream)
+    .getContentsString()
+  expect(xmp).toMatch(
+    '<pdf:Keywords>machine learning, statistics</pdf:Keywords>'
+  )
+
+  // Multi-word keywords are decoded from the info dict
+  const info = await PDFDocument.create()
+  encodeInfoDict(info, { keywords })
+  const article = (await pdfCodec.decode(
+    vfile.load(Buffer.from(await info.save()))
+  )) as stencila.Article
+  expect(article.keywords).toEqual(keywords)
+})
+
+test('parseMargins', () => {
+  expect(parseMargins('2cm')).toEqual({
+    top: '2cm',
+    right: '2cm',
+    bottom: '2cm',
+    left: '2cm',
+  })
+  expect(parseMargins('2cm 1cm')).toEqual({
+    top: '2cm',
+    right: '1cm',
+    bottom: '2cm',
+    left: '1cm',
+  })
+  expect(parseMargins('1in 2in 3in')).toEqual({
+    top: '1in',
+    right: '2in',
+    bottom: '3in',
+    left: '2in',
+  })
+  expect(parseMargins({ top: '1cm' })).toEqual({ top: '1cm' })
+})
+
+test('parsePageSize', () => {
+  expect(parsePageSize('Tabloid')).toBe('Tabloid')
+  expect(() => parsePageSize('A7')).toThrow(/Invalid page size "A7"/)
+  expect(() => parsePageSize(4)).toThrow(/Invalid page size/)
+})
+
+test('landscapeTablesStyle', () => {
+  const css = landscapeTablesStyle('A4', false)
+  expect(css).toMatch(/@page {\s*size: 210mm 297mm;/)
+  expect(css).toMatch(/@page landscape {\s*size: 297mm 210mm;/)
+  expect(landscapeTablesStyle('Ledger', true)).toMatch(
+    /@page {\s*size: 279.4mm 431.8mm;[^]*@page landscape {\s*size: 431.8mm 279.4mm;/
+  )
+})
+
+test('populateTemplate', () => {
+  const metadata = {
+    title: 'Fish & chips',
+    authors: ['Jane Jones', 'John Smith'],
+    datePublished: new Date('2020-10-09T00:00:00Z'),
+  }
+  expect(populateTemplate('{{title}} ({{ date }})', metadata)).toMatch(
+    />Fish &amp; chips \(2020-10-09\)</
+  )
+  expect(populateTemplate('{{authors}} {{foo}}', metadata)).toMatch(
+    />Jane Jones, John Smith {{foo}}</
+  )
+  expect(
+    populateTemplate('{{date}}', { datePublished: new Date('2020-13-45') })
+  ).toMatch(/"><\/div>$/)
+  expect(
+    populateTemplate('{{date}}', {
+      datePublished: new Date('not a date'),
+      dateModified: new Date('2020-11-01T00:00:00Z'),
+    })
+  ).toMatch(/>2020-11-01</)
+  expect(populateTemplate('{{pageNumber}} of {{totalPages}}', {})).toMatch(
+    '<span class="pageNumber"></span> of <span class="totalPages"></span>'
+  )
+})
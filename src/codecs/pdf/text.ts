@@ -0,0 +1,840 @@
+/**
+ * @module pdf/text
+ *
+ * Functions for extracting the text of a PDF, and inferring its structure,
+ * for PDFs that were not created by Encoda (i.e. that are not Reproducible-PDFs).
+ *
+ * Text is extracted from the content streams of each page, using the fonts'
+ * `ToUnicode` maps (where available) to decode character codes. Lines of text
+ * are then grouped into headings and paragraphs based on their font size and
+ * the spacing between them. This is inherently lossy: tables, figures, and
+ * multi-column layouts are not recognized.
+ */
+
+import * as stencila from '@stencila/schema'
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+} from 'pdf-lib'
+
+/**
+ * A span of text, as shown by a single text operator.
+ */
+export interface TextSpan {
+  /**
+   * The zero-based index of the page that the span is on.
+   */
+  page: number
+
+  /**
+   * The text of the span.
+   */
+  text: string
+
+  /**
+   * The horizontal position of the start of the span.
+   */
+  x: number
+
+  /**
+   * The horizontal position of the end of the span (estimated
+   * if the font does not specify glyph widths).
+   */
+  end: number
+
+  /**
+   * The vertical position of the baseline of the span.
+   */
+  y: number
+
+  /**
+   * The font size of the span (after scaling).
+   */
+  fontSize: number
+
+  /**
+   * Is the font of the span bold?
+   */
+  bold: boolean
+}
+
+/**
+ * Extract spans of text from all the pages of a PDF.
+ *
+ * @param pdf The PDF document to extract text from
+ */
+export function extractSpans(pdf: PDFDocument): TextSpan[] {
+  const spans: TextSpan[] = []
+  pdf.getPages().forEach((page, index) => {
+    for (const span of extractPageSpans(
+      pdf,
+      page.node.Resources(),
+      page.node.Contents(),
+      index
+    ))
+      spans.push(span)
+  })
+  return spans
+}
+
+/**
+ * A line of text on a page.
+ */
+interface Line {
+  page: number
+  text: string
+  x: number
+  y: number
+  fontSize: number
+  bold: boolean
+}
+
+/**
+ * Decode spans of text into a title and block content.
+ *
+ * Lines with the largest font size at the start of the document are
+ * treated as its title. Other lines with a font size larger than that of
+ * the body text (the size with the most characters) are treated as headings,
+ * with larger sizes having lower depths. Lines of body text are joined into
+ * paragraphs, broken where there is a larger than usual gap between lines
+ * or the first line is indented.
+ *
+ * @param spans The spans of text to decode
+ */
+export function decodeSpans(
+  spans: TextSpan[]
+): { title?: string; content: stencila.BlockContent[] } {
+  const lines = groupLines(spans).filter(
+    // Ignore page numbers
+    (line) => !/^\d+$/.test(line.text)
+  )
+  if (lines.length === 0) return { content: [] }
+
+  const bodySize = modalSize(lines)
+  const maxSize = lines.reduce(
+    (max, line) => Math.max(max, line.fontSize),
+    -Infinity
+  )
+
+  // Lines at the start of the first page, in the largest font, are the title
+  let title: string | undefined
+  let start = 0
+  if (maxSize > bodySize) {
+    while (
+      start < lines.length &&
+      lines[start].page === 0 &&
+      lines[start].fontSize === maxSize
+    )
+      start++
+    if (start > 0) title = lines.slice(0, start).reduce(joinLines, '')
+  }
+
+  // Depths of headings, by font size
+  const headingSizes = Array.from(
+    new Set(
+      lines
+        .slice(start)
+        .map((line) => line.fontSize)
+        .filter((size) => size > bodySize)
+    )
+  ).sort((a, b) => b - a)
+  const depthOf = (line: Line): number => {
+    const index = headingSizes.indexOf(line.fontSize)
+    if (index >= 0) return index + 1
+    // Short lines of bold body text are the lowest level of heading
+    if (line.bold && line.text.length < 80 && !/[.:]$/.test(line.text))
+      return headingSizes.length + 1
+    return 0
+  }
+
+  const leading = modalGap(lines, bodySize)
+
+  const content: stencila.BlockContent[] = []
+  let block: { depth: number; text: string; last: Line } | undefined
+  const flush = (): void => {
+    if (block === undefined) return
+    const { depth, text } = block
+    content.push(
+      depth > 0
+        ? stencila.heading({ depth, content: [text] })
+        : stencila.paragraph({ content: [text] })
+    )
+    block = undefined
+  }
+  for (const line of lines.slice(start)) {
+    const depth = depthOf(line)
+    if (block !== undefined && block.depth === depth) {
+      const { last } = block
+      const continues =
+        line.page === last.page
+          ? last.y - line.y <= leading * 1.4 &&
+            (depth > 0 || line.x <= last.x + line.fontSize)
+          : depth === 0 && !/[.!?:]$/.test(last.text)
+      if (continues) {
+        block = { depth, text: joinLines(block.text, line), last: line }
+        continue
+      }
+    }
+    flush()
+    block = { depth, text: line.text, last: line }
+  }
+  flush()
+
+  return { title, content }
+}
+
+/**
+ * Group spans into lines, ordered from the top to the bottom of each page.
+ *
+ * Font sizes are rounded to the nearest half point so that lines
+ * can be compared by size.
+ */
+function groupLines(spans: TextSpan[]): Line[] {
+  const sorted = [...spans]
+    .filter((span) => span.text.trim().length > 0)
+    .sort((a, b) => a.page - b.page || b.y - a.y || a.x - b.x)
+
+  const groups: TextSpan[][] = []
+  for (const span of sorted) {
+    const group = groups[groups.length - 1]
+    if (
+      group !== undefined &&
+      group[0].page === span.page &&
+      Math.abs(group[0].y - span.y) <
+        Math.min(group[0].fontSize, span.fontSize) / 2
+    )
+      group.push(span)
+    else groups.push([span])
+  }
+
+  return groups.map((group) => {
+    const ordered = group.sort((a, b) => a.x - b.x)
+    const text = ordered
+      .reduce((text, span, index) => {
+        if (index === 0) return span.text
+        const gap = span.x - ordered[index - 1].end
+        const space =
+          gap > span.fontSize * 0.15 &&
+          !/\s$/.test(text) &&
+          !/^\s/.test(span.text)
+        return text + (space ? ' ' : '') + span.text
+      }, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+    const longest = ordered.reduce((longest, span) =>
+      span.text.length > longest.text.length ? span : longest
+    )
+    return {
+      page: ordered[0].page,
+      text,
+      x: ordered[0].x,
+      y: ordered[0].y,
+      fontSize: Math.round(longest.fontSize * 2) / 2,
+      bold: ordered.every((span) => span.bold || span.text.trim().length === 0),
+    }
+  })
+}
+
+/**
+ * Join the text of a line to preceding text, removing
+ * hyphenation of words broken across lines.
+ */
+function joinLines(text: string, line: Line): string {
+  if (text.length === 0) return line.text
+  if (/\p{L}-$/u.test(text) && /^\p{Ll}/u.test(line.text))
+    return text.slice(0, -1) + line.text
+  return `${text} ${line.text}`
+}
+
+/**
+ * Get the font size with the most characters.
+ */
+function modalSize(lines: Line[]): number {
+  const counts = lines.reduce<Map<number, number>>(
+    (counts, { fontSize, text }) =>
+      counts.set(fontSize, (counts.get(fontSize) ?? 0) + text.length),
+    new Map()
+  )
+  return [...counts.entries()].reduce((max, entry) =>
+    entry[1] > max[1] ? entry : max
+  )[0]
+}
+
+/**
+ * Get the most common vertical gap between consecutive lines of body
+ * text on the same page (i.e. the leading of the body text).
+ */
+function modalGap(lines: Line[], bodySize: number): number {
+  const counts = new Map<number, number>()
+  lines.forEach((line, index) => {
+    const prev = lines[index - 1]
+    if (
+      prev === undefined ||
+      prev.page !== line.page ||
+      prev.fontSize !== bodySize ||
+      line.fontSize !== bodySize
+    )
+      return
+    const gap = Math.round(prev.y - line.y)
+    if (gap > 0) counts.set(gap, (counts.get(gap) ?? 0) + 1)
+  })
+  if (counts.size === 0) return Infinity
+  return [...counts.entries()].reduce((max, entry) =>
+    entry[1] > max[1] ? entry : max
+  )[0]
+}
+
+/**
+ * A transformation matrix `[a b c d e f]`.
+ */
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+/**
+ * Multiply two transformation matrices.
+ */
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = m1
+  const [a2, b2, c2, d2, e2, f2] = m2
+  return [
+    a1 * a2 + b1 * c2,
+    a1 * b2 + b1 * d2,
+    c1 * a2 + d1 * c2,
+    c1 * b2 + d1 * d2,
+    e1 * a2 + f1 * c2 + e2,
+    e1 * b2 + f1 * d2 + f2,
+  ]
+}
+
+/**
+ * An operand in a content stream.
+ *
+ * Strings are represented as bytes (since their encoding depends upon
+ * the font), names as objects, and dictionaries are ignored.
+ */
+type Operand = number | Uint8Array | { name: string } | Operand[] | null
+
+const WHITESPACE = [0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]
+const DELIMITERS = [0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]
+
+/**
+ * A font used to decode the character codes in strings.
+ */
+interface Font {
+  /**
+   * The number of bytes in each character code.
+   */
+  bytes: number
+
+  /**
+   * Map of character code to Unicode string.
+   */
+  unicode?: Map<number, string>
+
+  /**
+   * Get the width of a glyph (in thousandths of a unit of text space).
+   */
+  width: (code: number) => number
+
+  bold: boolean
+}
+
+/**
+ * Extract spans of text from the content stream/s of a page.
+ */
+function extractPageSpans(
+  pdf: PDFDocument,
+  resources: PDFDict | undefined,
+  contents: PDFObject | undefined,
+  page: number
+): TextSpan[] {
+  const bytes = streamBytes(pdf, contents)
+  if (bytes === undefined) return []
+
+  const fontDicts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict)
+  const fonts = new Map<string, Font>()
+  const getFont = (name: string): Font => {
+    let font = fonts.get(name)
+    if (font === undefined) {
+      const dict = fontDicts?.lookupMaybe(PDFName.of(name), PDFDict)
+      font = decodeFont(pdf, dict)
+      fonts.set(name, font)
+    }
+    return font
+  }
+
+  const spans: TextSpan[] = []
+  const stack: Matrix[] = []
+  let ctm = IDENTITY
+  let tm = IDENTITY
+  let tlm = IDENTITY
+  let font = getFont('')
+  let fontSize = 0
+  let charSpacing = 0
+  let wordSpacing = 0
+  let scale = 1
+  let leading = 0
+
+  const nextLine = (tx: number, ty: number): void => {
+    tlm = multiply([1, 0, 0, 1, tx, ty], tlm)
+    tm = tlm
+  }
+
+  const show = (items: Operand[]): void => {
+    const start = multiply(tm, ctm)
+    let text = ''
+    for (const item of items) {
+      if (typeof item === 'number') {
+        // Large negative adjustments are usually spaces between words
+        if (item < -200 && !text.endsWith(' ')) text += ' '
+        tm = multiply([1, 0, 0, 1, (-item / 1000) * fontSize * scale, 0], tm)
+      } else if (item instanceof Uint8Array) {
+        for (
+          let index = 0;
+          index + font.bytes <= item.length;
+          index += font.bytes
+        ) {
+          let code = 0
+          for (let byte = 0; byte < font.bytes; byte++)
+            code = (code << 8) | item[index + byte]
+          text += decodeCode(font, code)
+          const spacing =
+            charSpacing + (font.bytes === 1 && code === 32 ? wordSpacing : 0)
+          const tx = ((font.width(code) / 1000) * fontSize + spacing) * scale
+          tm = multiply([1, 0, 0, 1, tx, 0], tm)
+        }
+      }
+    }
+    const end = multiply(tm, ctm)
+    spans.push({
+      page,
+      text,
+      x: start[4],
+      end: end[4],
+      y: start[5],
+      fontSize: fontSize * Math.hypot(start[2], start[3]),
+      bold: font.bold,
+    })
+  }
+
+  const num = (operand: Operand | undefined): number =>
+    typeof operand === 'number' ? operand : 0
+
+  for (const [operator, operands] of tokenize(bytes)) {
+    const [a, b] = operands
+    switch (operator) {
+      case 'q':
+        stack.push(ctm)
+        break
+      case 'Q':
+        ctm = stack.pop() ?? IDENTITY
+        break
+      case 'cm':
+        if (operands.length === 6)
+          ctm = multiply(operands.map(num) as Matrix, ctm)
+        break
+      case 'BT':
+        tm = tlm = IDENTITY
+        break
+      case 'Tf':
+        font = getFont(
+          a !== null && typeof a === 'object' && 'name' in a ? a.name : ''
+        )
+        fontSize = num(b)
+        break
+      case 'Tc':
+        charSpacing = num(a)
+        break
+      case 'Tw':
+        wordSpacing = num(a)
+        break
+      case 'Tz':
+        scale = num(a) / 100
+        break
+      case 'TL':
+        leading = num(a)
+        break
+      case 'Td':
+        nextLine(num(a), num(b))
+        break
+      case 'TD':
+        leading = -num(b)
+        nextLine(num(a), num(b))
+        break
+      case 'Tm':
+        if (operands.length === 6) tm = tlm = operands.map(num) as Matrix
+        break
+      case 'T*':
+        nextLine(0, -leading)
+        break
+      case 'Tj':
+        show([a])
+        break
+      case "'":
+        nextLine(0, -leading)
+        show([a])
+        break
+      case '"':
+        wordSpacing = num(a)
+        charSpacing = num(b)
+        nextLine(0, -leading)
+        show([operands[2]])
+        break
+      case 'TJ':
+        if (Array.isArray(a)) show(a)
+        break
+    }
+  }
+
+  return spans
+}
+
+/**
+ * Get the decoded bytes of a stream, or an array of streams
+ * (as is allowed for the contents of a page).
+ */
+function streamBytes(
+  pdf: PDFDocument,
+  object: PDFObject | undefined
+): Uint8Array | undefined {
+  if (object instanceof PDFRef)
+    return streamBytes(pdf, pdf.context.lookup(object))
+  if (object instanceof PDFRawStream) return decodePDFRawStream(object).decode()
+  if (object instanceof PDFStream) return object.getContents()
+  if (object instanceof PDFArray) {
+    const parts = object
+      .asArray()
+      .map((item) => streamBytes(pdf, item))
+      .filter((part): part is Uint8Array => part !== undefined)
+    // Streams are separated by whitespace so that tokens are not joined
+    const separated: Uint8Array[] = []
+    for (const part of parts) separated.push(part, Buffer.from('\n'))
+    return Buffer.concat(separated)
+  }
+  return undefined
+}
+
+/**
+ * Create a `Font` from a PDF font dictionary.
+ */
+function decodeFont(pdf: PDFDocument, dict: PDFDict | undefined): Font {
+  const lookupNumber = (dict: PDFDict | undefined, key: string): number => {
+    const value = dict?.lookup(PDFName.of(key))
+    return value instanceof PDFNumber ? value.asNumber() : 0
+  }
+
+  const composite = dict?.lookup(PDFName.of('Subtype')) === PDFName.of('Type0')
+  const descendant = composite
+    ? dict?.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookup(0)
+    : undefined
+  const widthsDict = descendant instanceof PDFDict ? descendant : dict
+
+  // Glyph widths: `Widths` for simple fonts, `W` for composite fonts
+  const widths = new Map<number, number>()
+  let defaultWidth = 500
+  if (composite) {
+    defaultWidth = widthsDict?.has(PDFName.of('DW'))
+      ? lookupNumber(widthsDict, 'DW')
+      : 1000
+    const w =
+      widthsDict?.lookupMaybe(PDFName.of('W'), PDFArray)?.asArray() ?? []
+    const numberAt = (index: number): number => {
+      const item = pdf.context.lookup(w[index])
+      return item instanceof PDFNumber ? item.asNumber() : 0
+    }
+    for (let index = 0; index < w.length; ) {
+      const first = numberAt(index)
+      const next = pdf.context.lookup(w[index + 1])
+      if (next instanceof PDFArray) {
+        next.asArray().forEach((width, offset) => {
+          const value = pdf.context.lookup(width)
+          if (value instanceof PDFNumber)
+            widths.set(first + offset, value.asNumber())
+        })
+        index += 2
+      } else {
+        const last = numberAt(index + 1)
+        const width = numberAt(index + 2)
+        for (let code = first; code <= last; code++) widths.set(code, width)
+        index += 3
+      }
+    }
+  } else {
+    const firstChar = lookupNumber(dict, 'FirstChar')
+    dict
+      ?.lookupMaybe(PDFName.of('Widths'), PDFArray)
+      ?.asArray()
+      .forEach((width, offset) => {
+        const value = pdf.context.lookup(width)
+        if (value instanceof PDFNumber)
+          widths.set(firstChar + offset, value.asNumber())
+      })
+  }
+
+  const toUnicode = dict?.lookup(PDFName.of('ToUnicode'))
+  const cmap =
+    toUnicode instanceof PDFStream ? streamBytes(pdf, toUnicode) : undefined
+
+  const baseFont = dict?.lookup(PDFName.of('BaseFont'))
+  const descriptor = widthsDict?.lookupMaybe(
+    PDFName.of('FontDescriptor'),
+    PDFDict
+  )
+  const bold =
+    (baseFont instanceof PDFName &&
+      /Bold|Black|Heavy|Semibold/i.test(baseFont.asString())) ||
+    lookupNumber(descriptor, 'FontWeight') >= 600
+
+  return {
+    bytes: composite ? 2 : 1,
+    unicode: cmap !== undefined ? decodeCMap(cmap) : undefined,
+    width: (code) => widths.get(code) ?? defaultWidth,
+    bold,
+  }
+}
+
+/**
+ * Decode a `ToUnicode` CMap into a map of character codes to strings.
+ */
+function decodeCMap(bytes: Uint8Array): Map<number, string> {
+  const map = new Map<number, string>()
+  const code = (bytes: Uint8Array): number =>
+    bytes.reduce((code, byte) => (code << 8) | byte, 0)
+  const utf16 = (bytes: Uint8Array): string =>
+    String.fromCharCode(
+      ...Array.from(
+        { length: Math.floor(bytes.length / 2) },
+        (_, index) => (bytes[index * 2] << 8) | bytes[index * 2 + 1]
+      )
+    )
+
+  for (const [operator, operands] of tokenize(bytes)) {
+    if (operator === 'endbfchar') {
+      for (let index = 0; index + 1 < operands.length; index += 2) {
+        const [src, dst] = operands.slice(index, index + 2)
+        if (src instanceof Uint8Array && dst instanceof Uint8Array)
+          map.set(code(src), utf16(dst))
+      }
+    } else if (operator === 'endbfrange') {
+      for (let index = 0; index + 2 < operands.length; index += 3) {
+        const [lo, hi, dst] = operands.slice(index, index + 3)
+        if (!(lo instanceof Uint8Array && hi instanceof Uint8Array)) continue
+        for (let src = code(lo); src <= code(hi); src++) {
+          const offset = src - code(lo)
+          if (dst instanceof Uint8Array) {
+            // Increment the last byte of the destination
+            const inc = Uint8Array.from(dst)
+            inc[inc.length - 1] += offset
+            map.set(src, utf16(inc))
+          } else if (Array.isArray(dst)) {
+            const item = dst[offset]
+            if (item instanceof Uint8Array) map.set(src, utf16(item))
+          }
+        }
+      }
+    }
+  }
+  return map
+}
+
+/**
+ * Characters of the WinAnsi encoding (used by most simple fonts without a
+ * `ToUnicode` map) which differ from Latin-1.
+ */
+const WIN_ANSI: Record<number, string> = {
+  0x80: '€',
+  0x85: '…',
+  0x91: '‘',
+  0x92: '’',
+  0x93: '“',
+  0x94: '”',
+  0x95: '•',
+  0x96: '–',
+  0x97: '—',
+}
+
+/**
+ * Decode a character code to a string.
+ */
+function decodeCode(font: Font, code: number): string {
+  const unicode = font.unicode?.get(code)
+  if (unicode !== undefined) return unicode
+  if (font.bytes > 1) return ''
+  return WIN_ANSI[code] ?? String.fromCharCode(code)
+}
+
+/**
+ * Tokenize a content stream (or CMap) into operators and their operands.
+ *
+ * Inline images are skipped.
+ */
+function* tokenize(bytes: Uint8Array): Generator<[string, Operand[]]> {
+  let index = 0
+
+  const isRegular = (byte: number): boolean =>
+    !WHITESPACE.includes(byte) && !DELIMITERS.includes(byte)
+
+  const skipWhitespace = (): void => {
+    while (index < bytes.length) {
+      const byte = bytes[index]
+      if (WHITESPACE.includes(byte)) index++
+      else if (byte === 0x25) {
+        // Comment
+        while (
+          index < bytes.length &&
+          bytes[index] !== 0x0a &&
+          bytes[index] !== 0x0d
+        )
+          index++
+      } else break
+    }
+  }
+
+  const regular = (): string => {
+    const start = index
+    while (index < bytes.length && isRegular(bytes[index])) index++
+    return Buffer.from(bytes.subarray(start, index)).toString('latin1')
+  }
+
+  const literalString = (): Uint8Array => {
+    const chars: number[] = []
+    let depth = 1
+    index++
+    while (index < bytes.length) {
+      const byte = bytes[index++]
+      if (byte === 0x5c) {
+        const next = bytes[index++]
+        const escapes: Record<number, number> = {
+          0x6e: 0x0a,
+          0x72: 0x0d,
+          0x74: 0x09,
+          0x62: 0x08,
+          0x66: 0x0c,
+        }
+        if (escapes[next] !== undefined) chars.push(escapes[next])
+        else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30
+          for (let count = 0; count < 2; count++) {
+            const digit = bytes[index]
+            if (digit < 0x30 || digit > 0x37) break
+            octal = octal * 8 + digit - 0x30
+            index++
+          }
+          chars.push(octal & 0xff)
+        } else if (next === 0x0d) {
+          // Line continuation
+          if (bytes[index] === 0x0a) index++
+        } else if (next !== 0x0a) chars.push(next)
+      } else if (byte === 0x28) {
+        depth++
+        chars.push(byte)
+      } else if (byte === 0x29) {
+        depth--
+        if (depth === 0) break
+        chars.push(byte)
+      } else chars.push(byte)
+    }
+    return Uint8Array.from(chars)
+  }
+
+  const hexString = (): Uint8Array => {
+    index++
+    let hex = ''
+    while (index < bytes.length && bytes[index] !== 0x3e) {
+      const char = String.fromCharCode(bytes[index++])
+      if (/[0-9a-fA-F]/.test(char)) hex += char
+    }
+    index++
+    if (hex.length % 2 === 1) hex += '0'
+    return Uint8Array.from(Buffer.from(hex, 'hex'))
+  }
+
+  const operand = (): Operand | undefined => {
+    skipWhitespace()
+    const byte = bytes[index]
+    if (byte === 0x28) return literalString()
+    if (byte === 0x3c && bytes[index + 1] === 0x3c) {
+      // Dictionary (e.g. marked content properties) which is not needed
+      index += 2
+      while (index < bytes.length) {
+        skipWhitespace()
+        if (bytes[index] === 0x3e && bytes[index + 1] === 0x3e) break
+        if (operand() === undefined) index++
+      }
+      index += 2
+      return null
+    }
+    if (byte === 0x3c) return hexString()
+    if (byte === 0x5b) {
+      index++
+      const items: Operand[] = []
+      while (index < bytes.length) {
+        skipWhitespace()
+        if (bytes[index] === 0x5d) break
+        const item = operand()
+        if (item === undefined) index++
+        else items.push(item)
+      }
+      index++
+      return items
+    }
+    if (byte === 0x2f) {
+      index++
+      return { name: regular() }
+    }
+    if (
+      (byte >= 0x30 && byte <= 0x39) ||
+      byte === 0x2b ||
+      byte === 0x2d ||
+      byte === 0x2e
+    ) {
+      const value = parseFloat(regular())
+      return Number.isNaN(value) ? 0 : value
+    }
+    return undefined
+  }
+
+  let operands: Operand[] = []
+  while (index < bytes.length) {
+    skipWhitespace()
+    if (index >= bytes.length) break
+    const value = operand()
+    if (value !== undefined) {
+      operands.push(value)
+      continue
+    }
+    if (!isRegular(bytes[index])) {
+      // Unexpected delimiter, skip it
+      index++
+      continue
+    }
+    const operator = regular()
+    if (operator === 'ID') {
+      // Skip inline image data, which ends with `EI` surrounded by whitespace
+      index++
+      while (
+        index < bytes.length &&
+        !(
+          WHITESPACE.includes(bytes[index - 1]) &&
+          bytes[index] === 0x45 &&
+          bytes[index + 1] === 0x49 &&
+          (index + 2 >= bytes.length || WHITESPACE.includes(bytes[index + 2]))
+        )
+      )
+        index++
+      index += 2
+    } else {
+      yield [operator, operands]
+    }
+    operands = []
+  }
+}
@@ -0,0 +1,36 @@
+# ---
+# jupyter:
+#   title: Jupyter notebook title
+#   kernelspec:
+#     display_name: Python 3
+#     language: python
+#     name: python3
+#   language_info:
+#     codemirror_mode:
+#       name: ipython
+#       version: 3
+#     file_extension: .py
+#     mimetype: text/x-python
+#     name: python
+#     nbconvert_exporter: python
+#     pygments_lexer: ipython3
+#     version: 3.6.4
+#   orig_nbformat: 1
+# ---
+
+# %% [markdown]
+# # Heading 1
+#
+# A markdown cell with some text.
+
+# %%
+greeting = 'Hello from Python'
+
+# %% [markdown]
+# ## Heading 1.1
+#
+# An other markdown cell.
+
+# %%
+import sys
+print(greeting + ' ' + str(sys.version_info[0]))
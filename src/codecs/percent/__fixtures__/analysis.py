@@ -0,0 +1,25 @@
+# ---
+# jupyter:
+#   title: Sunspot analysis
+#   kernelspec:
+#     display_name: Python 3
+#     language: python
+#     name: python3
+# ---
+
+# %% [markdown]
+# # Introduction
+#
+# Load the data with _Pandas_:
+
+# %% tags=["hide-input"]
+# %matplotlib inline
+import pandas as pd
+
+df = pd.read_csv("sunspots.csv")
+
+# %% Plot slideshow={"slide_type": "slide"} tags=["remove-output"]
+df.plot(x="YEAR", y="SUNACTIVITY")
+
+# %% [markdown]
+# The plot shows an 11 year cycle.
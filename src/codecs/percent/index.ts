@@ -0,0 +1,413 @@
+/**
+ * @module percent
+ */
+
+import { getLogger } from '@stencila/logga'
+import * as stencila from '@stencila/schema'
+import * as yaml from 'js-yaml'
+import path from 'path'
+import { dump, load } from '../..'
+import { ensureArticle } from '../../util/content/ensureArticle'
+import * as vfile from '../../util/vfile'
+import { TxtCodec } from '../txt'
+import { Codec, CommonEncodeOptions } from '../types'
+
+const log = getLogger('encoda:percent')
+
+/**
+ * The programming languages of scripts, keyed by file extension.
+ */
+const extLanguages: Record<string, string> = {
+  py: 'python',
+  r: 'r',
+  jl: 'julia',
+}
+
+/**
+ * Matches the line that starts a cell e.g. `# %% [markdown] tags=["a"]`
+ */
+const cellRegex = /^# %%(?:[ \t]+(.*))?$/
+
+/**
+ * Matches the cell type within the options of a cell e.g. `[markdown]`
+ */
+const cellTypeRegex = /\[(markdown|md|raw)\]/
+
+/**
+ * Matches the start of a IPython magic command e.g. `%matplotlib inline`,
+ * which is commented out in Python scripts.
+ */
+const magicRegex = /^%{1,2}\w/
+
+/**
+ * Matches a commented out IPython magic command e.g. `# %matplotlib inline`
+ */
+const commentedMagicRegex = /^# %{1,2}\w/
+
+export class PercentCodec extends Codec implements Codec {
+  /**
+   * The file extension names associated with this codec.
+   */
+  public readonly extNames = ['percent', 'py', 'r', 'jl']
+
+  /**
+   * Decode a `VFile` with a percent format script to a Stencila `Article`.
+   *
+   * The programming language of code chunks is determined by the file
+   * extension, or the `kernelspec` in the header, defaulting to Python.
+   */
+  public readonly decode = async (
+    file: vfile.VFile
+  ): Promise<stencila.Node> => {
+    const script = await vfile.dump(file)
+    const lines = script.split(/\r?\n/)
+
+    const { header, rest } = decodeHeader(lines)
+    const { title, ...meta }: Record<string, unknown> = header.jupyter ?? {}
+    const ext = path
+      .extname(file.path ?? '')
+      .slice(1)
+      .toLowerCase()
+    const language = extLanguages[ext] ?? kernelLanguage(meta) ?? 'python'
+
+    const content: stencila.BlockContent[] = []
+    for (const cell of decodeCells(rest)) {
+      content.push(...(await decodeCell(cell, language)))
+    }
+
+    return stencila.article({
+      title: typeof title === 'string' ? title : undefined,
+      meta: Object.keys(meta).length > 0 ? meta : undefined,
+      content,
+    })
+  }
+
+  /**
+   * Encode a Stencila `Node` to a percent format script.
+   *
+   * Code chunks are encoded as code cells, with their `meta` (other than
+   * `execution_count`) as cell metadata. Other content is encoded as
+   * Markdown cells. The outputs of code chunks are not encoded.
+   */
+  public readonly encode = async (
+    node: stencila.Node,
+    options: CommonEncodeOptions = this.commonEncodeDefaults
+  ): Promise<vfile.VFile> => {
+    const { title, meta = {}, content = [] } = ensureArticle(node)
+    const { filePath } = options
+    const ext = path
+      .extname(filePath ?? '')
+      .slice(1)
+      .toLowerCase()
+    const language = extLanguages[ext] ?? kernelLanguage(meta) ?? 'python'
+
+    const jupyter: Record<string, unknown> = {
+      ...(title !== undefined ? { title: TxtCodec.stringify(title) } : {}),
+      ...meta,
+    }
+    const header =
+      Object.keys(jupyter).length > 0 ? encodeHeader({ jupyter }) : []
+
+    const cells: string[][] = []
+    let markdown: stencila.Node[] = []
+    const flush = async (): Promise<void> => {
+      if (markdown.length > 0) cells.push(await encodeMarkdown(markdown))
+      markdown = []
+    }
+    for (const node of content) {
+      if (stencila.isA('CodeChunk', node)) {
+        await flush()
+        cells.push(encodeCodeChunk(node, language))
+      } else markdown.push(node)
+    }
+    await flush()
+
+    const script = [header, ...cells]
+      .filter((lines) => lines.length > 0)
+      .map((lines) => lines.join('\n'))
+      .join('\n\n')
+    return vfile.load(script + '\n')
+  }
+}
+
+/**
+ * A cell of a percent format script.
+ */
+interface Cell {
+  /**
+   * The type of cell
+   */
+  type: 'code' | 'markdown' | 'raw'
+
+  /**
+   * The metadata of the cell (including any title as `title`)
+   */
+  metadata: Record<string, unknown>
+
+  /**
+   * The lines of the cell (excluding the `# %%` line)
+   */
+  lines: string[]
+}
+
+/**
+ * Get the programming language from the `kernelspec`
+ * in notebook metadata, if any.
+ */
+function kernelLanguage(metadata: Record<string, unknown>): string | undefined {
+  const { kernelspec } = metadata
+  if (typeof kernelspec !== 'object' || kernelspec === null) return undefined
+  const { language } = kernelspec as { language?: unknown }
+  return typeof language === 'string' ? language.toLowerCase() : undefined
+}
+
+/**
+ * Decode the YAML header of a script, if any.
+ *
+ * The header is a YAML document in comment lines, between `# ---` lines,
+ * at the start of the script.
+ */
+function decodeHeader(
+  lines: string[]
+): { header: { jupyter?: Record<string, unknown> }; rest: string[] } {
+  if (lines[0] !== '# ---') return { header: {}, rest: lines }
+  const end = lines.indexOf('# ---', 1)
+  if (end < 0) return { header: {}, rest: lines }
+
+  const yamlString = lines
+    .slice(1, end)
+    .map((line) => line.replace(/^# ?/, ''))
+    .join('\n')
+  let header = {}
+  try {
+    header = (yaml.safeLoad(yamlString) as Record<string, unknown>) ?? {}
+  } catch (error) {
+    log.warn(`Unable to parse script header: ${error.message}`)
+  }
+  return { header, rest: lines.slice(end + 1) }
+}
+
+/**
+ * Encode the YAML header of a script.
+ */
+function encodeHeader(header: Record<string, unknown>): string[] {
+  const yamlString = yaml.safeDump(header, { skipInvalid: true }).trim()
+  return [
+    '# ---',
+    ...yamlString.split('\n').map((line) => `# ${line}`),
+    '# ---',
+  ]
+}
+
+/**
+ * Split the lines of a script into cells.
+ *
+ * Any code before the first `# %%` line is treated as a code cell.
+ */
+function decodeCells(lines: string[]): Cell[] {
+  const cells: Cell[] = []
+  let cell: Cell = { type: 'code', metadata: {}, lines: [] }
+  for (const line of lines) {
+    const match = cellRegex.exec(line)
+    if (match === null) {
+      cell.lines.push(line)
+      continue
+    }
+    cells.push(cell)
+    const options = match[1] ?? ''
+    const type = cellTypeRegex.exec(options)?.[1]
+    cell = {
+      type:
+        type === 'markdown' || type === 'md'
+          ? 'markdown'
+          : type === 'raw'
+          ? 'raw'
+          : 'code',
+      metadata: decodeCellOptions(options.replace(cellTypeRegex, '')),
+      lines: [],
+    }
+  }
+  cells.push(cell)
+
+  return cells
+    .map((cell) => ({ ...cell, lines: trimBlankLines(cell.lines) }))
+    .filter(
+      (cell, index) =>
+        !(index === 0 && cell.lines.length === 0) &&
+        !(cell.type !== 'code' && cell.lines.length === 0)
+    )
+}
+
+/**
+ * Decode the options of a cell e.g. `Title key="value" tags=["a", "b"]`
+ * into cell metadata.
+ *
+ * Options are `key=value` pairs, where the value is JSON. Any other text
+ * is the title of the cell.
+ */
+function decodeCellOptions(options: string): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {}
+  const title: string[] = []
+  let rest = options.trim()
+  while (rest.length > 0) {
+    const match = /^([\w.-]+)=/.exec(rest)
+    if (match === null) {
+      const [word] = rest.split(/\s/, 1)
+      title.push(word)
+      rest = rest.slice(word.length).trim()
+      continue
+    }
+    const value = rest.slice(match[0].length)
+    const length = jsonLength(value)
+    const json = value.slice(0, length)
+    try {
+      metadata[match[1]] = JSON.parse(json)
+    } catch {
+      metadata[match[1]] = json
+    }
+    rest = value.slice(length).trim()
+  }
+  return title.length > 0 ? { title: title.join(' '), ...metadata } : metadata
+}
+
+/**
+ * Encode cell metadata as the options of a cell.
+ */
+function encodeCellOptions(metadata: Record<string, unknown>): string {
+  const { title, ...rest } = metadata
+  return [
+    ...(typeof title === 'string' ? [title] : []),
+    ...Object.entries(rest)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${encodeJson(value)}`),
+  ].join(' ')
+}
+
+/**
+ * Encode a value as JSON with a space after each comma and colon
+ * (as Python's `json.dumps`, and thus Jupytext, does).
+ */
+function encodeJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(encodeJson).join(', ')}]`
+  if (typeof value === 'object' && value !== null)
+    return `{${Object.entries(value)
+      .map(([key, item]) => `${JSON.stringify(key)}: ${encodeJson(item)}`)
+      .join(', ')}}`
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * Get the length of the JSON value at the start of a string.
+ *
+ * Strings, arrays and objects are matched up to their closing
+ * quote or bracket. Other values extend to the next whitespace.
+ */
+function jsonLength(value: string): number {
+  if (!['"', '[', '{'].includes(value[0])) {
+    const space = value.search(/\s/)
+    return space < 0 ? value.length : space
+  }
+  let depth = 0
+  let inString = false
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index]
+    if (inString) {
+      if (char === '\\') index++
+      else if (char === '"') {
+        inString = false
+        if (depth === 0) return index + 1
+      }
+    } else if (char === '"') inString = true
+    else if (char === '[' || char === '{') depth++
+    else if (char === ']' || char === '}') {
+      depth--
+      if (depth === 0) return index + 1
+    }
+  }
+  return value.length
+}
+
+/**
+ * Decode a cell to Stencila `BlockContent` nodes.
+ *
+ * Markdown cells are uncommented and decoded using the `md` codec,
+ * raw cells are decoded to a `CodeBlock`, and code cells to a `CodeChunk`
+ * (with any commented out IPython magics uncommented).
+ */
+async function decodeCell(
+  cell: Cell,
+  language: string
+): Promise<stencila.BlockContent[]> {
+  const { type, metadata, lines } = cell
+  if (type === 'markdown') {
+    const markdown = lines.map((line) => line.replace(/^# ?/, '')).join('\n')
+    return (await load(markdown, 'md', {
+      isStandalone: false,
+    })) as stencila.BlockContent[]
+  } else if (type === 'raw') {
+    return [
+      stencila.codeBlock({
+        text: lines.map((line) => line.replace(/^# ?/, '')).join('\n'),
+      }),
+    ]
+  }
+
+  const text = lines
+    .map((line) =>
+      language === 'python' && commentedMagicRegex.test(line)
+        ? line.slice(2)
+        : line
+    )
+    .join('\n')
+  return [
+    stencila.codeChunk({
+      text,
+      programmingLanguage: language,
+      meta: Object.keys(metadata).length > 0 ? metadata : undefined,
+    }),
+  ]
+}
+
+/**
+ * Encode a `CodeChunk` as a code cell.
+ */
+function encodeCodeChunk(
+  chunk: stencila.CodeChunk,
+  language: string
+): string[] {
+  const { text, meta = {} } = chunk
+  const { execution_count: _, ...metadata } = meta
+  const options = encodeCellOptions(metadata)
+  const lines = text
+    .split('\n')
+    .map((line) =>
+      language === 'python' && magicRegex.test(line) ? `# ${line}` : line
+    )
+  return [options.length > 0 ? `# %% ${options}` : '# %%', ...lines]
+}
+
+/**
+ * Encode Stencila nodes as a Markdown cell.
+ */
+async function encodeMarkdown(nodes: stencila.Node[]): Promise<string[]> {
+  const markdown = await dump(stencila.article({ content: nodes }), 'md')
+  return [
+    '# %% [markdown]',
+    ...markdown
+      .trim()
+      .split('\n')
+      .map((line) => (line.length > 0 ? `# ${line}` : '#')),
+  ]
+}
+
+/**
+ * Remove blank lines at the start and end of an array of lines.
+ */
+function trimBlankLines(lines: string[]): string[] {
+  const blank = (line: string): boolean => line.trim().length === 0
+  let start = 0
+  let end = lines.length
+  while (start < end && blank(lines[start])) start++
+  while (end > start && blank(lines[end - 1])) end--
+  return lines.slice(start, end)
+}
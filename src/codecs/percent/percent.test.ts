@@ -0,0 +1,60 @@
+import { article, codeChunk } from '@stencila/schema'
+import fs from 'fs-extra'
+import jupyterNotebookSimple from '../../__fixtures__/article/jupyter-notebook-simple'
+import { fixture, snapshot } from '../../__tests__/helpers'
+import { JsonCodec } from '../json'
+import { PercentCodec } from './'
+
+const percentCodec = new PercentCodec()
+const jsonCodec = new JsonCodec()
+
+describe('decode', () => {
+  test.each(['analysis.py', 'analysis.R'])('%s', async (name) => {
+    expect(
+      await jsonCodec.dump(await percentCodec.read(fixture(name)))
+    ).toMatchFile(snapshot(name.replace('.', '-') + '.json'))
+  })
+})
+
+test('decode code before the first cell marker', async () => {
+  expect(await percentCodec.load('x = 1\n\n# %%\ny = 2\n')).toEqual(
+    article({
+      content: [
+        codeChunk({ text: 'x = 1', programmingLanguage: 'python' }),
+        codeChunk({ text: 'y = 2', programmingLanguage: 'python' }),
+      ],
+    })
+  )
+})
+
+test('decode commented magics but not other lines starting with a percent', async () => {
+  expect(
+    await percentCodec.load('# %%\n# %matplotlib inline\n10%3\nx = 10%y\n')
+  ).toEqual(
+    article({
+      content: [
+        codeChunk({
+          text: '%matplotlib inline\n10%3\nx = 10%y',
+          programmingLanguage: 'python',
+        }),
+      ],
+    })
+  )
+})
+
+describe('encode', () => {
+  test('jupyter-notebook-simple', async () => {
+    expect(await percentCodec.dump(jupyterNotebookSimple)).toMatchFile(
+      snapshot('jupyter-notebook-simple.py')
+    )
+  })
+})
+
+describe('decode+encode', () => {
+  test.each(['analysis.py', 'analysis.R'])('%s', async (name) => {
+    const file = fixture(name)
+    const script = await fs.readFile(file, 'utf8')
+    const article = await percentCodec.read(file)
+    expect(await percentCodec.dump(article, { filePath: file })).toEqual(script)
+  })
+})
@@ -2,6 +2,7 @@ import stencila from '@stencila/schema'
 import { JatsCodec } from '../jats'
 import * as xml from '../../util/xml'
 import * as http from '../../util/http'
+import { matchIdentifier } from '../../util/identifiers'
 import * as vfile from '../../util/vfile'
 import { Codec } from '../types'
 import fs from 'fs-extra'
@@ -97,7 +98,20 @@ export class PlosCodec extends Codec implements Codec {
     return jats.decode(vfile.load(jatsNew))
   }
 
-  public readonly encode = (): Promise<vfile.VFile> => {
-    throw new Error(`Encoding to a PLoS article is not yet implemented`)
+  /**
+   * Encode a `CreativeWork` as a PLoS article URL e.g.
+   * `https://journals.plos.org/plosone/article?id=10.1371/journal.pone.0229075`.
+   *
+   * The DOI is taken from the first of the node's `identifiers`
+   * (or its `url`) that is a PLoS DOI or URL.
+   */
+  public readonly encode = (node: stencila.Node): Promise<vfile.VFile> => {
+    const match = matchIdentifier(node, PlosCodec.regex)
+    if (match === undefined)
+      throw new Error('Unable to find a PLoS DOI for node')
+    const { journal, doi } = this.decodeIdentifier(match[0])
+    return Promise.resolve(
+      vfile.load(`https://journals.plos.org/${journal}/article?id=${doi}`)
+    )
   }
 }
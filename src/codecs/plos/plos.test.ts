@@ -1,3 +1,4 @@
+import * as stencila from '@stencila/schema'
 import { PlosCodec } from '.'
 import { unlinkFiles } from '../../util/media/unlinkFiles'
 import * as vfile from '../../util/vfile'
@@ -98,7 +99,14 @@ test('decode', async () => {
 })
 
 test('encode', async () => {
-  expect(() => encode()).toThrow(
-    /Encoding to a PLoS article is not yet implemented/
+  const doi = stencila.propertyValue({
+    name: 'doi',
+    value: '10.1371/journal.pone.0229075',
+  })
+  expect(
+    await vfile.dump(await encode(stencila.article({ identifiers: [doi] })))
+  ).toBe(
+    'https://journals.plos.org/plosone/article?id=10.1371/journal.pone.0229075'
   )
+  expect(() => encode(stencila.article())).toThrow(/Unable to find a PLoS DOI/)
 })
@@ -0,0 +1,599 @@
+/**
+ * @module qmd
+ */
+
+import { getLogger } from '@stencila/logga'
+import * as stencila from '@stencila/schema'
+import * as yaml from 'js-yaml'
+import { dump } from '../..'
+import { transformSync } from '../../util/transform'
+import * as vfile from '../../util/vfile'
+import { decodeMarkdown, encodeMarkdown, MdCodec } from '../md'
+import { TxtCodec } from '../txt'
+import { Codec, CommonEncodeOptions } from '../types'
+
+const log = getLogger('encoda:qmd')
+
+/**
+ * The prefixes of the ids of nodes that can be cross-referenced,
+ * and the label used for them e.g. `@fig-plot` is "Figure 1".
+ */
+const crossRefLabels: Record<string, string> = {
+  fig: 'Figure',
+  tbl: 'Table',
+}
+
+/**
+ * Matches the ids of nodes that can be cross-referenced e.g. `fig-plot`
+ */
+const crossRefRegex = /^(fig|tbl)-[\w-]+$/
+
+/**
+ * Matches the language of a code chunk e.g. `{python}`
+ */
+const chunkLanguageRegex = /^\{(\w+)\}$/
+
+/**
+ * Code chunk `meta` properties that are specific to Jupyter notebooks
+ * (see the `ipynb` codec) and are not encoded as chunk options.
+ */
+const jupyterChunkMeta = ['execution_count', 'collapsed', 'scrolled', 'jupyter']
+
+/**
+ * Matches a string that is a number e.g. a knitr option value like `'7'`
+ */
+const numberRegex = /^-?\d+(\.\d+)?$/
+
+/**
+ * Matches an inline code chunk e.g. `{python} x * y`
+ */
+const inlineChunkRegex = /^\{(\w+)\}\s+([^]*)$/
+
+/**
+ * Matches the opening line of a fenced div e.g. `::: {.callout-note}`
+ */
+const divOpenRegex = /^\s*:{3,}\s*\{([^}]*)\}\s*$/
+
+/**
+ * Matches the closing line of a fenced div i.e. `:::`
+ */
+const divCloseRegex = /^\s*:{3,}\s*$/
+
+/**
+ * Matches the caption of a table e.g. `: The data {#tbl-data}`
+ */
+const tableCaptionRegex = /^:\s+/
+
+/**
+ * Matches the id at the end of the caption of a table e.g. `{#tbl-data}`
+ */
+const tableIdRegex = /\s*\{#([\w-]+)\}\s*$/
+
+export class QmdCodec extends Codec implements Codec {
+  public readonly extNames = ['qmd']
+
+  /**
+   * Decode a Quarto document to a Stencila node.
+   *
+   * Callout divs are first transformed to block quotes so that they are
+   * parsed by the `MdCodec`. The decoded nodes are then transformed to
+   * code chunks and expressions, figures, tables and cross-references.
+   *
+   * @param file The `VFile` to decode
+   */
+  public readonly decode = async (
+    file: vfile.VFile
+  ): Promise<stencila.Node> => {
+    const qmd = decodeCallouts(await vfile.dump(file))
+
+    // To preserve relative file links etc,
+    // create a new VFile with the same file path
+    // but new content, if file.path is defined
+    const newFile = vfile.load(
+      qmd,
+      file.path !== undefined ? { path: file.path } : {}
+    )
+    const node = await new MdCodec().decode(newFile)
+    return decodeCrossRefs(transformSync(node, decodeNode))
+  }
+
+  /**
+   * Encode a Stencila node to a Quarto document.
+   *
+   * This is intentionally lossy since the results of execution
+   * (e.g. the outputs of code chunks) are not stored in Quarto documents.
+   *
+   * @param node The Stencila node to encode
+   */
+  public readonly encode = async (
+    node: stencila.Node,
+    options: CommonEncodeOptions = this.commonEncodeDefaults
+  ): Promise<vfile.VFile> => {
+    // Figures are encoded as placeholders and replaced after the
+    // Markdown is generated so that their captions are not escaped
+    const figures: string[] = []
+    const transformed = transformSync(node, (node) => encodeNode(node, figures))
+    const md = await dump(transformed, 'md', options)
+    const qmd = md.replace(
+      /^QMD-FIGURE-(\d+)$/gm,
+      (match, index: string) => figures[parseInt(index)] ?? match
+    )
+    return vfile.load(qmd)
+  }
+}
+
+/**
+ * Transform Quarto callout divs into block quotes, starting with the
+ * opening line of the div, so that they are parsed by the `MdCodec`
+ * (and then decoded by `decodeCallout`).
+ *
+ * Other fenced divs are left as they are.
+ */
+export function decodeCallouts(qmd: string): string {
+  const divs: boolean[] = []
+  let inCode = false
+  const lines: string[] = []
+  for (const line of qmd.split('\n')) {
+    const prefix = '> '.repeat(divs.filter((callout) => callout).length)
+    if (/^\s*(```|~~~)/.test(line)) inCode = !inCode
+    if (!inCode) {
+      const open = divOpenRegex.exec(line)
+      if (open !== null) {
+        const callout = /(^|\s)\.callout-/.test(open[1])
+        divs.push(callout)
+        if (callout) {
+          lines.push(`${prefix}> ${line.trim()}`, `${prefix}>`)
+          continue
+        }
+      } else if (divCloseRegex.test(line) && divs.length > 0) {
+        if (divs.pop() === true) {
+          lines.push(prefix.slice(0, -2).trimEnd())
+          continue
+        }
+      }
+    }
+    lines.push(`${prefix}${line}`.trimEnd())
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Decode the attributes of a fenced div, or image,
+ * e.g. `#fig-plot .callout-note title="Hi"`
+ */
+function decodeAttributes(
+  attrs: string
+): { id?: string; meta: Record<string, string> } {
+  let id: string | undefined
+  const classes: string[] = []
+  const meta: Record<string, string> = {}
+  const regex = /#([\w-]+)|\.([\w-]+)|([\w-]+)=(?:"((?:[^"\\]|\\.)*)"|(\S*))/g
+  let match
+  while ((match = regex.exec(attrs)) !== null) {
+    const [, hash, className, key, quoted, unquoted] = match
+    if (hash !== undefined) id = hash
+    else if (className !== undefined) classes.push(className)
+    else meta[key] = quoted ?? unquoted
+  }
+  return {
+    id,
+    meta: classes.length > 0 ? { className: classes.join(' '), ...meta } : meta,
+  }
+}
+
+/**
+ * Encode the attributes of a fenced div.
+ */
+function encodeAttributes(
+  id: string | undefined,
+  meta: Record<string, unknown>
+): string {
+  const { className, ...rest } = meta
+  return [
+    ...(id !== undefined ? [`#${id}`] : []),
+    ...(typeof className === 'string'
+      ? className.split(/\s+/).map((name) => `.${name}`)
+      : []),
+    ...Object.entries(rest).map(
+      ([key, value]) => `${key}=${JSON.stringify(`${value}`)}`
+    ),
+  ].join(' ')
+}
+
+/**
+ * Decode nodes, as decoded by the `MdCodec`, to the nodes that they
+ * represent in a Quarto document.
+ */
+function decodeNode(node: stencila.Node): stencila.Node {
+  if (Array.isArray(node)) return decodeTableCaptions(node)
+  if (stencila.isA('CodeBlock', node)) return decodeCodeChunk(node)
+  if (stencila.isA('CodeFragment', node)) return decodeCodeExpression(node)
+  if (stencila.isA('QuoteBlock', node)) return decodeCallout(node)
+  if (stencila.isA('Paragraph', node)) return decodeFigure(node)
+  return node
+}
+
+/**
+ * Decode a `CodeBlock` with a language in curly braces e.g. `{python}`
+ * to a `CodeChunk`.
+ *
+ * The chunk options at the start of the code (lines starting with `#|`)
+ * are parsed as YAML. The `label` option becomes the chunk's `label`
+ * (and its `id` if it can be cross-referenced e.g. `fig-plot`), the
+ * `fig-cap` or `tbl-cap` option becomes its `caption`, and other
+ * options are placed in its `meta`.
+ */
+function decodeCodeChunk(block: stencila.CodeBlock): stencila.Node {
+  const match = chunkLanguageRegex.exec(block.programmingLanguage ?? '')
+  if (match === null) return block
+
+  const lines = block.text.split('\n')
+  let count = 0
+  while (count < lines.length && lines[count].startsWith('#|')) count++
+
+  let options: Record<string, unknown> = {}
+  try {
+    options =
+      (yaml.safeLoad(
+        lines
+          .slice(0, count)
+          .map((line) => line.replace(/^#\|\s?/, ''))
+          .join('\n')
+      ) as Record<string, unknown> | undefined) ?? {}
+  } catch (error) {
+    log.warn(`Unable to parse chunk options: ${error.message}`)
+  }
+  const { label, 'fig-cap': figCap, 'tbl-cap': tblCap, ...meta } = options
+  const caption = figCap ?? tblCap
+
+  return stencila.codeChunk({
+    text: lines.slice(count).join('\n'),
+    programmingLanguage: match[1],
+    label: typeof label === 'string' ? label : undefined,
+    id:
+      typeof label === 'string' && crossRefRegex.test(label)
+        ? label
+        : undefined,
+    caption:
+      typeof caption === 'string'
+        ? decodeMarkdown(caption).content ?? []
+        : undefined,
+    meta: Object.keys(meta).length > 0 ? meta : undefined,
+  })
+}
+
+/**
+ * Encode a `CodeChunk` as a `CodeBlock` with a language in curly braces
+ * and chunk options at the start of the code.
+ */
+function encodeCodeChunk(chunk: stencila.CodeChunk): stencila.CodeBlock {
+  const {
+    text,
+    programmingLanguage = 'python',
+    label,
+    id,
+    caption,
+    meta = {},
+  } = chunk
+  const name = label ?? id
+  const options: Record<string, unknown> = {
+    ...(name !== undefined ? { label: name } : {}),
+    ...(caption !== undefined
+      ? {
+          [name?.startsWith('tbl-') === true
+            ? 'tbl-cap'
+            : 'fig-cap']: encodeCaption(caption),
+        }
+      : {}),
+    ...encodeChunkMeta(meta),
+  }
+  const lines =
+    Object.keys(options).length > 0
+      ? yaml
+          .safeDump(options, { lineWidth: -1 })
+          .trim()
+          .split('\n')
+          .map((line) => `#| ${line}`)
+      : []
+  return stencila.codeBlock({
+    text: [...lines, text].join('\n'),
+    programmingLanguage: `{${programmingLanguage}}`,
+  })
+}
+
+/**
+ * Encode the `meta` of a `CodeChunk` as Quarto chunk options.
+ *
+ * Names of knitr options are converted to those used by Quarto (e.g.
+ * `fig.height` to `fig-height`), values that are numbers as strings
+ * (e.g. from the `xmd` codec) are converted to numbers, and properties
+ * that are specific to Jupyter notebooks are ignored.
+ */
+function encodeChunkMeta(
+  meta: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.entries(meta).reduce(
+    (options, [name, value]) =>
+      jupyterChunkMeta.includes(name)
+        ? options
+        : {
+            ...options,
+            [name.replace(/\./g, '-')]:
+              typeof value === 'string' && numberRegex.test(value)
+                ? parseFloat(value)
+                : value,
+          },
+    {}
+  )
+}
+
+/**
+ * Decode a `CodeFragment` with a language in curly braces
+ * e.g. `{python} x * y` to a `CodeExpression`.
+ */
+function decodeCodeExpression(fragment: stencila.CodeFragment): stencila.Node {
+  const match = inlineChunkRegex.exec(fragment.text)
+  if (match === null) return fragment
+  return stencila.codeExpression({
+    text: match[2],
+    programmingLanguage: match[1],
+  })
+}
+
+/**
+ * Encode a `CodeExpression` as a `CodeFragment` with the
+ * language in curly braces.
+ */
+function encodeCodeExpression(
+  expr: stencila.CodeExpression
+): stencila.CodeFragment {
+  const { text, programmingLanguage = 'python' } = expr
+  return stencila.codeFragment({ text: `{${programmingLanguage}} ${text}` })
+}
+
+/**
+ * Decode a `QuoteBlock` that starts with the opening line of a callout div
+ * (as transformed by `decodeCallouts`) to a `QuoteBlock` with the
+ * attributes of the div in its `meta` e.g. `{className: 'callout-note'}`
+ */
+function decodeCallout(quote: stencila.QuoteBlock): stencila.QuoteBlock {
+  const [first, ...content] = quote.content
+  if (
+    !stencila.isA('Paragraph', first) ||
+    first.content.length !== 1 ||
+    typeof first.content[0] !== 'string'
+  )
+    return quote
+  const match = divOpenRegex.exec(first.content[0])
+  if (match === null) return quote
+
+  const { id, meta } = decodeAttributes(match[1])
+  return stencila.quoteBlock({ content, id, meta })
+}
+
+/**
+ * Is a node a callout i.e. a `QuoteBlock` decoded from a callout div?
+ */
+function isCallout(node: stencila.Node): node is stencila.QuoteBlock {
+  return (
+    stencila.isA('QuoteBlock', node) &&
+    typeof node.meta?.className === 'string' &&
+    /(^|\s)callout-/.test(node.meta.className)
+  )
+}
+
+/**
+ * Encode a callout as a paragraph with the opening line of the div,
+ * the content of the callout, and a paragraph with the closing line.
+ */
+function encodeCallout(quote: stencila.QuoteBlock): stencila.Node[] {
+  const { id, meta = {}, content } = quote
+  return [
+    stencila.paragraph({
+      content: [`::: {${encodeAttributes(id, meta)}}`],
+    }),
+    ...encodeBlocks(content),
+    stencila.paragraph({ content: [':::'] }),
+  ]
+}
+
+/**
+ * Decode a `Paragraph` containing only an image with an id,
+ * e.g. `![A plot](plot.png){#fig-plot}`, to a `Figure`.
+ *
+ * The alternative text of the image is decoded as Markdown
+ * and becomes the caption of the figure.
+ */
+function decodeFigure(para: stencila.Paragraph): stencila.Node {
+  const [image] = para.content
+  if (para.content.length !== 1 || !stencila.isA('ImageObject', image))
+    return para
+  const { meta = {}, text, ...rest } = image
+  const { id, ...imageMeta } = meta
+  if (typeof id !== 'string') return para
+
+  return stencila.figure({
+    id,
+    content: [
+      stencila.imageObject({
+        ...rest,
+        meta: Object.keys(imageMeta).length > 0 ? imageMeta : undefined,
+      }),
+    ],
+    caption:
+      text !== undefined && text.length > 0
+        ? decodeMarkdown(text).content ?? []
+        : undefined,
+  })
+}
+
+/**
+ * Encode a `Figure` containing only an image e.g.
+ * `![A plot](plot.png){#fig-plot width="50%"}`
+ *
+ * Returns `undefined` if the figure can not be encoded as an image.
+ */
+function encodeFigure(figure: stencila.Figure): string | undefined {
+  const { id, content = [], caption } = figure
+  const [image] = content
+  if (content.length !== 1 || !stencila.isA('ImageObject', image))
+    return undefined
+
+  const { contentUrl, meta = {} } = image
+  const attrs = encodeAttributes(id, meta)
+  const alt = caption !== undefined ? encodeCaption(caption) : ''
+  return `![${alt.replace(/\n+/g, ' ')}](${contentUrl})${
+    attrs.length > 0 ? `{${attrs}}` : ''
+  }`
+}
+
+/**
+ * Decode Quarto table captions e.g. `: The data {#tbl-data}`, in a
+ * paragraph following a table, to the `caption` and `id` of the table.
+ */
+function decodeTableCaptions(nodes: stencila.Node[]): stencila.Node[] {
+  return nodes.reduce((prev: stencila.Node[], node, index) => {
+    const table = nodes[index - 1]
+    if (
+      !stencila.isA('Table', table) ||
+      !stencila.isA('Paragraph', node) ||
+      typeof node.content[0] !== 'string' ||
+      !tableCaptionRegex.test(node.content[0])
+    )
+      return [...prev, node]
+
+    let id: string | undefined
+    const content = node.content
+      .map((inline, index) => {
+        if (index === 0 && typeof inline === 'string')
+          inline = inline.replace(tableCaptionRegex, '')
+        if (index === node.content.length - 1 && typeof inline === 'string')
+          inline = inline.replace(tableIdRegex, (_match, hash: string) => {
+            id = hash
+            return ''
+          })
+        return inline
+      })
+      .filter((inline) => inline !== '')
+
+    return [
+      ...prev.slice(0, -1),
+      stencila.table({
+        ...table,
+        id,
+        caption: [stencila.paragraph({ content })],
+      }),
+    ]
+  }, [])
+}
+
+/**
+ * Encode a `Table` with a `caption` or `id` as a table followed by
+ * a caption paragraph e.g. `: The data {#tbl-data}`
+ */
+function encodeTable(table: stencila.Table): stencila.Node[] {
+  const { id, caption, label, ...rest } = table
+  if (id === undefined && caption === undefined) return [rest]
+
+  const content: stencila.InlineContent[] = [
+    ': ',
+    ...(typeof caption === 'string'
+      ? [caption]
+      : (caption ?? []).flatMap((node) =>
+          stencila.isA('Paragraph', node)
+            ? node.content
+            : [TxtCodec.stringify(node)]
+        )),
+    ...(id !== undefined ? [` {#${id}}`] : []),
+  ]
+  return [rest, stencila.paragraph({ content })]
+}
+
+/**
+ * Encode a caption as Markdown.
+ */
+function encodeCaption(caption: string | stencila.Node[]): string {
+  return typeof caption === 'string'
+    ? caption
+    : encodeMarkdown(stencila.article({ content: caption })).trim()
+}
+
+/**
+ * Label the figures, tables and code chunks that can be cross-referenced
+ * (e.g. "Figure 1"), and decode cross-references to them (e.g. `@fig-plot`,
+ * which is parsed by the `MdCodec` as a `Cite`), to `Link`s.
+ *
+ * Cross-references to nodes that do not exist in the document are
+ * left as `Cite`s.
+ */
+function decodeCrossRefs(root: stencila.Node): stencila.Node {
+  const labels: Record<string, string> = {}
+  const counts: Record<string, number> = {}
+  const labelled = transformSync(root, (node) => {
+    if (
+      (stencila.isA('Figure', node) ||
+        stencila.isA('Table', node) ||
+        stencila.isA('CodeChunk', node)) &&
+      node.id !== undefined &&
+      crossRefRegex.test(node.id)
+    ) {
+      const prefix = node.id.split('-')[0]
+      counts[prefix] = (counts[prefix] ?? 0) + 1
+      const label = `${crossRefLabels[prefix]} ${counts[prefix]}`
+      labels[node.id] = label
+      return stencila.isA('CodeChunk', node) ? node : { ...node, label }
+    }
+    return node
+  })
+
+  return transformSync(labelled, (node) => {
+    if (stencila.isA('Cite', node) && labels[node.target] !== undefined) {
+      return stencila.link({
+        target: `#${node.target}`,
+        content: [labels[node.target]],
+      })
+    }
+    return node
+  })
+}
+
+/**
+ * Encode an array of nodes, encoding tables (which may be followed by a
+ * caption) and callouts (which have opening and closing lines) to
+ * more than one node.
+ */
+function encodeBlocks(nodes: stencila.Node[]): stencila.Node[] {
+  return nodes.flatMap((node) =>
+    stencila.isA('Table', node)
+      ? encodeTable(node)
+      : isCallout(node)
+      ? encodeCallout(node)
+      : [node]
+  )
+}
+
+/**
+ * Encode nodes to those that represent them in a Quarto document
+ * (before encoding them to Markdown).
+ *
+ * @param figures The Quarto Markdown of each figure, which is replaced
+ *                by a placeholder paragraph
+ */
+function encodeNode(node: stencila.Node, figures: string[]): stencila.Node {
+  if (Array.isArray(node)) return encodeBlocks(node)
+  if (stencila.isA('CodeChunk', node)) return encodeCodeChunk(node)
+  if (stencila.isA('CodeExpression', node)) return encodeCodeExpression(node)
+  if (stencila.isA('Figure', node)) {
+    const figure = encodeFigure(node)
+    if (figure === undefined) return node
+    figures.push(figure)
+    return stencila.paragraph({ content: [`QMD-FIGURE-${figures.length - 1}`] })
+  }
+  if (
+    stencila.isA('Link', node) &&
+    node.target.startsWith('#') &&
+    crossRefRegex.test(node.target.slice(1))
+  )
+    return stencila.cite({ target: node.target.slice(1) })
+  return node
+}
@@ -0,0 +1,107 @@
+import { article, cite, codeChunk, paragraph } from '@stencila/schema'
+import fs from 'fs-extra'
+import notebook from '../../__fixtures__/article/r-notebook-simple'
+import { fixture, snapshot } from '../../__tests__/helpers'
+import { JsonCodec } from '../json'
+import { QmdCodec, decodeCallouts } from './'
+
+const qmdCodec = new QmdCodec()
+const jsonCodec = new JsonCodec()
+
+describe('decode', () => {
+  test('report.qmd', async () => {
+    expect(
+      await jsonCodec.dump(await qmdCodec.read(fixture('report.qmd')))
+    ).toMatchFile(snapshot('report.json'))
+  })
+
+  test('cross-references to missing nodes are left as citations', async () => {
+    expect(await qmdCodec.load('See @fig-missing.\n')).toEqual(
+      article({
+        content: [
+          paragraph({
+            content: [
+              'See ',
+              cite({ target: 'fig-missing', content: ['fig-missing'] }),
+              '.',
+            ],
+          }),
+        ],
+      })
+    )
+  })
+})
+
+describe('decode - callouts', () => {
+  it('transforms callout divs into block quotes', () => {
+    const qmd = `
+::: {.callout-note}
+A note
+
+::: {.callout-tip}
+A tip
+:::
+:::
+
+::: {.column-margin}
+Not a callout
+:::
+`
+    const md = `
+> ::: {.callout-note}
+>
+> A note
+>
+> > ::: {.callout-tip}
+> >
+> > A tip
+>
+
+
+::: {.column-margin}
+Not a callout
+:::
+`
+    expect(decodeCallouts(qmd)).toEqual(md)
+  })
+})
+
+describe('encode', () => {
+  test('r-notebook-simple', async () => {
+    expect(await qmdCodec.dump(notebook)).toMatchFile(
+      snapshot('r-notebook-simple.qmd')
+    )
+  })
+
+  test('knitr and Jupyter chunk options', async () => {
+    const qmd = await qmdCodec.dump(
+      article({
+        content: [
+          codeChunk({
+            text: 'plot(1:10)',
+            programmingLanguage: 'r',
+            meta: {
+              'fig.height': '7',
+              'out.width': '80%',
+              execution_count: 3,
+              collapsed: false,
+            },
+          }),
+        ],
+      })
+    )
+    expect(qmd).toContain(`\`\`\`{r}
+#| fig-height: 7
+#| out-width: 80%
+plot(1:10)
+\`\`\``)
+  })
+})
+
+describe('decode+encode', () => {
+  test('report.qmd', async () => {
+    const file = fixture('report.qmd')
+    const qmd = await fs.readFile(file, 'utf8')
+    expect(await qmdCodec.dump(await qmdCodec.read(file))).toEqual(qmd)
+  })
+})
@@ -16,8 +16,21 @@ import { getLogger } from '@stencila/logga'
 import * as stencila from '@stencila/schema'
 // @ts-ignore
 import datapackage from 'datapackage'
+import fs from 'fs-extra'
+import JSZip from 'jszip'
+import path from 'path'
+import { pipeline } from 'stream'
+import tempy from 'tempy'
+import { promisify } from 'util'
 import { dump } from '../..'
+import {
+  DATE_PATTERN,
+  DATETIME_PATTERN,
+  isRequired,
+} from '../../util/datatable/infer'
+import { DatatableStream } from '../../util/datatable/stream'
 import * as vfile from '../../util/vfile'
+import { encodeReadable } from '../csv'
 import { Codec, CommonEncodeOptions } from '../types'
 
 const logger = getLogger('encoda')
@@ -147,6 +160,77 @@ export class TDPCodec extends Codec implements Codec {
       return vfile.load(json)
     }
   }
+
+  /**
+   * Encode a `DatatableStream` to a package with a single CSV resource.
+   *
+   * If the `filePath` ends in `.json` then the CSV file is written
+   * alongside the package descriptor, otherwise both are written to
+   * a zip archive (as when saving a package using `encode`).
+   *
+   * The descriptor is created after all the rows have been written because
+   * the validators of the stream's columns (used for the schema of the resource)
+   * may be updated as the rows are read (see `inferStreamValidators`).
+   */
+  public readonly encodeStream = async (
+    stream: DatatableStream,
+    filePath: string
+  ): Promise<void> => {
+    const resourcePath = 'data.csv'
+    const descriptor = (): string =>
+      JSON.stringify(
+        {
+          profile: 'tabular-data-package',
+          name: stream.name ?? 'Unnamed',
+          resources: [
+            {
+              profile: 'tabular-data-resource',
+              name: stream.name ?? 'Unnamed',
+              path: resourcePath,
+              format: 'csv',
+              mediatype: 'text/csv',
+              encoding: 'utf-8',
+              schema: {
+                fields: stream.columns.map(encodeDatatableColumn),
+              },
+            },
+          ],
+        },
+        null,
+        '  '
+      )
+
+    await fs.ensureDir(path.dirname(filePath))
+    if (filePath.endsWith('.json')) {
+      await promisify(pipeline)(
+        encodeReadable(stream),
+        fs.createWriteStream(path.join(path.dirname(filePath), resourcePath))
+      )
+      await fs.writeFile(filePath, descriptor())
+    } else {
+      // Write the CSV to a temporary file, rather than holding it in memory,
+      // so that the descriptor can be added to the zip archive before it
+      const csv = tempy.file({ extension: 'csv' })
+      try {
+        await promisify(pipeline)(
+          encodeReadable(stream),
+          fs.createWriteStream(csv)
+        )
+        const zip = new JSZip()
+        zip.file('datapackage.json', descriptor())
+        zip.file(resourcePath, fs.createReadStream(csv))
+        await promisify(pipeline)(
+          zip.generateNodeStream({
+            streamFiles: true,
+            compression: 'DEFLATE',
+          }),
+          fs.createWriteStream(filePath)
+        )
+      } finally {
+        await fs.remove(csv)
+      }
+    }
+  }
 }
 
 /********************************************************************
@@ -387,11 +471,13 @@ interface ColumnTypeFormatConstraints {
   }
 }
 
+/**
+ * Encode the `validator` of a `stencila.DatatableColumn` as the `type`, `format`
+ * and `constraints` of a Table Schema [`Field`](https://frictionlessdata.io/specs/table-schema/#field-descriptors)
+ */
 function encodeDatatableColumnValidator(
   schema: stencila.ArrayValidator
 ): ColumnTypeFormatConstraints {
-  // TODO: this method needs checking and refactoring since changing to
-  //  ArraySchema
   const items = schema.itemsValidator
 
   if (items === undefined)
@@ -403,7 +489,7 @@ function encodeDatatableColumnValidator(
 
   const constraints: { [key: string]: any } = {}
 
-  constraints.required = schema.minItems !== undefined && schema.minItems > 0
+  if (isRequired(items)) constraints.required = true
 
   let type
   let format
@@ -415,40 +501,40 @@ function encodeDatatableColumnValidator(
       type = 'boolean'
       break
     case 'NumberValidator':
-      type = 'number'
-      break
-    case 'IntegerValidator':
-      type = 'integer'
+    case 'IntegerValidator': {
+      const numberValidator = items as stencila.NumberValidator
+      type = numberValidator.type === 'IntegerValidator' ? 'integer' : 'number'
+      if (numberValidator.minimum !== undefined)
+        constraints.minimum = numberValidator.minimum
+      if (numberValidator.maximum !== undefined)
+        constraints.maximum = numberValidator.maximum
       break
+    }
     case 'StringValidator': {
       const stringValidator = items as stencila.StringValidator
-      if (stringValidator.minLength)
-        constraints.minLength = stringValidator.minLength
-      if (stringValidator.maxLength)
-        constraints.maxLength = stringValidator.maxLength
-      if (stringValidator.pattern) constraints.pattern = stringValidator.pattern
+      const { minLength, maxLength, pattern } = stringValidator
+      if (pattern === DATE_PATTERN) {
+        type = 'date'
+        break
+      }
+      if (pattern === DATETIME_PATTERN) {
+        type = 'datetime'
+        break
+      }
 
       type = 'string'
-
-      format = stringValidator.pattern
-
-      switch (format) {
-        case 'date':
-          type = 'date'
-          break
-        case 'time':
-          type = 'time'
-          break
-        case 'date-time':
-          type = 'datetime'
-          break
-      }
+      if (minLength !== undefined) constraints.minLength = minLength
+      if (maxLength !== undefined) constraints.maxLength = maxLength
+      if (pattern !== undefined) constraints.pattern = pattern
       break
     }
     case 'EnumValidator': {
       const enumValidator = items as stencila.EnumValidator
-      if (enumValidator.values) constraints.enum = enumValidator.values
-      type = 'string'
+      const values = enumValidator.values ?? []
+      if (values.length > 0) constraints.enum = values
+      type = values.every((value) => typeof value === 'number')
+        ? 'number'
+        : 'string'
       break
     }
     case 'ArrayValidator':
@@ -461,8 +547,5 @@ function encodeDatatableColumnValidator(
       type = 'any'
   }
 
-  if (schema.minItems) constraints.minimum = schema.minItems
-  if (schema.maxItems) constraints.maximum = schema.maxItems
-
   return { type, format, constraints }
 }
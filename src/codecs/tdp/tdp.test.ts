@@ -1,7 +1,13 @@
+import stencila from '@stencila/schema'
+import fs from 'fs-extra'
+import JSZip from 'jszip'
+import path from 'path'
+import { inferValidators } from '../../util/datatable/infer'
+import { datatableToStream } from '../../util/datatable/stream'
 import { dump, read } from '../../util/vfile'
 import { TDPCodec } from './'
 
-const { decode, encode } = new TDPCodec()
+const { decode, encode, encodeStream } = new TDPCodec()
 
 const periodic = {
   file: `${__dirname}/__fixtures__/datapackage.json`,
@@ -25,6 +31,7 @@ const periodic = {
           type: 'DatatableColumnSchema',
           items: {
             type: 'integer',
+            format: 'default',
             minimum: 1,
             maximum: 10,
           },
@@ -38,6 +45,7 @@ const periodic = {
           type: 'DatatableColumnSchema',
           items: {
             type: 'string',
+            format: 'default',
             minLength: 1,
             maxLength: 2,
           },
@@ -79,6 +87,7 @@ const periodic = {
             anyOf: [
               {
                 type: 'number',
+                format: 'default',
                 minimum: 1,
               },
               {
@@ -149,3 +158,95 @@ test.skip('encode', async () => {
   const expected = JSON.parse(await dump(await read(periodic.file)))
   expect(actual).toEqual(expected)
 })
+
+test('encode inferred column types as Table Schema field types', async () => {
+  const datatable = inferValidators(
+    stencila.datatable({
+      name: 'samples',
+      columns: [
+        stencila.datatableColumn({ name: 'id', values: [1, 2, 3, 4] }),
+        stencila.datatableColumn({
+          name: 'site',
+          values: ['north', 'south', 'north', 'north'],
+        }),
+        stencila.datatableColumn({
+          name: 'date',
+          values: ['2020-10-01', '2020-10-02', '2020-10-02', null],
+        }),
+        stencila.datatableColumn({
+          name: 'mass',
+          values: [1.5, 2.25, null, 3],
+        }),
+        stencila.datatableColumn({
+          name: 'valid',
+          values: [true, false, true, true],
+        }),
+      ],
+    })
+  )
+  const desc = JSON.parse(await dump(await encode(datatable)))
+  expect(desc.resources[0].schema.fields).toEqual([
+    {
+      name: 'id',
+      type: 'integer',
+      format: 'default',
+      constraints: { required: true },
+    },
+    {
+      name: 'site',
+      type: 'string',
+      format: 'default',
+      constraints: { required: true, enum: ['north', 'south'] },
+    },
+    { name: 'date', type: 'date', format: 'default', constraints: {} },
+    { name: 'mass', type: 'number', format: 'default', constraints: {} },
+    {
+      name: 'valid',
+      type: 'boolean',
+      format: 'default',
+      constraints: { required: true },
+    },
+  ])
+})
+
+describe('encodeStream', () => {
+  const outputs = path.join(__dirname, '__outputs__')
+  afterAll(() => fs.remove(outputs))
+
+  const datatable = stencila.datatable({
+    name: 'heights',
+    columns: [
+      stencila.datatableColumn({ name: 'code', values: ['a', 'b'] }),
+      stencila.datatableColumn({ name: 'height', values: [1.2, 3.4] }),
+    ],
+  })
+  const csv = 'code,height\r\na,1.2\r\nb,3.4'
+
+  test('to datapackage.json', async () => {
+    const file = path.join(outputs, 'json', 'datapackage.json')
+    await encodeStream(datatableToStream(datatable), file)
+
+    const desc = await fs.readJSON(file)
+    expect(desc.name).toEqual('heights')
+    expect(desc.resources[0].path).toEqual('data.csv')
+    expect(desc.resources[0].schema.fields).toEqual([
+      { name: 'code' },
+      { name: 'height' },
+    ])
+    expect(
+      await fs.readFile(path.join(outputs, 'json', 'data.csv'), 'utf8')
+    ).toEqual(csv)
+  })
+
+  test('to zip', async () => {
+    const file = path.join(outputs, 'heights.tdp')
+    await encodeStream(datatableToStream(datatable), file)
+
+    const zip = await JSZip.loadAsync(await fs.readFile(file))
+    const desc = JSON.parse(
+      (await zip.file('datapackage.json')?.async('text')) ?? ''
+    )
+    expect(desc.resources[0].path).toEqual('data.csv')
+    expect(await zip.file('data.csv')?.async('text')).toEqual(csv)
+  })
+})
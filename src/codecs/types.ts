@@ -1,5 +1,7 @@
 import * as stencila from '@stencila/schema'
 import { coerce } from '../util/coerce'
+import { DatatableStream } from '../util/datatable/stream'
+import { Diagnostic } from '../util/diagnostics'
 import { fromFiles } from '../util/media/fromFiles'
 import { resolveFiles } from '../util/media/resolveFiles'
 import { toFiles } from '../util/media/toFiles'
@@ -22,6 +24,23 @@ export interface CommonEncodeOptions {
   isBundle?: boolean
   shouldZip?: 'yes' | 'no' | 'maybe'
   theme?: string
+
+  /**
+   * The Citation Style Language (CSL) style to use to format citations and
+   * references e.g. `apa`, `elife`, `vancouver` or the path to a `.csl` file.
+   * See `util/citations`. Currently respected by the `html`, `md`,
+   * `jats` and `pdf` codecs.
+   */
+  citationStyle?: string
+
+  /**
+   * An array to add diagnostics to.
+   *
+   * Diagnostics are warnings and errors which arise while
+   * encoding e.g. nodes that are not supported by the format
+   * and which are dropped. Not passed on to codecs.
+   */
+  diagnostics?: Diagnostic[]
 }
 
 /**
@@ -80,6 +99,24 @@ export interface CommonDecodeOptions {
    * they expect content to be decode to.
    */
   asType?: keyof stencila.Types
+
+  /**
+   * Should the range, in the source, that each node was decoded
+   * from be recorded (in the node's `meta.sourceRange`)?
+   *
+   * Only supported by some codecs (e.g. `md` and `jats`).
+   * Used to provide locations in error messages e.g. from `validate`.
+   */
+  positions?: boolean
+
+  /**
+   * An array to add diagnostics to.
+   *
+   * Diagnostics are warnings and errors which arise while
+   * decoding e.g. invalid content that is dropped.
+   * Not passed on to codecs.
+   */
+  diagnostics?: Diagnostic[]
 }
 
 /**
@@ -167,6 +204,37 @@ export abstract class Codec<
     options?: EncodeOptions
   ) => Promise<vfile.VFile>
 
+  /**
+   * Decode a file to a `DatatableStream`.
+   *
+   * Codecs for tabular formats may implement this so that large
+   * files can be decoded without reading all of their rows into memory.
+   *
+   * @param filePath The path of the file
+   * @param options Decoding options
+   * @returns A promise that resolves to a `DatatableStream`
+   */
+  public readonly decodeStream?: (
+    filePath: string,
+    options?: DecodeOptions
+  ) => Promise<DatatableStream>
+
+  /**
+   * Encode a `DatatableStream` to a file.
+   *
+   * Codecs for tabular formats may implement this so that large
+   * files can be encoded without holding all of their rows in memory.
+   *
+   * @param stream The `DatatableStream` to encode
+   * @param filePath The path of the file
+   * @param options Encoding options
+   */
+  public readonly encodeStream?: (
+    stream: DatatableStream,
+    filePath: string,
+    options?: EncodeOptions
+  ) => Promise<void>
+
   /**
    * Decode a `stencila.Node` from a `string`.
    *
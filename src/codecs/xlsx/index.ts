@@ -12,14 +12,22 @@
  */
 /* eslint-disable @typescript-eslint/strict-boolean-expressions */
 
+import { getLogger } from '@stencila/logga'
 import stencila, { codeExpression } from '@stencila/schema'
+import Excel from 'exceljs'
 import { array, option, ord } from 'fp-ts'
 import { range } from 'fp-ts/lib/Array'
 import { pipe } from 'fp-ts/lib/pipeable'
+import fs from 'fs-extra'
+import path from 'path'
 import * as xlsx from 'xlsx'
+import { inferValidators } from '../../util/datatable/infer'
+import { DatatableStream, rowsToStream } from '../../util/datatable/stream'
 import * as vfile from '../../util/vfile'
 import { Codec, CommonEncodeOptions } from '../types'
 
+const log = getLogger('encoda:xlsx')
+
 const cellNameRegEx = /^([A-Z]+)([1-9][0-9]*)$/
 
 export class XlsxCodec extends Codec implements Codec {
@@ -48,6 +56,69 @@ export class XlsxCodec extends Codec implements Codec {
     })
     return Promise.resolve(vfile.load(buffer))
   }
+
+  /**
+   * Decode the first worksheet of a workbook to a `DatatableStream`.
+   *
+   * Worksheets are read in the order that they are stored in the file
+   * (which is not necessarily the order they are displayed in).
+   * Unlike `decode`, formulas do not cause the worksheet to be decoded
+   * as a `Table`; they are decoded as `CodeExpression`s within the `Datatable`.
+   */
+  public readonly decodeStream = async (
+    filePath: string
+  ): Promise<DatatableStream> => {
+    const workbook = new Excel.stream.xlsx.WorkbookReader(filePath, {
+      worksheets: 'emit',
+      sharedStrings: 'cache',
+      hyperlinks: 'ignore',
+      styles: 'ignore',
+    })
+    const worksheets = workbook[Symbol.asyncIterator]()
+    const first = await worksheets.next()
+    const worksheet = first.done === true ? undefined : first.value
+
+    async function* rows(): AsyncGenerator<stencila.Node[]> {
+      if (worksheet === undefined) return
+
+      // Rows with no values are not emitted so fill any gaps
+      let rowNum = 0
+      for await (const row of worksheet) {
+        for (; rowNum < row.number - 1; rowNum++) yield []
+        const values = Array.isArray(row.values) ? row.values.slice(1) : []
+        yield Array.from(values, decodeCellValue)
+        rowNum += 1
+      }
+
+      const next = await worksheets.next()
+      if (next.done !== true)
+        log.warn(`Only the first worksheet of "${filePath}" was decoded`)
+    }
+
+    // The type definitions for `WorksheetReader` do not include its `name`
+    const name = (worksheet as { name?: string } | undefined)?.name
+    return rowsToStream(rows(), { name })
+  }
+
+  public readonly encodeStream = async (
+    stream: DatatableStream,
+    filePath: string
+  ): Promise<void> => {
+    await fs.ensureDir(path.dirname(filePath))
+    const workbook = new Excel.stream.xlsx.WorkbookWriter({
+      filename: filePath,
+      useSharedStrings: false,
+      useStyles: false,
+    })
+    const worksheet = workbook.addWorksheet(stream.name ?? 'Sheet1')
+    worksheet.addRow(stream.columns.map((column) => column.name)).commit()
+    for await (const batch of stream.rows) {
+      for (const row of batch)
+        worksheet.addRow(row.map(encodeCellValue)).commit()
+    }
+    worksheet.commit()
+    await workbook.commit()
+  }
 }
 
 // TODO: Refactor to remove use of any
@@ -258,7 +329,7 @@ function decodeDatatable(
       }
     }),
   }
-  return datatable
+  return inferValidators(datatable)
 }
 
 function encodeDatatable(datatable: stencila.Datatable): xlsx.WorkSheet {
@@ -338,6 +409,53 @@ function encodeCell(node: stencila.Node): xlsx.CellObject | null {
   throw new TypeError(`Unhandled node type ${typeof node}`)
 }
 
+// Excel.CellValue <-> Node
+
+function decodeCellValue(value: Excel.CellValue): stencila.Node {
+  if (value === undefined || value === null) return null
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value !== 'object') return value
+  if ('formula' in value || 'sharedFormula' in value) {
+    const { result } = value
+    return codeExpression({
+      text: (value.formula ?? '').trim(),
+      programmingLanguage: 'excel',
+      output:
+        result === undefined
+          ? undefined
+          : decodeCellValue(
+              typeof result === 'object' && !(result instanceof Date)
+                ? result.error
+                : result
+            ),
+    })
+  }
+  if ('richText' in value)
+    return value.richText.map(({ text }) => text).join('')
+  if ('hyperlink' in value) return value.text
+  if ('error' in value) return value.error
+  return null
+}
+
+function encodeCellValue(node: stencila.Node): Excel.CellValue {
+  if (node === undefined || node === null) return null
+  if (
+    typeof node === 'boolean' ||
+    typeof node === 'number' ||
+    typeof node === 'string'
+  )
+    return node
+  if (stencila.isA('CodeExpression', node)) {
+    const result = encodeCellValue(node.output ?? null)
+    return {
+      formula: node.text,
+      result:
+        result === null || typeof result === 'object' ? undefined : result,
+    } as Excel.CellFormulaValue
+  }
+  throw new TypeError(`Unhandled node type ${typeof node}`)
+}
+
 /**
  * Convert spreadsheet formatted cell to a Stencila Table Cell
  *
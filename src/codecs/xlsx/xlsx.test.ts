@@ -1,8 +1,26 @@
-import { Datatable, Table } from '@stencila/schema'
+import {
+  arrayValidator,
+  Datatable,
+  enumValidator,
+  integerValidator,
+  stringValidator,
+  Table,
+} from '@stencila/schema'
+import fs from 'fs-extra'
+import path from 'path'
+import { inferValidators } from '../../util/datatable/infer'
+import {
+  datatableToStream,
+  streamToDatatable,
+} from '../../util/datatable/stream'
 import { read } from '../../util/vfile'
 import { columnIndexToName, columnNameToIndex, XlsxCodec } from './'
 
-const { decode, encode } = new XlsxCodec()
+const { decode, encode, decodeStream, encodeStream } = new XlsxCodec()
+
+const meta = { nullable: false }
+const integers = arrayValidator({ itemsValidator: integerValidator({ meta }) })
+const strings = arrayValidator({ itemsValidator: stringValidator({ meta }) })
 
 test('columnNameToIndex, columnIndexToName', async () => {
   expect(columnNameToIndex('A')).toEqual(0)
@@ -26,11 +44,13 @@ const simple = {
       {
         type: 'DatatableColumn',
         name: 'A',
+        validator: strings,
         values: ['a', 'b', 'c'],
       },
       {
         type: 'DatatableColumn',
         name: 'B',
+        validator: integers,
         values: [1, 2, 3],
       },
     ],
@@ -132,21 +152,27 @@ const collection: {
           {
             type: 'DatatableColumn',
             name: 'species',
+            validator: arrayValidator({
+              itemsValidator: enumValidator({ values: ['a', 'b', 'c'], meta }),
+            }),
             values: ['a', 'b', 'a', 'a', 'b', 'c'],
           },
           {
             type: 'DatatableColumn',
             name: 'height',
+            validator: integers,
             values: [1, 2, 3, 4, 5, 6],
           },
           {
             type: 'DatatableColumn',
             name: 'weight',
+            validator: integers,
             values: [3, 2, 1, 3, 4, 3],
           },
           {
             type: 'DatatableColumn',
             name: 'date',
+            validator: integers,
             values: [-322135, -322070, -322005, -321940, -321875, -321810],
           },
         ],
@@ -234,3 +260,24 @@ describe('encode', () => {
     expect(await decode(await encode(collection.node))).toEqual(collection.node)
   })
 })
+
+describe('streaming', () => {
+  const outputs = path.join(__dirname, '__outputs__')
+  afterAll(() => fs.remove(outputs))
+
+  test('decodeStream', async () => {
+    expect(
+      inferValidators(await streamToDatatable(await decodeStream(simple.file)))
+    ).toEqual(simple.node)
+  })
+
+  test('encodeStream', async () => {
+    const file = path.join(outputs, 'data.xlsx')
+    const datatable = collection.node.parts[0]
+    await encodeStream(datatableToStream(datatable, 4), file)
+    expect(await decode(await read(file))).toEqual(datatable)
+    expect(
+      inferValidators(await streamToDatatable(await decodeStream(file)))
+    ).toEqual(datatable)
+  })
+})
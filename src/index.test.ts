@@ -1,6 +1,8 @@
+import * as stencila from '@stencila/schema'
 import delay from 'delay'
 import fs from 'fs-extra'
 import os from 'os'
+import path from 'path'
 import tempy from 'tempy'
 import { codecList, convert, dump, handled, load, match, read, write } from '.'
 import { JsonCodec } from './codecs/json'
@@ -151,6 +153,70 @@ describe('convert', () => {
 }`)
   })
 
+  it('streams tabular data between files', async () => {
+    const inp = tempy.file({ extension: 'csv' })
+    fs.writeFileSync(inp, 'a,b\n1,2\n3,4\n')
+    const out = tempy.file({ extension: 'xlsx' })
+    const result = await convert(inp, out)
+
+    expect(result).toEqual(out)
+    expect(await read(out)).toEqual({
+      ...((await read(inp)) as stencila.Datatable),
+      name: 'Sheet1',
+    })
+  })
+
+  it('infers column types when streaming tabular data to a package', async () => {
+    const inp = tempy.file({ extension: 'csv' })
+    fs.writeFileSync(inp, 'name,count,ok\na,1,true\nb,,false\n')
+    const out = path.join(tempy.directory(), 'datapackage.json')
+    const result = await convert(inp, out, { to: 'tdp' })
+
+    expect(result).toEqual(out)
+    const {
+      resources: [
+        {
+          schema: { fields },
+        },
+      ],
+    } = await fs.readJSON(out)
+    expect(fields).toEqual([
+      { name: 'name', type: 'string', constraints: { required: true } },
+      { name: 'count', type: 'integer', constraints: {} },
+      { name: 'ok', type: 'boolean', constraints: { required: true } },
+    ])
+  })
+
+  it('infers column types from all rows, not just the first batch, when streaming', async () => {
+    const inp = tempy.file({ extension: 'csv' })
+    // The first batch of 10000 rows has only the categories `a` and `b`,
+    // only integer counts and no missing values
+    const rows = Array.from(
+      { length: 10000 },
+      (_, index) => `${index % 2 === 0 ? 'a' : 'b'},${index},true`
+    )
+    fs.writeFileSync(inp, ['cat,count,ok', ...rows, 'c,2.5,', ''].join('\n'))
+    const out = path.join(tempy.directory(), 'datapackage.json')
+    await convert(inp, out, { to: 'tdp' })
+
+    const {
+      resources: [
+        {
+          schema: { fields },
+        },
+      ],
+    } = await fs.readJSON(out)
+    expect(fields).toEqual([
+      {
+        name: 'cat',
+        type: 'string',
+        constraints: { enum: ['a', 'b', 'c'], required: true },
+      },
+      { name: 'count', type: 'number', constraints: { required: true } },
+      { name: 'ok', type: 'boolean', constraints: {} },
+    ])
+  })
+
   if (!os.type().includes('Windows'))
     it('returns a file path for "content-less" vfiles', async () => {
       const inp = `A paragraph\n`
@@ -10,6 +10,14 @@ import {
   commonEncodeDefaults,
   CommonEncodeOptions,
 } from './codecs/types'
+import {
+  diagnose,
+  Diagnostic,
+  resolvePaths,
+  setLocationFile,
+} from './util/diagnostics'
+import { inferStreamValidators } from './util/datatable/infer'
+import * as http from './util/http'
 import * as puppeteer from './util/puppeteer'
 import * as vfile from './util/vfile'
 import * as zip from './util/zip'
@@ -68,12 +76,14 @@ export const codecList: string[] = [
   'pdf',
   'txt',
   'xmd',
+  'qmd',
 
   // Math
   'mathml',
 
   // Scripts
   'dmagic',
+  'percent',
 
   // Images,
   'rpng',
@@ -227,16 +237,21 @@ export async function handled(
  *
  * @param file The `VFile` to decode
  * @param content The file path
- * @param format The media type
+ * @param options Decoding options e.g. `format`: the media type,
+ *                `diagnostics`: an array to add any diagnostics to
  */
 export async function decode<Options extends CommonDecodeOptions>(
   file: VFile,
   content?: string,
   options: Options = commonDecodeDefaults as Options
 ): Promise<stencila.Node> {
-  const { format } = options
+  const { format, diagnostics, ...rest } = options
   const codec = await match(content, format)
-  return codec.decode(file, options)
+  return diagnose(
+    diagnostics,
+    () => codec.decode(file, { format, ...rest }),
+    (diagnostics) => setLocationFile(diagnostics, file.path)
+  )
 }
 
 /**
@@ -248,19 +263,24 @@ export async function decode<Options extends CommonDecodeOptions>(
  *               Only required for some codecs e.g. those encoding to more than one file.
  *    - format The format to encode the node as.
  *             If undefined then determined from filePath or file path.
+ *    May also include `diagnostics`: an array to add any diagnostics to.
  */
 export async function encode<Options extends CommonEncodeOptions>(
   node: stencila.Node,
   options: Options = commonEncodeDefaults as Options
 ): Promise<VFile> {
-  const { filePath, format } = options
+  const { filePath, format, diagnostics, ...rest } = options
   if ((filePath ?? format) === undefined) {
     throw new Error(
       'At least one of "filePath" or "format" option must be provided'
     )
   }
   const codec = await match(filePath, format, true)
-  return codec.encode(node, options)
+  return diagnose(
+    diagnostics,
+    () => codec.encode(node, { filePath, format, ...rest }),
+    (diagnostics) => resolvePaths(diagnostics, node)
+  )
 }
 
 /**
@@ -268,14 +288,16 @@ export async function encode<Options extends CommonEncodeOptions>(
  *
  * @param content The content to load.
  * @param format The format to load the content as.
+ * @param options Decoding options.
  */
 export async function load<Options extends CommonDecodeOptions>(
   content: string,
   format: string,
   options: Options = commonDecodeDefaults as Options
 ): Promise<stencila.Node> {
+  const { diagnostics, ...rest } = options
   const codec = await match(content, format)
-  return codec.load(content, { format, ...options })
+  return diagnose(diagnostics, () => codec.load(content, { format, ...rest }))
 }
 
 /**
@@ -290,8 +312,13 @@ export async function dump<Options extends CommonEncodeOptions>(
   format: string,
   options: Options = commonEncodeDefaults as Options
 ): Promise<string> {
+  const { diagnostics, ...rest } = options
   const codec = await match(undefined, format, true)
-  return codec.dump(node, { format, ...options })
+  return diagnose(
+    diagnostics,
+    () => codec.dump(node, { format, ...rest }),
+    (diagnostics) => resolvePaths(diagnostics, node)
+  )
 }
 
 /**
@@ -301,14 +328,24 @@ export async function dump<Options extends CommonEncodeOptions>(
  *                Use `-` to read from standard input.
  * @param format The format to read the file as.
  *               If undefined then determined from content or file path.
+ * @param options Decoding options.
  */
 export async function read<Options extends CommonDecodeOptions>(
   source: string,
   format?: string,
   options: Options = commonDecodeDefaults as Options
 ): Promise<stencila.Node> {
+  const { diagnostics, ...rest } = options
   const codec = await match(source, format)
-  return codec.read(source, { format, ...options })
+  return diagnose(
+    diagnostics,
+    () => codec.read(source, { format, ...rest }),
+    (diagnostics) =>
+      setLocationFile(
+        diagnostics,
+        source !== STDIO_PATH && vfile.isPath(source) ? source : undefined
+      )
+  )
 }
 
 /**
@@ -324,16 +361,33 @@ export async function write<Options extends CommonEncodeOptions>(
   filePath: string,
   options: Options = commonEncodeDefaults as Options
 ): Promise<void> {
-  const { format } = { ...commonEncodeDefaults, ...options }
+  const { diagnostics, ...rest } = options
+  const { format } = { ...commonEncodeDefaults, ...rest }
   const codec = await match(filePath, format, true)
-  return codec.write(node, filePath, options)
+  return diagnose(
+    diagnostics,
+    () => codec.write(node, filePath, rest),
+    (diagnostics) => resolvePaths(diagnostics, node)
+  )
 }
 
-interface ConvertOptions {
+export interface ConvertOptions {
   from?: string
   to?: string
   decodeOptions?: CommonDecodeOptions
   encodeOptions?: CommonEncodeOptions
+
+  /**
+   * An array to add any diagnostics, from both decoding
+   * and encoding, to.
+   */
+  diagnostics?: Diagnostic[]
+
+  /**
+   * Whether or not to use the cache for HTTP requests
+   * made during the conversion. Defaults to `true`.
+   */
+  cache?: boolean
 }
 
 /**
@@ -341,7 +395,9 @@ interface ConvertOptions {
  *
  * @param input The input content (raw or file path).
  * @param outputPaths The output file path/s.
- * @param options Conversion options e.g `from` and `to`: to specify the formats to convert from/to
+ * @param options Conversion options e.g `from` and `to`: to specify the formats to convert from/to,
+ *                `diagnostics`: an array to add any diagnostics to,
+ *                `cache`: whether to use the cache for HTTP requests
  * @returns The converted content, or file path (for converters that only write to files).
  */
 export async function convert(
@@ -349,7 +405,24 @@ export async function convert(
   outputPaths?: string | string[],
   options: ConvertOptions = {}
 ): Promise<string | undefined> {
-  let { from, decodeOptions, to, encodeOptions } = options
+  const { diagnostics, cache = true } = options
+  if (!cache)
+    return http.withoutCache(() =>
+      convert(input, outputPaths, { ...options, cache: true })
+    )
+
+  // Stream tabular data between files, rather than reading it
+  // all into memory, if both codecs support that
+  const streamed = await diagnose(
+    diagnostics,
+    () => convertStream(input, outputPaths, options),
+    (diagnostics) => setLocationFile(diagnostics, input)
+  )
+  if (streamed !== undefined) return streamed
+
+  let { from, to } = options
+  const decodeOptions = { diagnostics, ...options.decodeOptions }
+  const encodeOptions = { diagnostics, ...options.encodeOptions }
 
   const node = await read(input, from, decodeOptions)
 
@@ -408,6 +481,56 @@ export async function convert(
   }
 }
 
+/**
+ * Convert a file to another file by streaming a `Datatable`.
+ *
+ * @returns The output file path, or `undefined` if the conversion can not be
+ *          streamed (e.g. if one of the codecs does not support streaming)
+ */
+async function convertStream(
+  input: string,
+  outputPaths: string | string[] | undefined,
+  options: ConvertOptions
+): Promise<string | undefined> {
+  const { from, to, decodeOptions = {}, encodeOptions = {} } = options
+
+  const outputPath =
+    typeof outputPaths === 'string'
+      ? outputPaths
+      : outputPaths?.length === 1
+      ? outputPaths[0]
+      : undefined
+  if (
+    input === STDIO_PATH ||
+    outputPath === undefined ||
+    outputPath === STDIO_PATH ||
+    (decodeOptions.asType ?? 'Datatable') !== 'Datatable' ||
+    encodeOptions.shouldZip === 'yes' ||
+    !(await fs.pathExists(input)) ||
+    (await fs.stat(input)).isDirectory()
+  )
+    return undefined
+
+  const decoder = await match(input, from)
+  const encoder = await match(outputPath, to, true)
+  if (decoder.decodeStream === undefined || encoder.encodeStream === undefined)
+    return undefined
+
+  // Infer column types, as when decoding the whole file, so
+  // that they are available to the encoder (e.g. for a package schema)
+  const stream = await inferStreamValidators(
+    await decoder.decodeStream(input, {
+      format: from,
+      ...decodeOptions,
+    })
+  )
+  await encoder.encodeStream(stream, outputPath, {
+    format: to,
+    ...encodeOptions,
+  })
+  return outputPath
+}
+
 /**
  * Shutdown Encoda.
  *
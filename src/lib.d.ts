@@ -44,3 +44,18 @@ declare module 'length-prefixed-stream' {
   export function encode(): Encoder
   export function decode(): Decoder
 }
+
+declare module 'sax' {
+  export interface SAXParser {
+    position: number
+    startTagPosition: number
+    onopentag: (tag: { name: string }) => void
+    onclosetag: (name: string) => void
+    write(xml: string): SAXParser
+    close(): SAXParser
+  }
+  export function parser(
+    strict: boolean,
+    options?: Record<string, unknown>
+  ): SAXParser
+}
@@ -1,6 +1,7 @@
 import * as logga from '@stencila/logga'
 import * as stencila from '@stencila/schema'
 import { deleteAt } from 'fp-ts/lib/Record'
+import { report } from './util/diagnostics'
 
 const log = logga.getLogger('encoda')
 export default log
@@ -45,7 +46,7 @@ export const logWarnLoss = (
   op: CodecOperation,
   message: string
 ): void => {
-  log.warn(`${codec}:${op} ${message}`)
+  report({ severity: 'warning', codec, message: `${codec}:${op} ${message}` })
 }
 
 /**
@@ -73,13 +74,16 @@ export const logWarnLossIfAny = (
   const rest = deleteAt('type')(lost)
   const properties = Object.keys(rest)
   if (properties.length > 0) {
-    log.warn(
-      `${codec} Properties of \`${stencila.nodeType(
+    report({
+      severity: 'warning',
+      codec,
+      node,
+      message: `${codec} Properties of \`${stencila.nodeType(
         node
       )}\` not supported by ${op}: ${properties
         .map((prop) => `\`${prop}\``)
-        .join(', ')}`
-    )
+        .join(', ')}`,
+    })
   }
 }
 
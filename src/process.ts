@@ -14,6 +14,7 @@ import path from 'path'
 import { dump, load, read, write } from '.'
 import { commonEncodeDefaults } from './codecs/types'
 import { coerce } from './util/coerce'
+import { formatRange, getRange } from './util/positions'
 import { validate } from './util/validate'
 
 /**
@@ -31,8 +32,32 @@ export default async function process(
   // by other directives
   const nodes: { [key: string]: stencila.Node } = {}
 
+  // Errors that have been prefixed with a source location
+  const located = new WeakSet<Error>()
+
+  // Handle a node, prefixing any error with the source location of
+  // the node, or its closest ancestor, if it was decoded with
+  // the `positions` option
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   async function handle(node: any): Promise<stencila.Node> {
+    try {
+      return await handleNode(node)
+    } catch (error) {
+      const range = getRange(node)
+      if (
+        range === undefined ||
+        !(error instanceof Error) ||
+        located.has(error)
+      )
+        throw error
+      const locatedError = new Error(`${formatRange(range)}: ${error.message}`)
+      located.add(locatedError)
+      throw locatedError
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async function handleNode(node: any): Promise<stencila.Node> {
     if (node === null || typeof node !== 'object') return node
 
     if (node.type === 'Include') {
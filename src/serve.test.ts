@@ -0,0 +1,84 @@
+import fs from 'fs-extra'
+import got from 'got'
+import http from 'http'
+import path from 'path'
+import tempy from 'tempy'
+import WebSocket from 'ws'
+import { serve, Server } from './serve'
+
+let dir: string
+let server: Server
+
+beforeAll(async () => {
+  dir = tempy.directory()
+  await fs.writeFile(path.join(dir, 'draft.md'), 'Some *emphasis*.')
+  await fs.writeFile(path.join(dir, 'style.css'), 'p { color: red; }')
+  await fs.writeFile(path.join(dir, '..notes.md'), 'Some notes.')
+  server = await serve(dir, { port: 0 })
+})
+
+afterAll(() => server.close())
+
+test('directory listing', async () => {
+  const { statusCode, body } = await got(server.url)
+  expect(statusCode).toBe(200)
+  expect(body).toMatch('href="draft.md"')
+  expect(body).toMatch('href="style.css"')
+})
+
+test('files are served as HTML with reload script', async () => {
+  const { headers, body } = await got(`${server.url}draft.md`)
+  expect(headers['content-type']).toMatch('text/html')
+  expect(body).toMatch(/<em[^>]*>emphasis<\/em>/)
+  expect(body).toMatch('new WebSocket')
+})
+
+test('media and raw files are served as is', async () => {
+  const css = await got(`${server.url}style.css`)
+  expect(css.headers['content-type']).toMatch('text/css')
+  expect(css.body).toBe('p { color: red; }')
+
+  const md = await got(`${server.url}draft.md?raw`)
+  expect(md.body).toBe('Some *emphasis*.')
+})
+
+test('files outside of the directory are not served', async () => {
+  const { statusCode } = await got(`${server.url}%2e%2e/etc/passwd`, {
+    throwHttpErrors: false,
+  })
+  expect(statusCode).toBe(404)
+})
+
+test('files with names starting with two dots are served', async () => {
+  const { statusCode, body } = await got(`${server.url}..notes.md?raw`)
+  expect(statusCode).toBe(200)
+  expect(body).toBe('Some notes.')
+})
+
+test('malformed paths are not found', async () => {
+  // Use `http` since `got` rejects malformed URLs
+  const statusCode = await new Promise((resolve) =>
+    http.get(`${server.url}%C0`, (response) => {
+      response.resume()
+      resolve(response.statusCode)
+    })
+  )
+  expect(statusCode).toBe(404)
+
+  // The server should remain up after a malformed WebSocket URL
+  const socket = new WebSocket(`${server.url.replace('http', 'ws')}%C0`)
+  await new Promise((resolve) => socket.on('open', resolve))
+  socket.close()
+  expect((await got(server.url)).statusCode).toBe(200)
+})
+
+test('pages are reloaded when the file changes', async () => {
+  await got(`${server.url}draft.md`)
+  const socket = new WebSocket(`${server.url.replace('http', 'ws')}draft.md`)
+  await new Promise((resolve) => socket.on('open', resolve))
+
+  const message = new Promise((resolve) => socket.on('message', resolve))
+  await fs.writeFile(path.join(dir, 'draft.md'), 'Some **strong** changes.')
+  expect(await message).toBe('reload')
+  socket.close()
+})
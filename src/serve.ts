@@ -0,0 +1,310 @@
+/**
+ * @module serve
+ */
+
+import { getLogger } from '@stencila/logga'
+import * as stencila from '@stencila/schema'
+import escape from 'escape-html'
+import fs from 'fs-extra'
+import http from 'http'
+import mime from 'mime'
+import path from 'path'
+import WebSocket from 'ws'
+import { read } from '.'
+import { HTMLCodec } from './codecs/html'
+import { commonEncodeDefaults } from './codecs/types'
+import { transformSync } from './util/transform'
+import * as vfile from './util/vfile'
+import { dependencies } from './watch'
+
+const log = getLogger('encoda:serve')
+
+const htmlCodec = new HTMLCodec()
+
+export interface ServeOptions {
+  /**
+   * The port to listen on. Use `0` for a random, free port.
+   * Defaults to `8000`.
+   */
+  port?: number
+
+  /**
+   * The host to listen on.
+   * Defaults to `127.0.0.1`.
+   */
+  host?: string
+
+  /**
+   * The theme to use for HTML e.g. `elife`.
+   * Defaults to `stencila`.
+   */
+  theme?: string
+}
+
+export interface Server {
+  /**
+   * The URL that the server is listening on.
+   */
+  url: string
+
+  /**
+   * Stop the server.
+   */
+  close: () => Promise<void>
+}
+
+/**
+ * Media types that are served as is, rather than converted to HTML.
+ * Other files can be served as is using the `raw` query parameter
+ * e.g. `/notebook.ipynb?raw`.
+ */
+const RAW_MEDIA_TYPES = /^((image|audio|video|font)\/.+|text\/css|(application|text)\/javascript|application\/pdf)$/
+
+/**
+ * The number of milliseconds to wait after a file changes
+ * before reloading pages that depend upon it.
+ */
+const RELOAD_DELAY = 300
+
+/**
+ * Serve the files in a directory as HTML.
+ *
+ * Each file is read (with media resolved using `resolveFiles`) and then
+ * encoded as a standalone HTML page using the `theme`. Directories are served
+ * as a list of links to their contents. Media files are served as is.
+ *
+ * Pages connect to the server using a WebSocket and are reloaded when
+ * the file, or any of the files that it depends on, change.
+ *
+ * @param dir The directory to serve
+ * @param options Options for the server
+ * @returns A promise resolving to the `Server` once it is listening
+ */
+export async function serve(
+  dir: string,
+  options: ServeOptions = {}
+): Promise<Server> {
+  const {
+    port = 8000,
+    host = '127.0.0.1',
+    theme = commonEncodeDefaults.theme,
+  } = options
+  const root = path.resolve(dir)
+
+  // The files that each served file depends upon (updated each
+  // time it is served) which are watched while it is being viewed
+  const watched = new Map<string, string[]>()
+
+  const server = http.createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      log.error(error)
+      response.statusCode = 500
+      response.end()
+    })
+  })
+
+  async function handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    const filePath = resolvePath(root, url.pathname)
+    if (filePath === undefined || !(await fs.pathExists(filePath))) {
+      return send(response, 404, 'text/plain', 'Not found')
+    }
+
+    if ((await fs.stat(filePath)).isDirectory()) {
+      if (!url.pathname.endsWith('/')) {
+        response.writeHead(301, { Location: `${url.pathname}/` })
+        response.end()
+        return
+      }
+      watched.set(filePath, [filePath])
+      const html = await encodeHtml(await listing(root, filePath), theme)
+      return send(response, 200, 'text/html', html)
+    }
+
+    const mediaType = mime.getType(filePath) ?? 'application/octet-stream'
+    if (url.searchParams.has('raw') || RAW_MEDIA_TYPES.test(mediaType)) {
+      response.writeHead(200, { 'Content-Type': mediaType })
+      fs.createReadStream(filePath).pipe(response)
+      return
+    }
+
+    let html
+    try {
+      const node = await read(filePath)
+      watched.set(filePath, [
+        filePath,
+        ...dependencies(node, path.dirname(filePath)),
+      ])
+      html = await encodeHtml(toUrls(node, root), theme)
+    } catch (error) {
+      log.error(error)
+      watched.set(filePath, [filePath])
+      return send(
+        response,
+        500,
+        'text/html',
+        `<pre>${escape(error.stack ?? error.message)}</pre>${RELOAD_SCRIPT}`
+      )
+    }
+    send(response, 200, 'text/html', html)
+  }
+
+  // Pages connect using the URL path of the page so that
+  // the files that it depends upon can be watched
+  const wss = new WebSocket.Server({ server })
+  wss.on('connection', (socket, request) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    const filePath = resolvePath(root, url.pathname)
+    const files =
+      filePath === undefined ? [] : watched.get(filePath) ?? [filePath]
+
+    let timer: NodeJS.Timeout | undefined
+    const reload = (): void => {
+      if (timer !== undefined) clearTimeout(timer)
+      timer = setTimeout(() => socket.send('reload'), RELOAD_DELAY)
+    }
+    const watchers = files
+      .filter((file) => fs.existsSync(file))
+      .map((file) => fs.watch(file, reload))
+
+    socket.on('close', () => {
+      if (timer !== undefined) clearTimeout(timer)
+      for (const watcher of watchers) watcher.close()
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, host, resolve)
+  })
+  const address = server.address()
+  const url =
+    address !== null && typeof address === 'object'
+      ? `http://${host}:${address.port}/`
+      : `http://${host}:${port}/`
+  log.info(`Serving "${root}" at ${url}`)
+
+  return {
+    url,
+    close: async () => {
+      for (const client of wss.clients) client.terminate()
+      await new Promise((resolve) => wss.close(resolve))
+      await new Promise((resolve) => server.close(resolve))
+    },
+  }
+}
+
+/**
+ * A script, injected into each page, which reloads the
+ * page when it receives a message from the server.
+ */
+const RELOAD_SCRIPT = `<script>
+  (function () {
+    var protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+    var socket = new WebSocket(protocol + '//' + window.location.host + window.location.pathname)
+    socket.onmessage = function () { window.location.reload() }
+  })()
+</script>`
+
+/**
+ * Is a path, relative to the `root` directory, outside of it?
+ */
+const isOutside = (relative: string): boolean =>
+  relative === '..' ||
+  relative.startsWith('..' + path.sep) ||
+  path.isAbsolute(relative)
+
+/**
+ * Resolve a URL path to a file path, returning `undefined`
+ * if it is malformed or outside of the `root` directory.
+ */
+function resolvePath(root: string, pathname: string): string | undefined {
+  let decoded
+  try {
+    decoded = decodeURIComponent(pathname)
+  } catch {
+    return undefined
+  }
+  const filePath = path.join(root, decoded)
+  return isOutside(path.relative(root, filePath)) ? undefined : filePath
+}
+
+/**
+ * Transform the absolute file paths of media within the `root`
+ * directory (as resolved by `read`) into URL paths on the server.
+ */
+function toUrls(node: stencila.Node, root: string): stencila.Node {
+  return transformSync(node, (node) => {
+    if (
+      stencila.nodeIs(stencila.mediaObjectTypes)(node) &&
+      path.isAbsolute(node.contentUrl)
+    ) {
+      const relative = path.relative(root, node.contentUrl)
+      if (!isOutside(relative))
+        return {
+          ...node,
+          contentUrl:
+            '/' + relative.split(path.sep).map(encodeURIComponent).join('/'),
+        }
+    }
+    return node
+  })
+}
+
+/**
+ * Create an `Article` listing the contents of a directory.
+ */
+async function listing(root: string, dir: string): Promise<stencila.Article> {
+  const names = (await fs.readdir(dir))
+    .filter((name) => !name.startsWith('.'))
+    .sort((a, b) => a.localeCompare(b))
+  const items = await Promise.all(
+    names.map(async (name) => {
+      const isDir = (await fs.stat(path.join(dir, name))).isDirectory()
+      return stencila.listItem({
+        content: [
+          stencila.paragraph({
+            content: [
+              stencila.link({
+                target: encodeURIComponent(name) + (isDir ? '/' : ''),
+                content: [isDir ? `${name}/` : name],
+              }),
+            ],
+          }),
+        ],
+      })
+    })
+  )
+  const title = '/' + path.relative(root, dir).split(path.sep).join('/')
+  return stencila.article({ title, content: [stencila.list({ items })] })
+}
+
+/**
+ * Encode a node as a standalone HTML page with the reload script.
+ */
+async function encodeHtml(node: stencila.Node, theme: string): Promise<string> {
+  const html = await vfile.dump(
+    await htmlCodec.encode(node, {
+      isStandalone: true,
+      isBundle: false,
+      theme,
+    })
+  )
+  return html.replace('</body>', `${RELOAD_SCRIPT}\n</body>`)
+}
+
+/**
+ * Send a response.
+ */
+function send(
+  response: http.ServerResponse,
+  status: number,
+  mediaType: string,
+  content: string
+): void {
+  response.writeHead(status, { 'Content-Type': `${mediaType}; charset=utf-8` })
+  response.end(content)
+}
@@ -0,0 +1,151 @@
+import delay from 'delay'
+import fs from 'fs-extra'
+import tempy from 'tempy'
+import { CacheSync, parseTtls } from './cacheSync'
+
+/**
+ * Create an entry as stored by `cacheable-request`.
+ */
+const entry = (url: string, time: number, expires?: number): string =>
+  JSON.stringify({
+    value: {
+      url,
+      cachePolicy: { t: time, resh: {}, rescc: { 'no-cache': true } },
+    },
+    expires,
+  })
+
+test('set, get and delete', () => {
+  const cache = new CacheSync(tempy.directory())
+  cache.set('key1', 'value1')
+  expect(cache.get('key1')).toBe('value1')
+  expect(cache.delete('key1')).toBe(true)
+  expect(cache.get('key1')).toBeUndefined()
+})
+
+test('list, stats and clear', async () => {
+  const cache = new CacheSync(tempy.directory())
+  cache.set('cacheable-request:GET:https://example.org/a', 'a')
+  await delay(10)
+  cache.set('cacheable-request:GET:https://example.org/b', 'bb')
+
+  const entries = cache.list()
+  expect(entries.map(({ size }) => size)).toEqual([2, 1])
+
+  expect(cache.stats()).toMatchObject({ count: 2, size: 3 })
+
+  cache.clear()
+  expect(cache.stats()).toMatchObject({ count: 0, size: 0 })
+})
+
+test('least recently used entries are evicted', async () => {
+  const cache = new CacheSync(tempy.directory(), { maxSize: 20 })
+  cache.set('a', '0123456789')
+  await delay(10)
+  cache.set('b', '0123456789')
+  await delay(10)
+  // Using `a` means that `b` is now the least recently used
+  cache.get('a')
+  await delay(10)
+  cache.set('c', '0123456789')
+
+  expect(cache.get('a')).toBeDefined()
+  expect(cache.get('b')).toBeUndefined()
+  expect(cache.get('c')).toBeDefined()
+})
+
+test('the directory is only scanned when the cache may be too large', () => {
+  const cache = new CacheSync(tempy.directory(), { maxSize: 25 })
+  const readdir = jest.spyOn(fs, 'readdirSync')
+  try {
+    cache.set('a', '0123456789')
+    cache.set('b', '0123456789')
+    // Replacing an entry does not count its previous size
+    cache.set('b', '0123456789')
+    cache.delete('a')
+    cache.set('c', '0123456789')
+    // Only scanned once, to get the initial size
+    expect(readdir).toHaveBeenCalledTimes(1)
+
+    cache.set('d', '0123456789')
+    expect(readdir).toHaveBeenCalledTimes(2)
+    expect(cache.stats()).toMatchObject({ count: 2, size: 20 })
+  } finally {
+    readdir.mockRestore()
+  }
+})
+
+test('invalid maximum sizes are replaced with the default', () => {
+  const cache = new CacheSync(tempy.directory(), { maxSize: NaN })
+  expect(cache.stats().maxSize).toBe(1e9)
+
+  process.env.ENCODA_CACHE_MAX_SIZE = 'big'
+  try {
+    cache.configure()
+    expect(cache.stats().maxSize).toBe(1e9)
+  } finally {
+    delete process.env.ENCODA_CACHE_MAX_SIZE
+  }
+
+  cache.configure({ maxSize: 100 })
+  expect(cache.stats().maxSize).toBe(100)
+})
+
+test('TTL overrides', () => {
+  const cache = new CacheSync(tempy.directory(), {
+    ttls: { 'example.org': 60 },
+  })
+  const now = Date.now()
+
+  // Fresh entries have their cache policy overridden
+  cache.set(
+    'cacheable-request:GET:https://example.org/fresh',
+    entry('https://example.org/fresh', now)
+  )
+  const fresh = JSON.parse(
+    cache.get('cacheable-request:GET:https://example.org/fresh') ?? ''
+  )
+  expect(fresh.value.cachePolicy.rescc).toEqual({ 'max-age': '60' })
+
+  // Stale entries are deleted
+  cache.set(
+    'cacheable-request:GET:https://example.org/stale',
+    entry('https://example.org/stale', now - 61000)
+  )
+  expect(
+    cache.get('cacheable-request:GET:https://example.org/stale')
+  ).toBeUndefined()
+
+  // Entries for other hosts are unchanged
+  const other = entry('https://example.com/', now - 61000)
+  cache.set('cacheable-request:GET:https://example.com/', other)
+  expect(cache.get('cacheable-request:GET:https://example.com/')).toBe(other)
+})
+
+test('prune', () => {
+  const cache = new CacheSync(tempy.directory(), {
+    ttls: { 'example.org': 60 },
+  })
+  const now = Date.now()
+  cache.set('1', entry('https://example.org/stale', now - 61000))
+  cache.set('2', entry('https://example.com/expired', now, now - 1000))
+  cache.set('3', entry('https://example.com/fresh', now, now + 1000))
+  cache.set('4', 'not JSON')
+
+  expect(cache.prune()).toBe(2)
+  expect(
+    cache
+      .list()
+      .map(({ file }) => file)
+      .sort()
+  ).toEqual(['3', '4'])
+})
+
+test('parseTtls', () => {
+  expect(parseTtls('api.crossref.org=86400, orcid.org=3600')).toEqual({
+    'api.crossref.org': 86400,
+    'orcid.org': 3600,
+  })
+  expect(parseTtls('')).toEqual({})
+  expect(parseTtls('foo,bar=baz')).toEqual({})
+})
@@ -4,14 +4,113 @@
  * seem to play nicely with `got` and/or `cachable-request`
  * when used in the `./https.ts` module.
  *
+ * The cache is limited to a maximum size, with the least recently used
+ * entries evicted when it is exceeded, and the time to live (TTL) of
+ * entries can be overridden for particular hosts. See `CacheOptions`.
+ *
  * @module util/app/cacheSync
  */
 
+import { getLogger } from '@stencila/logga'
 import fs from 'fs-extra'
 import Keyv from 'keyv'
 import path from 'path'
 import data from './data'
 
+const log = getLogger('encoda:util:cache')
+
+/**
+ * The default maximum size of the cache in bytes.
+ */
+const DEFAULT_MAX_SIZE = 1e9
+
+export interface CacheOptions {
+  /**
+   * The maximum size of the cache in bytes.
+   * Defaults to the `ENCODA_CACHE_MAX_SIZE` environment variable, or 1 GB.
+   */
+  maxSize?: number
+
+  /**
+   * The time to live, in seconds, of entries for particular hosts e.g.
+   * `{ 'api.crossref.org': 86400 }`. Entries for these hosts are used without
+   * revalidation, regardless of HTTP caching headers, until they are older
+   * than the TTL. Defaults to the `ENCODA_CACHE_TTLS` environment
+   * variable e.g. `api.crossref.org=86400,orcid.org=3600`.
+   */
+  ttls?: Record<string, number>
+}
+
+/**
+ * An entry in the cache.
+ */
+export interface CacheEntry {
+  /**
+   * The name of the file of the entry.
+   */
+  file: string
+
+  /**
+   * The URL that the entry is for (if it is a HTTP response).
+   */
+  url?: string
+
+  /**
+   * The size of the entry in bytes.
+   */
+  size: number
+
+  /**
+   * When the entry was last used.
+   */
+  used: Date
+
+  /**
+   * When the entry expires (if it has an expiry).
+   */
+  expires?: Date
+}
+
+/**
+ * Statistics on the cache.
+ */
+export interface CacheStats {
+  dir: string
+  count: number
+  size: number
+  maxSize: number
+}
+
+/**
+ * Parse a string of TTLs e.g. `api.crossref.org=86400,orcid.org=3600`.
+ */
+export function parseTtls(ttls: string): Record<string, number> {
+  return ttls
+    .split(',')
+    .map((pair) => pair.split('='))
+    .reduce((prev, [host, ttl]) => {
+      const seconds = parseFloat(ttl)
+      return host !== undefined && host.trim().length > 0 && !isNaN(seconds)
+        ? { ...prev, [host.trim()]: seconds }
+        : prev
+    }, {})
+}
+
+/**
+ * The value of a cache entry, as serialized by Keyv and `cacheable-request`.
+ */
+interface EntryValue {
+  value?: {
+    url?: string
+    cachePolicy?: {
+      t?: number
+      resh?: Record<string, string>
+      rescc?: Record<string, string | boolean>
+    }
+  }
+  expires?: number | null
+}
+
 /**
  * Cache class that implements the methods required to
  * act as a Keyv storage adapter.
@@ -23,8 +122,48 @@ export class CacheSync implements Keyv.Store<string> {
    */
   private dir: string
 
-  public constructor(dir: string = path.join(data, 'cache')) {
+  private maxSize = DEFAULT_MAX_SIZE
+
+  /**
+   * The total size of the files in the cache, tracked as entries are
+   * set and deleted so that the directory does not need to be scanned
+   * on every write. Undefined until it is first needed.
+   */
+  private size?: number
+
+  private ttls: Record<string, number> = {}
+
+  public constructor(
+    dir: string = path.join(data, 'cache'),
+    options: CacheOptions = {}
+  ) {
     this.dir = dir
+    this.configure(options)
+  }
+
+  /**
+   * Configure the cache.
+   *
+   * Options that are not specified are reset to their defaults.
+   */
+  public configure(options: CacheOptions = {}): void {
+    const { ENCODA_CACHE_MAX_SIZE, ENCODA_CACHE_TTLS } = process.env
+    const maxSize =
+      options.maxSize ??
+      (ENCODA_CACHE_MAX_SIZE !== undefined
+        ? parseFloat(ENCODA_CACHE_MAX_SIZE)
+        : DEFAULT_MAX_SIZE)
+    if (isNaN(maxSize) || maxSize < 0) {
+      log.warn(
+        `Invalid maximum cache size "${
+          options.maxSize ?? ENCODA_CACHE_MAX_SIZE ?? ''
+        }"; using the default of ${DEFAULT_MAX_SIZE} bytes`
+      )
+      this.maxSize = DEFAULT_MAX_SIZE
+    } else this.maxSize = maxSize
+    this.ttls =
+      options.ttls ??
+      (ENCODA_CACHE_TTLS !== undefined ? parseTtls(ENCODA_CACHE_TTLS) : {})
   }
 
   /**
@@ -40,31 +179,65 @@ export class CacheSync implements Keyv.Store<string> {
    * Set a value to be cached.
    */
   public set(key: string, value: string): void {
+    const filename = this.filename(key)
+    const size = this.total() - this.sizeOf(filename)
     fs.ensureDirSync(this.dir)
-    fs.writeFileSync(this.filename(key), value, 'utf8')
+    fs.writeFileSync(filename, value, 'utf8')
+    this.size = size + Buffer.byteLength(value, 'utf8')
+    if (this.size > this.maxSize) this.evict()
   }
 
   /**
    * Get a value from the cache.
+   *
+   * Marks the entry as used (for least recently used eviction), and
+   * applies any TTL override for the host of the entry.
    */
   public get(key: string): string | undefined {
+    const filename = this.filename(key)
+    let value
     try {
-      return fs.readFileSync(this.filename(key), 'utf8')
+      value = fs.readFileSync(filename, 'utf8')
     } catch (error) {
       if (error.code === 'ENOENT') return undefined
       throw error
     }
+    const now = new Date()
+    fs.utimesSync(filename, now, now)
+
+    const match = /^[^:]+:[A-Z]+:(https?:\/\/.+)$/.exec(key)
+    const ttl = match !== null ? this.ttl(match[1]) : undefined
+    if (ttl === undefined) return value
+
+    // Override the cache policy so that the entry is fresh until
+    // it is older than the TTL
+    const entry = JSON.parse(value) as EntryValue
+    const policy = entry.value?.cachePolicy
+    if (policy?.t === undefined) return value
+    if (now.valueOf() - policy.t > ttl * 1000) {
+      this.delete(key)
+      return undefined
+    }
+    policy.rescc = { 'max-age': `${ttl}` }
+    if (policy.resh !== undefined) {
+      const { expires, 'cache-control': _, ...rest } = policy.resh
+      policy.resh = { ...rest, 'cache-control': `max-age=${ttl}` }
+    }
+    return JSON.stringify(entry)
   }
 
   /**
    * Delete a value from the cache.
    */
   public delete(key: string): boolean {
+    const filename = this.filename(key)
+    const size = this.sizeOf(filename)
     try {
-      fs.unlinkSync(this.filename(key))
+      fs.unlinkSync(filename)
     } catch (error) {
       if (error.code !== 'ENOENT') throw error
     }
+    if (this.size !== undefined) this.size -= size
     return true
   }
 
@@ -72,7 +245,148 @@ export class CacheSync implements Keyv.Store<string> {
    * Clear the cache completely.
    */
   public clear(): void {
-    return fs.removeSync(this.dir)
+    fs.removeSync(this.dir)
+    this.size = 0
+  }
+
+  /**
+   * List the entries in the cache, most recently used first.
+   */
+  public list(): CacheEntry[] {
+    return this.files().map((file) => {
+      let entry: EntryValue = {}
+      try {
+        entry = JSON.parse(
+          fs.readFileSync(path.join(this.dir, file.file), 'utf8')
+        )
+      } catch {}
+      const { value: { url = undefined } = {}, expires } = entry
+      return {
+        ...file,
+        url,
+        expires: typeof expires === 'number' ? new Date(expires) : undefined,
+      }
+    })
+  }
+
+  /**
+   * Get statistics on the cache.
+   */
+  public stats(): CacheStats {
+    const entries = this.files()
+    return {
+      dir: this.dir,
+      count: entries.length,
+      size: entries.reduce((sum, { size }) => sum + size, 0),
+      maxSize: this.maxSize,
+    }
+  }
+
+  /**
+   * Prune the cache by deleting entries that have expired (including
+   * those older than any TTL override for their host) and then evicting
+   * the least recently used entries until it is within its maximum size.
+   *
+   * @returns The number of entries deleted
+   */
+  public prune(): number {
+    const now = Date.now()
+    const expired = this.list().filter(({ file, url, expires }) => {
+      const ttl = url !== undefined ? this.ttl(url) : undefined
+      const stale =
+        (expires !== undefined && expires.valueOf() < now) ||
+        (ttl !== undefined && this.age(file) > ttl * 1000)
+      if (stale) fs.removeSync(path.join(this.dir, file))
+      return stale
+    })
+    return expired.length + this.evict()
+  }
+
+  /**
+   * Evict the least recently used entries until the cache is
+   * within its maximum size.
+   *
+   * Scans the cache directory, so also corrects the tracked total size
+   * for any changes made to the cache by other processes.
+   *
+   * @returns The number of entries evicted
+   */
+  private evict(): number {
+    const entries = this.files()
+    let size = entries.reduce((sum, { size }) => sum + size, 0)
+    let count = 0
+    while (size > this.maxSize && entries.length > 0) {
+      const entry = entries.pop() as Pick<CacheEntry, 'file' | 'size'>
+      fs.removeSync(path.join(this.dir, entry.file))
+      size -= entry.size
+      count += 1
+    }
+    this.size = size
+    return count
+  }
+
+  /**
+   * Get the total size of the files in the cache, scanning
+   * the cache directory only if it has not been yet.
+   */
+  private total(): number {
+    if (this.size === undefined)
+      this.size = this.files().reduce((sum, { size }) => sum + size, 0)
+    return this.size
+  }
+
+  /**
+   * Get the size of a file in the cache (or zero if it does not exist).
+   */
+  private sizeOf(filename: string): number {
+    try {
+      return fs.statSync(filename).size
+    } catch {
+      return 0
+    }
+  }
+
+  /**
+   * Get the files in the cache, most recently used first.
+   *
+   * Unlike `list`, does not read the files, so is faster.
+   */
+  private files(): Pick<CacheEntry, 'file' | 'size' | 'used'>[] {
+    if (!fs.existsSync(this.dir)) return []
+    return fs
+      .readdirSync(this.dir)
+      .map((file) => {
+        const { size, mtime } = fs.statSync(path.join(this.dir, file))
+        return { file, size, used: mtime }
+      })
+      .sort((a, b) => b.used.valueOf() - a.used.valueOf())
+  }
+
+  /**
+   * Get the TTL override, if any, for a URL.
+   */
+  private ttl(url: string): number | undefined {
+    try {
+      return this.ttls[new URL(url).host]
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Get the age, in milliseconds, of the HTTP response in an entry
+   * (or zero if it can not be determined).
+   */
+  private age(file: string): number {
+    try {
+      const entry = JSON.parse(
+        fs.readFileSync(path.join(this.dir, file), 'utf8')
+      ) as EntryValue
+      const time = entry.value?.cachePolicy?.t
+      return time !== undefined ? Date.now() - time : 0
+    } catch {
+      return 0
+    }
   }
 }
 
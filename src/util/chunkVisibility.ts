@@ -0,0 +1,59 @@
+/**
+ * @module util/chunkVisibility
+ *
+ * Functions for determining whether the code and outputs of a `CodeChunk`
+ * should be shown, hidden (e.g. collapsed, but available to the reader), or
+ * removed, when it is encoded for display (e.g. as HTML or PDF).
+ *
+ * Visibility is determined from the `tags` in the chunk's `meta`, using the
+ * same tags as Jupyter Book (e.g. `hide-input`, `remove-output`), and from the
+ * Jupyter cell metadata properties `jupyter.source_hidden`,
+ * `jupyter.outputs_hidden` and `collapsed`.
+ */
+
+import * as stencila from '@stencila/schema'
+
+export type Visibility = 'show' | 'hide' | 'remove'
+
+export interface ChunkVisibility {
+  /**
+   * The visibility of the chunk's code
+   */
+  code: Visibility
+
+  /**
+   * The visibility of the chunk's outputs
+   */
+  outputs: Visibility
+}
+
+/**
+ * Get the visibility of the code and outputs of a `CodeChunk`.
+ *
+ * Where more than one tag or property applies to the code,
+ * or to the outputs, `remove` takes precedence over `hide`.
+ */
+export function getChunkVisibility(chunk: stencila.CodeChunk): ChunkVisibility {
+  const { meta = {} } = chunk
+  const tags: unknown[] = Array.isArray(meta.tags) ? meta.tags : []
+  const has = (...names: string[]): boolean =>
+    names.some((name) => tags.includes(name))
+  const { source_hidden: sourceHidden, outputs_hidden: outputsHidden } =
+    typeof meta.jupyter === 'object' && meta.jupyter !== null
+      ? (meta.jupyter as Record<string, unknown>)
+      : ({} as Record<string, unknown>)
+
+  const code: Visibility = has('remove-input', 'remove-cell')
+    ? 'remove'
+    : has('hide-input', 'hide-cell') || sourceHidden === true
+    ? 'hide'
+    : 'show'
+  const outputs: Visibility = has('remove-output', 'remove-cell')
+    ? 'remove'
+    : has('hide-output', 'hide-cell') ||
+      outputsHidden === true ||
+      meta.collapsed === true
+    ? 'hide'
+    : 'show'
+  return { code, outputs }
+}
@@ -0,0 +1,87 @@
+import * as stencila from '@stencila/schema'
+import { formatCitations, resolveCitationStyle } from './citations'
+
+const smith = stencila.article({
+  id: 'smith',
+  title: 'Alpha',
+  authors: [stencila.person({ givenNames: ['Jane'], familyNames: ['Smith'] })],
+  datePublished: '2020',
+})
+const jones = stencila.article({
+  id: 'jones',
+  title: 'Beta',
+  authors: [
+    stencila.person({ givenNames: ['Kim'], familyNames: ['Jones'] }),
+    stencila.person({ givenNames: ['Mia'], familyNames: ['Lee'] }),
+    stencila.person({ givenNames: ['Xu'], familyNames: ['Wu'] }),
+  ],
+  datePublished: '2019',
+})
+
+const cite1 = stencila.cite({ target: 'jones' })
+const cite2 = stencila.citeGroup({
+  items: [
+    stencila.cite({ target: 'smith' }),
+    stencila.cite({ target: '#jones' }),
+  ],
+})
+const cite3 = stencila.cite({ target: 'unknown' })
+const article = stencila.article({
+  content: [stencila.paragraph({ content: [cite1, ' and ', cite2, cite3] })],
+  references: [smith, jones],
+})
+
+describe('formatCitations', () => {
+  test('author-year style', () => {
+    const formatted = formatCitations(article, 'apa')
+    expect(formatted?.citations.get(cite1)).toEqual({
+      text: '(Jones et al., 2019)',
+      items: [{ cite: cite1, text: 'Jones et al., 2019' }],
+      prefix: '(',
+      delimiter: '; ',
+      suffix: ')',
+    })
+    expect(formatted?.citations.get(cite2)).toMatchObject({
+      text: '(Jones et al., 2019; Smith, 2020)',
+      items: [
+        { cite: cite2.items[1], text: 'Jones et al., 2019' },
+        { cite: cite2.items[0], text: 'Smith, 2020' },
+      ],
+    })
+    expect(formatted?.citations.has(cite3)).toBe(false)
+    expect([...(formatted?.references.keys() ?? [])]).toEqual([
+      'jones',
+      'smith',
+    ])
+    expect(formatted?.references.get('smith')).toBe('Smith, J. (2020). Alpha.')
+  })
+
+  test('numeric style', () => {
+    const formatted = formatCitations(article, 'vancouver', 'html')
+    expect(formatted?.citations.get(cite1)?.text).toBe('(1)')
+    expect(formatted?.citations.get(cite2)).toMatchObject({
+      text: '(1,2)',
+      items: [
+        { cite: cite2.items[1], text: '1' },
+        { cite: cite2.items[0], text: '2' },
+      ],
+    })
+    expect([...(formatted?.references.keys() ?? [])]).toEqual([
+      'jones',
+      'smith',
+    ])
+    expect(formatted?.references.get('smith')).toMatch(
+      /^<div class="csl-entry">/
+    )
+  })
+
+  test('not an article', () => {
+    expect(formatCitations(cite1, 'apa')).toBeUndefined()
+  })
+})
+
+test('resolveCitationStyle', () => {
+  expect(resolveCitationStyle('elife')).toMatch(/^file:.*elife\.csl$/)
+  expect(resolveCitationStyle('vancouver')).toBe('vancouver')
+  expect(() => resolveCitationStyle('foo')).toThrow(/Unable to find/)
+})
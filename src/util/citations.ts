@@ -0,0 +1,259 @@
+/**
+ * @module util/citations
+ *
+ * Functions for formatting the citations, and references, of an article
+ * using a [Citation Style Language](https://citationstyles.org/) (CSL) style.
+ *
+ * Codecs that support the `citationStyle` encoding option (e.g. `html`, `md` and
+ * `jats`) use `formatCitations` to get the text for each `Cite` and `CiteGroup`
+ * node (e.g. `(Smith et al., 2020)` or `[1]`), and for each reference, and then
+ * encode those in their own way.
+ *
+ * Citations are processed in the order that they appear in the article so that
+ * numeric styles are numbered correctly. Styles that produce notes (e.g.
+ * Chicago notes) are not supported.
+ */
+
+import * as stencila from '@stencila/schema'
+// @ts-ignore
+import Cite from 'citation-js'
+import fs from 'fs-extra'
+import path from 'path'
+import { encodeCsl, stylesDir } from '../codecs/csl'
+
+/**
+ * The formatted text of a `Cite` or `CiteGroup`.
+ */
+export interface FormattedCitation {
+  /**
+   * The text of the whole citation e.g. `(Jones et al., 2019; Smith, 2020)`
+   */
+  text: string
+
+  /**
+   * The text of each of the cited items, without the prefix and suffix
+   * of the citation, e.g. `Smith, 2020`. In the order that they appear
+   * in the citation (which may differ from the order of the items in a `CiteGroup`).
+   */
+  items: { cite: stencila.Cite; text: string }[]
+
+  /**
+   * The prefix of the citation e.g. `(`
+   */
+  prefix: string
+
+  /**
+   * The delimiter between the items of the citation e.g. `; `
+   */
+  delimiter: string
+
+  /**
+   * The suffix of the citation e.g. `)`
+   */
+  suffix: string
+}
+
+/**
+ * The formatted citations and references of an article.
+ */
+export interface FormattedCitations {
+  /**
+   * The formatted text of each `Cite` and `CiteGroup` node
+   * in the article.
+   */
+  citations: Map<stencila.Cite | stencila.CiteGroup, FormattedCitation>
+
+  /**
+   * The formatted text (or HTML) of each reference, keyed by the `id` of
+   * the reference and in the order that they should appear in the list of references.
+   */
+  references: Map<string, string>
+}
+
+/**
+ * Get the `id` of the reference that a `Cite` targets.
+ */
+const citeId = (cite: stencila.Cite): string =>
+  cite.target.startsWith('#') ? cite.target.slice(1) : cite.target
+
+/**
+ * Resolve a citation style to the name of a template registered
+ * with Citation.js.
+ *
+ * The style can be the path to a CSL file, the name of one of the styles
+ * in the `csl` codec's `styles` directory (e.g. `apa`, `elife`), or the name
+ * of one of the styles built into Citation.js (e.g. `vancouver`).
+ *
+ * @param style The citation style
+ * @returns The name of the registered template
+ */
+export function resolveCitationStyle(style: string): string {
+  const { templates } = Cite.plugins.config.get('@csl') as {
+    templates: {
+      has: (name: string) => boolean
+      add: (name: string, xml: string) => void
+    }
+  }
+  const file = [style, path.join(stylesDir, `${style}.csl`)].find(
+    (file) => path.extname(file) === '.csl' && fs.existsSync(file)
+  )
+  if (file !== undefined) {
+    const name = `file:${path.resolve(file)}`
+    if (!templates.has(name)) templates.add(name, fs.readFileSync(file, 'utf8'))
+    return name
+  }
+  if (templates.has(style)) return style
+  throw new Error(`Unable to find citation style "${style}"`)
+}
+
+/**
+ * Format the citations and references of an article
+ * using a CSL style.
+ *
+ * Only references that are `CreativeWork`s with an `id` can be formatted.
+ * A `Cite` or `CiteGroup` is only formatted if all of its targets
+ * are formatted references.
+ *
+ * @param node The article to format the citations of
+ * @param style The citation style (see `resolveCitationStyle`)
+ * @param format The format for the references
+ * @returns The formatted citations and references, or `undefined` if the
+ *          node is not an article with references
+ */
+export function formatCitations(
+  node: stencila.Node,
+  style: string,
+  format: 'text' | 'html' = 'text'
+): FormattedCitations | undefined {
+  if (!stencila.isArticle(node) || node.references === undefined)
+    return undefined
+
+  const template = resolveCitationStyle(style)
+
+  const items = node.references
+    .filter(
+      (ref): ref is stencila.CreativeWork =>
+        typeof ref !== 'string' && ref.id !== undefined
+    )
+    .map(encodeCsl)
+  const ids = items.map((item) => item.id)
+
+  // Collect the citations that can be formatted, in the order
+  // that they appear in the article
+  const cites: (stencila.Cite | stencila.CiteGroup)[] = []
+  const collect = (node: stencila.Node): void => {
+    if (stencila.isA('Cite', node) || stencila.isA('CiteGroup', node)) {
+      const targets = stencila.isA('Cite', node)
+        ? [citeId(node)]
+        : node.items.map(citeId)
+      if (targets.every((id) => ids.includes(id))) cites.push(node)
+    } else if (Array.isArray(node)) node.forEach(collect)
+    else if (typeof node === 'object' && node !== null)
+      Object.values(node).forEach(collect)
+  }
+  const { references, ...rest } = node
+  collect(rest)
+
+  const engine = Cite.plugins.config
+    .get('@csl')
+    .engine(items, template, 'en-US', 'text')
+  engine.sys.wrapBibliographyEntry = () => ['', '']
+
+  // Each citation is processed as a cluster. Each of the items in a
+  // `CiteGroup` is also processed as a separate cluster, after all the others
+  // so that they do not alter numbering or first citation forms, so
+  // that codecs can encode them individually.
+  const clusters = cites.map((cite, index) => ({
+    citationID: `${index}`,
+    citationItems: (stencila.isA('Cite', cite)
+      ? [cite]
+      : cite.items
+    ).map((item) => ({ id: citeId(item) })),
+    properties: { noteIndex: 0 },
+  }))
+  const singles = cites.flatMap((cite, index) =>
+    stencila.isA('CiteGroup', cite)
+      ? cite.items.map((item, itemIndex) => ({
+          citationID: `${index}-${itemIndex}`,
+          citationItems: [{ id: citeId(item) }],
+          properties: { noteIndex: 0 },
+        }))
+      : []
+  )
+  const texts: Record<string, string> = engine
+    .rebuildProcessorState([...clusters, ...singles], 'text', ids)
+    .reduce(
+      (
+        prev: Record<string, string>,
+        [id, , text]: [string, number, string]
+      ) => ({
+        ...prev,
+        [id]: text,
+      }),
+      {}
+    )
+
+  const {
+    layout_prefix: prefix = '',
+    layout_suffix: suffix = '',
+    layout_delimiter: delimiter = '',
+  } = engine.citation.opt
+  const strip = (text: string): string =>
+    text.slice(
+      text.startsWith(prefix) ? prefix.length : 0,
+      text.endsWith(suffix) && suffix.length > 0 ? -suffix.length : text.length
+    )
+
+  const citations = new Map(
+    cites.map((cite, index) => {
+      const text = texts[`${index}`]
+      const items = stencila.isA('CiteGroup', cite)
+        ? cite.items.map((item, itemIndex) => ({
+            cite: item,
+            text: strip(texts[`${index}-${itemIndex}`]),
+          }))
+        : [{ cite, text: strip(text) }]
+      // Sort the items in the order that they appear in the citation
+      // (e.g. some styles sort them alphabetically)
+      const position = (item: string): number => {
+        const found = text.indexOf(item)
+        return found < 0 ? text.length : found
+      }
+      items.sort((a, b) => position(a.text) - position(b.text))
+      return [cite, { text, items, prefix, delimiter, suffix }]
+    })
+  )
+
+  engine.setOutputFormat(format)
+  const [{ entry_ids: entryIds }, entries] = engine.makeBibliography()
+  const formatted = new Map<string, string>(
+    entries.map((entry: string, index: number) => [
+      entryIds[index][0],
+      entry.trim(),
+    ])
+  )
+
+  return { citations, references: formatted }
+}
+
+/**
+ * Order references as they should appear in the list of references
+ * for a citation style (e.g. alphabetically, or by order of citation),
+ * with any references that were not formatted at the end.
+ *
+ * @param references The references to order
+ * @param formatted The formatted references
+ */
+export function orderReferences<
+  Type extends string | stencila.CreativeWorkTypes
+>(references: Type[], formatted: Map<string, string>): Type[] {
+  const ids = [...formatted.keys()]
+  const position = (ref: Type): number => {
+    const index =
+      typeof ref === 'string'
+        ? -1
+        : ids.indexOf((ref as stencila.CreativeWork).id ?? '')
+    return index < 0 ? ids.length : index
+  }
+  return [...references].sort((a, b) => position(a) - position(b))
+}
@@ -0,0 +1,138 @@
+import {
+  arrayValidator,
+  booleanValidator,
+  datatable,
+  datatableColumn,
+  enumValidator,
+  integerValidator,
+  numberValidator,
+  stringValidator,
+} from '@stencila/schema'
+import {
+  DATE_PATTERN,
+  DATETIME_PATTERN,
+  inferStreamValidators,
+  inferValidator,
+  inferValidators,
+} from './infer'
+import { datatableToStream, streamToDatatable } from './stream'
+
+const meta = { nullable: false }
+
+test('inferValidator', () => {
+  expect(inferValidator([])).toEqual(arrayValidator())
+  expect(inferValidator([null, null])).toEqual(arrayValidator())
+  expect(inferValidator([1, 'a'])).toEqual(arrayValidator())
+
+  expect(inferValidator([true, false])).toEqual(
+    arrayValidator({ itemsValidator: booleanValidator({ meta }) })
+  )
+  expect(inferValidator([1, 2, -3])).toEqual(
+    arrayValidator({ itemsValidator: integerValidator({ meta }) })
+  )
+  expect(inferValidator([1, 2.5])).toEqual(
+    arrayValidator({ itemsValidator: numberValidator({ meta }) })
+  )
+  expect(inferValidator(['2020-10-19', '2020-10-20'])).toEqual(
+    arrayValidator({
+      itemsValidator: stringValidator({ pattern: DATE_PATTERN, meta }),
+    })
+  )
+  expect(
+    inferValidator(['2020-10-19T14:01:00.000Z', '2020-10-20T09:30+13:00'])
+  ).toEqual(
+    arrayValidator({
+      itemsValidator: stringValidator({ pattern: DATETIME_PATTERN, meta }),
+    })
+  )
+  expect(inferValidator(['b', 'a', 'b', 'a', 'b'])).toEqual(
+    arrayValidator({
+      itemsValidator: enumValidator({ values: ['a', 'b'], meta }),
+    })
+  )
+  expect(inferValidator(['a', 'b', 'c'])).toEqual(
+    arrayValidator({ itemsValidator: stringValidator({ meta }) })
+  )
+})
+
+test('inferValidator with missing values', () => {
+  expect(inferValidator([1, null, 3])).toEqual(
+    arrayValidator({
+      itemsValidator: integerValidator({ meta: { nullable: true } }),
+    })
+  )
+})
+
+test('inferValidators', () => {
+  const validator = arrayValidator({ itemsValidator: stringValidator() })
+  expect(
+    inferValidators(
+      datatable({
+        columns: [
+          datatableColumn({ name: 'a', values: [1, 2] }),
+          datatableColumn({ name: 'b', values: [1, 2], validator }),
+        ],
+      })
+    )
+  ).toEqual(
+    datatable({
+      columns: [
+        datatableColumn({
+          name: 'a',
+          values: [1, 2],
+          validator: arrayValidator({
+            itemsValidator: integerValidator({ meta }),
+          }),
+        }),
+        datatableColumn({ name: 'b', values: [1, 2], validator }),
+      ],
+    })
+  )
+})
+
+test('inferStreamValidators', async () => {
+  const stream = await inferStreamValidators(
+    datatableToStream(
+      datatable({
+        columns: [
+          datatableColumn({ name: 'a', values: [1, 2, 3.5] }),
+          datatableColumn({ name: 'b', values: ['x', 'x', null] }),
+        ],
+      }),
+      2
+    )
+  )
+
+  // Initially, inferred from the first batch only...
+  expect(stream.columns.map((column) => column.validator)).toEqual([
+    arrayValidator({ itemsValidator: integerValidator({ meta }) }),
+    arrayValidator({
+      itemsValidator: enumValidator({ values: ['x'], meta }),
+    }),
+  ])
+
+  // ...but widened as later batches are read
+  expect(await streamToDatatable(stream)).toEqual(
+    datatable({
+      columns: [
+        datatableColumn({
+          name: 'a',
+          values: [1, 2, 3.5],
+          validator: arrayValidator({
+            itemsValidator: numberValidator({ meta }),
+          }),
+        }),
+        datatableColumn({
+          name: 'b',
+          values: ['x', 'x', null],
+          validator: arrayValidator({
+            itemsValidator: enumValidator({
+              values: ['x'],
+              meta: { nullable: true },
+            }),
+          }),
+        }),
+      ],
+    })
+  )
+})
@@ -0,0 +1,224 @@
+/**
+ * @module util/datatable/infer
+ *
+ * Functions for inferring the types of the values in the columns of a `Datatable`.
+ *
+ * The inferred type of each column is represented as the `itemsValidator`
+ * of the column's `validator`. Whether or not the column has any missing
+ * (i.e. `null`) values is recorded in the `meta.nullable` property of
+ * the `itemsValidator`.
+ */
+
+import stencila from '@stencila/schema'
+import { DatatableStream } from './stream'
+
+/**
+ * The `pattern` of a `StringValidator` for ISO 8601 dates e.g. `2020-10-19`
+ */
+export const DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}$'
+
+/**
+ * The `pattern` of a `StringValidator` for ISO 8601 date-times e.g. `2020-10-19T14:01:00Z`
+ */
+export const DATETIME_PATTERN =
+  '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:?\\d{2})?$'
+
+/**
+ * The maximum number of distinct values for a column of
+ * strings to be considered an enumeration.
+ */
+export const MAX_ENUM_VALUES = 10
+
+/**
+ * The kinds of values in a column, used to infer its validator.
+ */
+type ValueKind =
+  | 'boolean'
+  | 'integer'
+  | 'number'
+  | 'date'
+  | 'datetime'
+  | 'string'
+  | 'other'
+
+/**
+ * A summary of the values of a column, which can be updated as
+ * batches of values are read (e.g. when streaming).
+ */
+interface ValuesSummary {
+  /**
+   * The number of values, including missing values.
+   */
+  count: number
+
+  /**
+   * The number of values that are missing (i.e. `null`).
+   */
+  missing: number
+
+  /**
+   * The kinds of values that are present.
+   */
+  kinds: Set<ValueKind>
+
+  /**
+   * The distinct string values (up to one more than `MAX_ENUM_VALUES`).
+   */
+  distinct: Set<string>
+}
+
+const dateRegex = new RegExp(DATE_PATTERN)
+const datetimeRegex = new RegExp(DATETIME_PATTERN)
+
+/**
+ * Update a summary with more values of a column.
+ */
+function summarizeValues(
+  values: stencila.Node[],
+  summary: ValuesSummary = {
+    count: 0,
+    missing: 0,
+    kinds: new Set(),
+    distinct: new Set(),
+  }
+): ValuesSummary {
+  for (const value of values) {
+    summary.count += 1
+    if (value === null || value === undefined) summary.missing += 1
+    else if (typeof value === 'boolean') summary.kinds.add('boolean')
+    else if (Number.isInteger(value)) summary.kinds.add('integer')
+    else if (typeof value === 'number') summary.kinds.add('number')
+    else if (typeof value === 'string') {
+      summary.kinds.add(
+        dateRegex.test(value)
+          ? 'date'
+          : datetimeRegex.test(value)
+          ? 'datetime'
+          : 'string'
+      )
+      if (summary.distinct.size <= MAX_ENUM_VALUES) summary.distinct.add(value)
+    } else summary.kinds.add('other')
+  }
+  return summary
+}
+
+/**
+ * Infer a validator from a summary of the values of a column.
+ */
+function summaryValidator(summary: ValuesSummary): stencila.ArrayValidator {
+  const { count, missing, kinds, distinct } = summary
+  const present = count - missing
+  const meta = { nullable: missing > 0 }
+  const only = (...allowed: ValueKind[]): boolean =>
+    [...kinds].every((kind) => allowed.includes(kind))
+
+  let itemsValidator: stencila.ValidatorTypes | undefined
+  if (present === 0) itemsValidator = undefined
+  else if (only('boolean')) itemsValidator = stencila.booleanValidator({ meta })
+  else if (only('integer')) itemsValidator = stencila.integerValidator({ meta })
+  else if (only('integer', 'number'))
+    itemsValidator = stencila.numberValidator({ meta })
+  else if (only('date'))
+    itemsValidator = stencila.stringValidator({ pattern: DATE_PATTERN, meta })
+  else if (only('datetime'))
+    itemsValidator = stencila.stringValidator({
+      pattern: DATETIME_PATTERN,
+      meta,
+    })
+  else if (only('date', 'datetime', 'string')) {
+    if (distinct.size <= MAX_ENUM_VALUES && distinct.size <= present / 2)
+      itemsValidator = stencila.enumValidator({
+        values: [...distinct].sort(),
+        meta,
+      })
+    else itemsValidator = stencila.stringValidator({ meta })
+  }
+
+  return stencila.arrayValidator({ itemsValidator })
+}
+
+/**
+ * Infer a validator for the values of a column.
+ *
+ * The most specific of boolean, integer, number, date, date-time,
+ * enumeration (for strings with only a few distinct values, each appearing
+ * more than once on average) and string is inferred. Returns an `ArrayValidator`
+ * without an `itemsValidator` if there are no values, or values of mixed types.
+ *
+ * @param values The values of the column
+ */
+export function inferValidator(
+  values: stencila.Node[]
+): stencila.ArrayValidator {
+  return summaryValidator(summarizeValues(values))
+}
+
+/**
+ * Infer validators for those columns of a `Datatable` which do not have one.
+ *
+ * @param datatable The datatable to infer column validators for
+ */
+export function inferValidators(
+  datatable: stencila.Datatable
+): stencila.Datatable {
+  return {
+    ...datatable,
+    columns: datatable.columns.map((column) =>
+      column.validator === undefined
+        ? { ...column, validator: inferValidator(column.values) }
+        : column
+    ),
+  }
+}
+
+/**
+ * Infer validators for those columns of a `DatatableStream` which do not have one.
+ *
+ * Because the rows are not all held in memory, the validators of the returned
+ * `columns` are inferred from the first batch of rows and then widened as
+ * each later batch is read (e.g. from integer to number if a later row has a
+ * decimal). So, encoders should only use the validators (e.g. to write a schema)
+ * after reading all of the `rows`.
+ *
+ * @param stream The stream to infer column validators for
+ */
+export async function inferStreamValidators(
+  stream: DatatableStream
+): Promise<DatatableStream> {
+  const columns = stream.columns.map((column) => ({ ...column }))
+  const summaries = columns.map((column) =>
+    column.validator === undefined ? summarizeValues([]) : undefined
+  )
+  const update = (batch: stencila.Node[][]): void =>
+    summaries.forEach((summary, index) => {
+      if (summary === undefined) return
+      summarizeValues(
+        batch.map((row) => row[index] ?? null),
+        summary
+      )
+      columns[index].validator = summaryValidator(summary)
+    })
+
+  const iterator = stream.rows[Symbol.asyncIterator]()
+  const first = await iterator.next()
+  update(first.done === true ? [] : first.value)
+
+  async function* rows(): AsyncGenerator<stencila.Node[][]> {
+    if (first.done === true) return
+    yield first.value
+    while (true) {
+      const next = await iterator.next()
+      if (next.done === true) return
+      update(next.value)
+      yield next.value
+    }
+  }
+
+  return { ...stream, columns, rows: rows() }
+}
+
+/**
+ * Is an items validator known to not allow missing values?
+ */
+export const isRequired = (validator: stencila.ValidatorTypes): boolean =>
+  (validator.meta?.nullable as boolean | undefined) === false
@@ -0,0 +1,174 @@
+/**
+ * @module util/datatable/stream
+ *
+ * Functions for streaming the rows of a `Datatable` in batches.
+ *
+ * Tabular data files (e.g. exports from instruments) can be too large to
+ * hold in memory as a `Datatable`. Codecs for tabular formats can implement
+ * `decodeStream` and `encodeStream` so that these files can be converted
+ * with bounded memory use.
+ */
+
+import stencila from '@stencila/schema'
+import { columnIndexToName } from '../../codecs/xlsx'
+
+/**
+ * The default number of rows in each batch.
+ */
+export const DEFAULT_BATCH_SIZE = 10000
+
+/**
+ * A `Datatable` with the values of its columns streamed as batches of rows.
+ */
+export interface DatatableStream {
+  /**
+   * The name of the datatable.
+   */
+  name?: string
+
+  /**
+   * The columns of the datatable.
+   *
+   * The `values` of each column are empty (they are in `rows`)
+   * but the columns may have other properties e.g. `validator`.
+   */
+  columns: stencila.DatatableColumn[]
+
+  /**
+   * Batches of rows of the datatable.
+   *
+   * Each row has one value for each column.
+   */
+  rows: AsyncIterable<stencila.Node[][]>
+}
+
+/**
+ * Create a `DatatableStream` from a `Datatable`.
+ *
+ * @param datatable The datatable to stream
+ * @param batchSize The number of rows in each batch
+ */
+export function datatableToStream(
+  datatable: stencila.Datatable,
+  batchSize = DEFAULT_BATCH_SIZE
+): DatatableStream {
+  const { name, columns } = datatable
+  const rowNum = columns.length > 0 ? columns[0].values.length : 0
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async function* rows(): AsyncGenerator<stencila.Node[][]> {
+    for (let start = 0; start < rowNum; start += batchSize) {
+      const end = Math.min(start + batchSize, rowNum)
+      const batch: stencila.Node[][] = []
+      for (let rowIndex = start; rowIndex < end; rowIndex++) {
+        batch.push(columns.map((column) => column.values[rowIndex] ?? null))
+      }
+      yield batch
+    }
+  }
+  return {
+    name,
+    columns: columns.map((column) => ({ ...column, values: [] })),
+    rows: rows(),
+  }
+}
+
+/**
+ * Create a `Datatable` by reading all the rows of a `DatatableStream`.
+ *
+ * @param stream The stream to read
+ */
+export async function streamToDatatable(
+  stream: DatatableStream
+): Promise<stencila.Datatable> {
+  const { name, columns } = stream
+  const values: stencila.Node[][] = columns.map(() => [])
+  for await (const batch of stream.rows) {
+    for (const row of batch) {
+      for (let columnIndex = 0; columnIndex < columns.length; columnIndex++) {
+        values[columnIndex].push(row[columnIndex] ?? null)
+      }
+    }
+  }
+  return stencila.datatable({
+    name,
+    columns: columns.map((column, index) => ({
+      ...column,
+      values: values[index],
+    })),
+  })
+}
+
+/**
+ * Group the items of an async iterable into batches.
+ *
+ * @param items The items to batch
+ * @param batchSize The maximum number of items in each batch
+ */
+export async function* batches<Item>(
+  items: AsyncIterable<Item>,
+  batchSize = DEFAULT_BATCH_SIZE
+): AsyncGenerator<Item[]> {
+  let batch: Item[] = []
+  for await (const item of items) {
+    batch.push(item)
+    if (batch.length >= batchSize) {
+      yield batch
+      batch = []
+    }
+  }
+  if (batch.length > 0) yield batch
+}
+
+/**
+ * Create a `DatatableStream` from rows of values.
+ *
+ * Unless the `header` option is specified, the first row is considered to
+ * be column names if all of its values are strings. If there is no header,
+ * columns are named A, B,..., AA, AB etc. The number of columns is
+ * determined by the first row and subsequent rows are padded
+ * with `null`s, or truncated, to that length.
+ *
+ * @param rows The rows to stream
+ * @param options.name The name of the datatable
+ * @param options.header Is the first row column names?
+ * @param options.batchSize The number of rows in each batch
+ */
+export async function rowsToStream(
+  rows: AsyncIterable<stencila.Node[]>,
+  options: { name?: string; header?: boolean; batchSize?: number } = {}
+): Promise<DatatableStream> {
+  const { name, batchSize = DEFAULT_BATCH_SIZE } = options
+  const iterator = rows[Symbol.asyncIterator]()
+  const first = await iterator.next()
+  const firstRow: stencila.Node[] = first.done === true ? [] : first.value
+
+  const hasNames =
+    options.header ??
+    (firstRow.length > 0 &&
+      firstRow.every((value) => typeof value === 'string'))
+  const names = hasNames
+    ? firstRow.map((value) => (typeof value === 'string' ? value : ''))
+    : firstRow.map((_, index) => columnIndexToName(index))
+
+  const columnNum = names.length
+  const normalize = (row: stencila.Node[]): stencila.Node[] =>
+    Array.from({ length: columnNum }, (_, index) => row[index] ?? null)
+
+  async function* values(): AsyncGenerator<stencila.Node[]> {
+    if (first.done === true) return
+    if (!hasNames) yield normalize(firstRow)
+    while (true) {
+      const next = await iterator.next()
+      if (next.done === true) return
+      yield normalize(next.value)
+    }
+  }
+
+  return {
+    name,
+    columns: names.map((name) =>
+      stencila.datatableColumn({ name, values: [] })
+    ),
+    rows: batches(values(), batchSize),
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * @module util/definitionLists
+ *
+ * The Stencila schema does not (yet) have a node type for definition lists
+ * (e.g. glossaries, descriptions of parameters). So that they survive
+ * conversion between formats, codecs represent them as a `List`
+ * (`meta.listType: 'definitions'`) in which each `ListItem` is a term
+ * and its definition:
+ *
+ *   - the first node of the item's `content` is a `Paragraph`
+ *     containing the term, and
+ *
+ *   - the remaining nodes are the block content of the definition
+ *     (multiple definitions of the same term are concatenated).
+ *
+ * Putting the term into the `content` of the item means that codecs
+ * which do not (yet) support definition lists will still encode the term
+ * (e.g. as the first paragraph of a list item).
+ */
+
+import stencila, { isA } from '@stencila/schema'
+
+/**
+ * The `listType` of a `List` of definitions.
+ */
+export const DEFINITION_LIST_TYPE = 'definitions'
+
+/**
+ * Create a `ListItem` for a term and its definition.
+ *
+ * @param term The inline content of the term
+ * @param definition The block content of the definition
+ */
+export const definitionListItem = (
+  term: stencila.InlineContent[],
+  definition: stencila.Node[] = []
+): stencila.ListItem =>
+  stencila.listItem({
+    content: [stencila.paragraph({ content: term }), ...definition],
+  })
+
+/**
+ * Get the term, and definition, of a `ListItem` in a definition list.
+ *
+ * If the item does not start with a `Paragraph` (e.g. if it was created
+ * without using `definitionListItem`), the term is empty.
+ */
+export const definitionListItemParts = (
+  item: stencila.ListItem
+): { term: stencila.InlineContent[]; definition: stencila.Node[] } => {
+  const [first, ...rest] = item.content ?? []
+  return isA('Paragraph', first)
+    ? { term: first.content, definition: rest }
+    : { term: [], definition: item.content ?? [] }
+}
+
+/**
+ * Create a definition `List`.
+ */
+export const definitionList = (items: stencila.ListItem[]): stencila.List =>
+  stencila.list({
+    order: 'unordered',
+    items,
+    meta: { listType: DEFINITION_LIST_TYPE },
+  })
+
+/**
+ * Is a node a definition `List`?
+ */
+export const isDefinitionList = (node: stencila.Node): node is stencila.List =>
+  isA('List', node) && node.meta?.listType === DEFINITION_LIST_TYPE
@@ -0,0 +1,109 @@
+import { getLogger } from '@stencila/logga'
+import * as stencila from '@stencila/schema'
+import fs from 'fs-extra'
+import path from 'path'
+import tempy from 'tempy'
+import { convert, encode } from '..'
+import { collect, Diagnostic, report, resolvePaths } from './diagnostics'
+
+describe('collect', () => {
+  test('logged warnings and errors', async () => {
+    const log = getLogger('encoda:foo')
+    const [result, diagnostics] = await collect(async () => {
+      log.warn('A warning')
+      log.info('Not collected')
+      await Promise.resolve()
+      log.error('An error')
+      return 42
+    })
+    expect(result).toBe(42)
+    expect(diagnostics).toEqual([
+      { severity: 'warning', codec: 'foo', message: 'A warning' },
+      { severity: 'error', codec: 'foo', message: 'An error' },
+    ])
+  })
+
+  test('reported diagnostics', async () => {
+    const node = stencila.paragraph({ content: [] })
+    const [, diagnostics] = await collect(() => {
+      report({ severity: 'warning', codec: 'bar', node, message: 'Dropped' })
+      return Promise.resolve()
+    })
+    expect(diagnostics).toEqual([
+      { severity: 'warning', codec: 'bar', node, message: 'Dropped' },
+    ])
+  })
+
+  test('nested and concurrent collections', async () => {
+    const log = getLogger('encoda:baz')
+    const [inners, outer] = await collect(() => {
+      log.warn('Outer')
+      return Promise.all(
+        ['One', 'Two'].map(async (message) => {
+          const [, inner] = await collect(async () => {
+            await Promise.resolve()
+            log.warn(message)
+          })
+          return inner
+        })
+      )
+    })
+    expect(inners.map((inner) => inner.map((d) => d.message))).toEqual([
+      ['One'],
+      ['Two'],
+    ])
+    expect(outer.map((d) => d.message)).toEqual(['Outer', 'One', 'Two'])
+  })
+})
+
+test('resolvePaths', () => {
+  const para = stencila.paragraph({ content: ['Two'] })
+  const root = stencila.article({
+    content: [stencila.paragraph({ content: ['One'] }), para],
+  })
+  const diagnostic: Diagnostic = {
+    severity: 'warning',
+    node: para,
+    message: '',
+  }
+  expect(resolvePaths([diagnostic], root)[0].path).toEqual(['content', 1])
+  expect(
+    resolvePaths([{ ...diagnostic, node: { ...para } }], root)[0].path
+  ).toEqual(['content', 1])
+})
+
+describe('diagnostics option', () => {
+  test('encode', async () => {
+    const datatable = stencila.datatable({ columns: [] })
+    const diagnostics: Diagnostic[] = []
+    await encode(
+      stencila.article({
+        content: [stencila.paragraph({ content: ['One'] }), datatable],
+      }),
+      { format: 'jats', diagnostics }
+    )
+    expect(diagnostics).toContainEqual({
+      severity: 'warning',
+      codec: 'jats',
+      node: datatable,
+      path: ['content', 1],
+      message: 'Unhandled node type when encoding to JATS: "Datatable"',
+    })
+  })
+
+  test('convert', async () => {
+    const input = tempy.file({ extension: 'csv' })
+    await fs.writeFile(input, 'a,b\n1,2\n3,"4\n')
+    const diagnostics: Diagnostic[] = []
+    await convert(input, path.join(tempy.directory(), 'out.json'), {
+      diagnostics,
+    })
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        severity: 'warning',
+        codec: 'csv',
+        location: { file: input, line: 3 },
+      }),
+    ])
+  })
+})
@@ -0,0 +1,248 @@
+/**
+ * @module util/diagnostics
+ *
+ * Functions for collecting diagnostics (e.g. warnings about lossy
+ * conversions) during decoding and encoding.
+ *
+ * Codecs can call `report` to provide a diagnostic with details
+ * such as the node, or source location, that it relates to.
+ * Warnings and errors logged in the usual way (with `log.warn` etc)
+ * are also collected, but with fewer details.
+ */
+
+import * as logga from '@stencila/logga'
+import * as stencila from '@stencila/schema'
+import { AsyncLocalStorage } from 'async_hooks'
+
+/**
+ * The severity of a diagnostic.
+ */
+export type DiagnosticSeverity = 'error' | 'warning'
+
+/**
+ * A location within a source file.
+ */
+export interface SourceLocation {
+  /**
+   * The path of the file.
+   */
+  file?: string
+
+  /**
+   * The line number (one-based).
+   */
+  line?: number
+
+  /**
+   * The column number (one-based).
+   */
+  column?: number
+}
+
+/**
+ * A diagnostic message arising from decoding or encoding.
+ */
+export interface Diagnostic {
+  severity: DiagnosticSeverity
+
+  /**
+   * The name of the codec (or other part of Encoda) that
+   * created the diagnostic e.g. `csv`.
+   */
+  codec?: string
+
+  /**
+   * The node that the diagnostic relates to.
+   */
+  node?: stencila.Node
+
+  /**
+   * The path to the `node` from the root node
+   * e.g. `['content', 2, 'content', 0]`.
+   */
+  path?: (string | number)[]
+
+  /**
+   * The location, in the source file, that the diagnostic relates to.
+   */
+  location?: SourceLocation
+
+  message: string
+}
+
+/**
+ * The diagnostics being collected in the current async context.
+ */
+const storage = new AsyncLocalStorage<Diagnostic[]>()
+
+/**
+ * Is a diagnostic currently being logged by `report`?
+ * Used to avoid collecting it twice.
+ */
+let reporting = false
+
+/**
+ * Report a diagnostic.
+ *
+ * The diagnostic is logged (as a warning or error) and, if diagnostics are
+ * being collected, added to them.
+ *
+ * @param diagnostic The diagnostic to report
+ */
+export function report(diagnostic: Diagnostic): void {
+  const { severity, codec, location, message } = diagnostic
+  storage.getStore()?.push(diagnostic)
+
+  const log = logga.getLogger(
+    codec !== undefined ? `encoda:${codec}` : 'encoda'
+  )
+  const prefix =
+    location?.file !== undefined
+      ? [location.file, location.line, location.column]
+          .filter((part) => part !== undefined)
+          .join(':') + ' '
+      : ''
+  reporting = true
+  try {
+    if (severity === 'error') log.error(prefix + message)
+    else log.warn(prefix + message)
+  } finally {
+    reporting = false
+  }
+}
+
+/**
+ * Call an async function, collecting the diagnostics that arise.
+ *
+ * Collections can be nested, in which case the diagnostics
+ * collected in the inner collection are also added to the outer.
+ *
+ * @param func The function to call
+ * @returns The result of the function and the diagnostics
+ */
+export async function collect<Result>(
+  func: () => Promise<Result>
+): Promise<[Result, Diagnostic[]]> {
+  const diagnostics: Diagnostic[] = []
+
+  // Collect warnings and errors logged by Encoda in this collection's
+  // async context (which excludes any nested collections)
+  const handler = logga.addHandler(
+    (data: logga.LogData) => {
+      if (storage.getStore() !== diagnostics || reporting) return
+      const codec = data.tag.startsWith('encoda:')
+        ? data.tag.slice('encoda:'.length)
+        : undefined
+      diagnostics.push({
+        severity: data.level === logga.LogLevel.error ? 'error' : 'warning',
+        ...(codec !== undefined ? { codec } : {}),
+        message: data.message,
+      })
+    },
+    {
+      maxLevel: logga.LogLevel.warn,
+      func: (data) => data.tag === 'encoda' || data.tag.startsWith('encoda:'),
+    }
+  )
+
+  let result
+  try {
+    result = await storage.run(diagnostics, func)
+  } finally {
+    logga.removeHandler(handler)
+  }
+  storage.getStore()?.push(...diagnostics)
+  return [result, diagnostics]
+}
+
+/**
+ * Resolve the `path` of diagnostics that have a `node` within a root node.
+ *
+ * The node is first searched for by identity and then, because it may have
+ * been transformed before encoding (e.g. by `toFiles`), by type and content.
+ *
+ * @param diagnostics The diagnostics to resolve paths for
+ * @param root The root node
+ */
+export function resolvePaths(
+  diagnostics: Diagnostic[],
+  root: stencila.Node
+): Diagnostic[] {
+  return diagnostics.map((diagnostic) => {
+    const { node, path } = diagnostic
+    if (node === undefined || path !== undefined) return diagnostic
+    const found =
+      nodePath(root, (other) => other === node) ??
+      nodePath(
+        root,
+        (other) =>
+          stencila.nodeType(other) === stencila.nodeType(node) &&
+          JSON.stringify(other) === JSON.stringify(node)
+      )
+    return found !== undefined ? { ...diagnostic, path: found } : diagnostic
+  })
+}
+
+/**
+ * Get the path to the first node, in depth first order,
+ * that matches a predicate.
+ */
+function nodePath(
+  node: stencila.Node,
+  predicate: (node: stencila.Node) => boolean,
+  path: (string | number)[] = []
+): (string | number)[] | undefined {
+  if (predicate(node)) return path
+  if (node === null || typeof node !== 'object') return undefined
+  const entries: [string | number, stencila.Node][] = Array.isArray(node)
+    ? node.map((child, index) => [index, child])
+    : Object.entries(node)
+  for (const [key, child] of entries) {
+    const found = nodePath(child, predicate, [...path, key])
+    if (found !== undefined) return found
+  }
+  return undefined
+}
+
+/**
+ * Call an async function, adding the diagnostics that arise to an array.
+ *
+ * This is a convenience function for implementing the `diagnostics`
+ * option of functions such as `read` and `convert`. If there is
+ * no array, the function is simply called.
+ *
+ * @param diagnostics The array to add diagnostics to
+ * @param func The function to call
+ * @param transform A function to transform the diagnostics e.g. to resolve paths
+ * @returns The result of the function
+ */
+export async function diagnose<Result>(
+  diagnostics: Diagnostic[] | undefined,
+  func: () => Promise<Result>,
+  transform: (diagnostics: Diagnostic[], result: Result) => Diagnostic[] = (
+    diagnostics
+  ) => diagnostics
+): Promise<Result> {
+  if (diagnostics === undefined) return func()
+  const [result, collected] = await collect(func)
+  diagnostics.push(...transform(collected, result))
+  return result
+}
+
+/**
+ * Set the source file of diagnostics that do not have one.
+ *
+ * @param diagnostics The diagnostics to set the source file of
+ * @param file The path of the source file
+ */
+export function setLocationFile(
+  diagnostics: Diagnostic[],
+  file?: string
+): Diagnostic[] {
+  if (file === undefined) return diagnostics
+  return diagnostics.map((diagnostic) =>
+    diagnostic.location?.file !== undefined
+      ? diagnostic
+      : { ...diagnostic, location: { ...diagnostic.location, file } }
+  )
+}
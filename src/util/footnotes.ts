@@ -0,0 +1,104 @@
+/**
+ * @module util/footnotes
+ *
+ * The Stencila schema does not (yet) have a node type for notes. So that
+ * footnotes survive conversion between formats, codecs represent them using
+ * two existing node types:
+ *
+ *   - a `Link` with `relation: 'footnote'` at the point of reference, whose
+ *     `target` is the `id` of the note (prefixed with `#`), and
+ *
+ *   - a `ListItem` with that `id`, and the note's content, within a `List`
+ *     of footnotes (`meta.listType: 'footnotes'`) at the end of the content.
+ *
+ * This mirrors the way that most formats (e.g. Markdown, HTML and JATS)
+ * separate the reference to a note from its content. Codecs for formats
+ * that have the content of the note inline (e.g. Pandoc) use `collectFootnotes`
+ * to obtain the content of each note.
+ */
+
+import stencila, { isA } from '@stencila/schema'
+
+/**
+ * The `relation` of a `Link` that refers to a footnote.
+ */
+export const FOOTNOTE_RELATION = 'footnote'
+
+/**
+ * The `listType` of a `List` of footnotes.
+ */
+export const FOOTNOTES_LIST_TYPE = 'footnotes'
+
+/**
+ * Create a `Link` that references a footnote.
+ *
+ * @param id The `id` of the footnote
+ * @param content The content of the link; usually the label of the footnote
+ */
+export const footnoteLink = (
+  id: string,
+  content: stencila.InlineContent[] = []
+): stencila.Link =>
+  stencila.link({
+    target: `#${id}`,
+    relation: FOOTNOTE_RELATION,
+    content,
+  })
+
+/**
+ * Is a node a `Link` that references a footnote?
+ */
+export const isFootnoteLink = (node: stencila.Node): node is stencila.Link =>
+  isA('Link', node) && node.relation === FOOTNOTE_RELATION
+
+/**
+ * Get the `id` of the footnote that a `Link` references.
+ */
+export const footnoteLinkId = (link: stencila.Link): string =>
+  link.target.startsWith('#') ? link.target.slice(1) : link.target
+
+/**
+ * Create a `List` of footnotes.
+ */
+export const footnotesList = (items: stencila.ListItem[]): stencila.List =>
+  stencila.list({
+    order: 'ascending',
+    items,
+    meta: { listType: FOOTNOTES_LIST_TYPE },
+  })
+
+/**
+ * Is a node a `List` of footnotes?
+ */
+export const isFootnotesList = (node: stencila.Node): node is stencila.List =>
+  isA('List', node) && node.meta?.listType === FOOTNOTES_LIST_TYPE
+
+/**
+ * Append a `List` of footnotes to content, if there are any footnotes.
+ */
+export const appendFootnotes = <Content extends stencila.Node>(
+  content: Content[],
+  items: stencila.ListItem[]
+): (Content | stencila.List)[] =>
+  items.length > 0 ? [...content, footnotesList(items)] : content
+
+/**
+ * Separate any `List`s of footnotes from other content.
+ *
+ * @returns The content without any footnote lists, and a map of
+ *          the `id` of each footnote to its content.
+ */
+export const collectFootnotes = <Content extends stencila.Node>(
+  content: Content[]
+): { content: Content[]; footnotes: Record<string, stencila.Node[]> } => {
+  const others: Content[] = []
+  const footnotes: Record<string, stencila.Node[]> = {}
+  for (const node of content) {
+    if (isFootnotesList(node)) {
+      for (const { id, content = [] } of node.items) {
+        if (id !== undefined) footnotes[id] = content
+      }
+    } else others.push(node)
+  }
+  return { content: others, footnotes }
+}
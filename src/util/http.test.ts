@@ -1,6 +1,10 @@
 import delay from 'delay'
+import fs from 'fs-extra'
 import nock from 'nock'
-import { get, cacheDelete } from './http'
+import path from 'path'
+import tempy from 'tempy'
+import cache from './app/cacheSync'
+import { get, cacheDelete, configure, download, withoutCache } from './http'
 
 describe('get', () => {
   it('will cache responses if caching headers are set', async () => {
@@ -28,4 +32,85 @@ describe('get', () => {
     response = await get('https://example.org/not-cached')
     expect(response.isFromCache).toBe(false)
   })
+
+  it('will not use the cache within withoutCache', async () => {
+    nock('https://example.org')
+      .get('/without-cache')
+      .reply(200, 'OK', { 'cache-control': 'max-age=60' })
+      .persist()
+    await cacheDelete('https://example.org/without-cache')
+
+    await get('https://example.org/without-cache')
+    const response = await withoutCache(() =>
+      get('https://example.org/without-cache')
+    )
+    expect(response.isFromCache).toBe(false)
+  })
+
+  it('will cache responses for hosts with a TTL override', async () => {
+    nock('https://ttl.example.org').get('/ttl').reply(200, 'OK').persist()
+    await cacheDelete('https://ttl.example.org/ttl')
+
+    cache.configure({ ttls: { 'ttl.example.org': 60 } })
+    try {
+      let response = await get('https://ttl.example.org/ttl')
+      expect(response.isFromCache).toBe(false)
+
+      response = await get('https://ttl.example.org/ttl')
+      expect(response.isFromCache).toBe(true)
+    } finally {
+      cache.configure()
+    }
+  })
+})
+
+describe('fixtures', () => {
+  const fixtures = tempy.directory()
+  afterEach(() => configure())
+
+  it('will record, and replay, responses', async () => {
+    nock('https://example.org')
+      .get('/recorded')
+      .query({ a: '1' })
+      .reply(200, 'Recorded', { 'content-type': 'text/plain' })
+    nock('https://example.org')
+      .get('/image.png')
+      .reply(200, Buffer.from([1, 2]))
+
+    configure({ mode: 'record', fixtures })
+    await get('https://example.org/recorded', { searchParams: { a: '1' } })
+    await download('https://example.org/image.png', tempy.file())
+    expect(await fs.readdir(fixtures)).toHaveLength(2)
+
+    // Replaying does not make requests (there are no more
+    // interceptors so that would fail)
+    configure({ mode: 'replay', fixtures })
+    const response = await get('https://example.org/recorded', {
+      searchParams: { a: '1' },
+    })
+    expect(response.statusCode).toBe(200)
+    expect(response.body).toBe('Recorded')
+    expect(response.headers['content-type']).toBe('text/plain')
+
+    const file = tempy.file()
+    await download('https://example.org/image.png', file)
+    expect([...(await fs.readFile(file))]).toEqual([1, 2])
+  })
+
+  it('will respond with 404, or throw, if there is no fixture', async () => {
+    configure({ mode: 'replay', fixtures: path.join(fixtures, 'none') })
+    expect((await get('https://example.org/missing')).statusCode).toBe(404)
+    await expect(
+      download('https://example.org/missing.png', tempy.file())
+    ).rejects.toThrow(/no fixture/)
+  })
+
+  it('will send requests to a stand-in server', async () => {
+    nock('http://localhost:8000')
+      .get('/example.org/stand-in')
+      .reply(200, 'Stand-in')
+
+    configure({ server: 'http://localhost:8000/' })
+    expect((await get('https://example.org/stand-in')).body).toBe('Stand-in')
+  })
 })
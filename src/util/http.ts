@@ -3,15 +3,28 @@
  *
  * Uses `got` to enable RFC 7234 compliant HTTP caching
  *
+ * So that conversions, and tests, can be run deterministically without
+ * network access, requests can be recorded to, and replayed from, a
+ * directory of fixture files. Requests can also be sent to a local stand-in
+ * server instead of the original host. See `configure` for details.
+ *
+ * Responses are cached (see `./app/cacheSync`) unless the request is
+ * made within `withoutCache`.
+ *
  * @module util/http
  */
 
 import { getLogger } from '@stencila/logga'
-import fs from 'fs'
-import got, { Response } from 'got'
+import { AsyncLocalStorage } from 'async_hooks'
+import crypto from 'crypto'
+import fs from 'fs-extra'
+import got from 'got'
+import { IncomingHttpHeaders } from 'http'
+import path from 'path'
 import stream from 'stream'
 import util from 'util'
 import cache from './app/cacheSync'
+import data from './app/data'
 
 const pipeline = util.promisify(stream.pipeline)
 
@@ -29,6 +42,105 @@ const http = got.extend({
   },
 })
 
+/**
+ * A `got` instance for HTTP requests made
+ * without caching.
+ */
+const uncached = http.extend({ cache: false })
+
+/**
+ * Storage for whether or not to use the cache for
+ * requests made within the current async context.
+ */
+const noCache = new AsyncLocalStorage<boolean>()
+
+/**
+ * Get the `got` instance to use for a request.
+ */
+const client = (): typeof http =>
+  noCache.getStore() === true ? uncached : http
+
+/**
+ * The mode for HTTP requests:
+ *
+ * - `live`: make requests to the network (the default)
+ * - `record`: make requests to the network and record responses as fixtures
+ * - `replay`: do not make requests to the network, instead respond with fixtures
+ */
+export type HttpMode = 'live' | 'record' | 'replay'
+
+export interface HttpOptions {
+  /**
+   * The mode for HTTP requests.
+   * Defaults to the `ENCODA_HTTP_MODE` environment variable, or `live`.
+   */
+  mode?: HttpMode
+
+  /**
+   * The directory of fixtures to record to, and replay from.
+   * Defaults to the `ENCODA_HTTP_FIXTURES` environment variable,
+   * or `fixtures` in this app's data directory.
+   */
+  fixtures?: string
+
+  /**
+   * The URL of a stand-in server to send requests to instead of the original
+   * host (e.g. `http://localhost:8000`). The host and path of the original URL
+   * are used as the path e.g. `https://api.crossref.org/works` is requested as
+   * `http://localhost:8000/api.crossref.org/works`.
+   * Defaults to the `ENCODA_HTTP_SERVER` environment variable.
+   */
+  server?: string
+}
+
+/**
+ * A response to a HTTP request.
+ */
+export interface HttpResponse {
+  url: string
+  statusCode: number
+  statusMessage?: string
+  headers: IncomingHttpHeaders
+  body: string
+  isFromCache: boolean
+}
+
+/**
+ * A recorded response, as stored in a fixture file.
+ */
+interface Fixture {
+  url: string
+  statusCode: number
+  statusMessage?: string
+  headers: IncomingHttpHeaders
+  body: string
+  encoding: 'utf8' | 'base64'
+}
+
+const defaults = (): Required<HttpOptions> => ({
+  mode: (process.env.ENCODA_HTTP_MODE as HttpMode | undefined) ?? 'live',
+  fixtures: process.env.ENCODA_HTTP_FIXTURES ?? path.join(data, 'fixtures'),
+  server: process.env.ENCODA_HTTP_SERVER ?? '',
+})
+
+let config = defaults()
+
+/**
+ * Configure HTTP requests.
+ *
+ * Options that are not specified are reset to their defaults.
+ *
+ * @param options Options for HTTP requests e.g. `{ mode: 'replay' }`
+ */
+export function configure(options: HttpOptions = {}): void {
+  const { mode, fixtures, server } = defaults()
+  config = {
+    mode: options.mode ?? mode,
+    fixtures: options.fixtures ?? fixtures,
+    server: options.server ?? server,
+  }
+}
+
 /**
  * Get content from a URL
  *
@@ -38,15 +150,57 @@ const http = got.extend({
 export async function get(
   url: string,
   options: any = {}
-): Promise<Response<string>> {
+): Promise<HttpResponse> {
+  const file = fixturePath(url, options)
+
+  if (config.mode === 'replay') {
+    const fixture = await readFixture(file)
+    if (fixture === undefined) {
+      log.warn(`Unable to get ${url}: no fixture at ${file}`)
+      return { url, statusCode: 404, headers: {}, body: '', isFromCache: false }
+    }
+    const { encoding, body, ...rest } = fixture
+    return {
+      ...rest,
+      body: Buffer.from(body, encoding).toString(),
+      isFromCache: false,
+    }
+  }
+
+  let response: HttpResponse
   try {
-    return await http.get(url, options)
+    const {
+      statusCode,
+      statusMessage,
+      headers,
+      body,
+      isFromCache,
+    } = await client().get(target(url), options)
+    response = { url, statusCode, statusMessage, headers, body, isFromCache }
   } catch (error) {
-    const { message, response = {} } = error
-    const { body = '' } = response
+    const { message, response: errorResponse = {} } = error
+    const {
+      statusCode = 0,
+      statusMessage,
+      headers = {},
+      body = '',
+    } = errorResponse
     log.warn(`Unable to get ${url}: ${message}: ${body}`)
-    return response
+    response = {
+      url,
+      statusCode,
+      statusMessage,
+      headers,
+      body,
+      isFromCache: false,
+    }
   }
+
+  if (config.mode === 'record' && response.statusCode > 0) {
+    const { isFromCache, body, ...rest } = response
+    await writeFixture(file, { ...rest, body, encoding: 'utf8' })
+  }
+  return response
 }
 
 /**
@@ -56,7 +210,46 @@ export async function get(
  * @param filePath The file path to download to
  */
 export async function download(url: string, filePath: string): Promise<void> {
-  return pipeline(http.stream(url), fs.createWriteStream(filePath))
+  const file = fixturePath(url)
+
+  if (config.mode === 'replay') {
+    const fixture = await readFixture(file)
+    if (fixture === undefined)
+      throw new Error(`Unable to download ${url}: no fixture at ${file}`)
+    return fs.writeFile(filePath, Buffer.from(fixture.body, fixture.encoding))
+  }
+
+  if (config.mode === 'record') {
+    const {
+      statusCode,
+      statusMessage,
+      headers,
+      body,
+    } = await client().get(target(url), { responseType: 'buffer' })
+    await writeFixture(file, {
+      url,
+      statusCode,
+      statusMessage,
+      headers,
+      body: body.toString('base64'),
+      encoding: 'base64',
+    })
+    return fs.writeFile(filePath, body)
+  }
+
+  return pipeline(client().stream(target(url)), fs.createWriteStream(filePath))
+}
+
+/**
+ * Run a function without using the cache for any
+ * HTTP requests that it makes.
+ *
+ * Responses are neither read from, nor written to, the cache.
+ *
+ * @param func The function to run
+ */
+export function withoutCache<Type>(func: () => Promise<Type>): Promise<Type> {
+  return noCache.run(true, func)
 }
 
 /**
@@ -67,3 +260,64 @@ export async function download(url: string, filePath: string): Promise<void> {
 export function cacheDelete(url: string): boolean {
   return cache.delete('cacheable-request:GET:' + url)
 }
+
+/**
+ * Get the URL to make a request to, taking into account
+ * any stand-in server.
+ */
+function target(url: string): string {
+  const { server } = config
+  if (server === '') return url
+  const { host, pathname, search } = new URL(url)
+  return `${server.replace(/\/$/, '')}/${host}${pathname}${search}`
+}
+
+/**
+ * Get the path of the fixture file for a request.
+ *
+ * The file name is derived from the URL (including any `searchParams` option)
+ * and `Accept` header (which may change the response), with a hash to
+ * ensure uniqueness.
+ */
+function fixturePath(
+  url: string,
+  options: {
+    searchParams?: ConstructorParameters<typeof URLSearchParams>[0]
+    headers?: Record<string, string>
+  } = {}
+): string {
+  const full = new URL(url)
+  const { searchParams, headers = {} } = options
+  if (searchParams !== undefined)
+    new URLSearchParams(searchParams).forEach((value, name) =>
+      full.searchParams.append(name, value)
+    )
+  const accept = Object.entries(headers).find(
+    ([name]) => name.toLowerCase() === 'accept'
+  )?.[1]
+  const hash = crypto
+    .createHash('sha1')
+    .update(`${full.href} ${accept ?? ''}`)
+    .digest('hex')
+    .slice(0, 12)
+  const name = `${full.host}${full.pathname}`
+    .replace(/[^\w.-]+/g, '_')
+    .slice(0, 100)
+  return path.join(config.fixtures, `${name}-${hash}.json`)
+}
+
+/**
+ * Read a fixture file, if it exists.
+ */
+async function readFixture(file: string): Promise<Fixture | undefined> {
+  if (!(await fs.pathExists(file))) return undefined
+  return fs.readJSON(file) as Promise<Fixture>
+}
+
+/**
+ * Write a fixture file.
+ */
+async function writeFixture(file: string, fixture: Fixture): Promise<void> {
+  await fs.ensureDir(path.dirname(file))
+  await fs.writeJSON(file, fixture, { spaces: 2 })
+}
@@ -0,0 +1,80 @@
+/**
+ * @module util/identifiers
+ *
+ * Functions for getting the identifiers (e.g. DOIs, ORCID iDs) of nodes.
+ *
+ * Identifiers may be recorded in several places on a node. Most codecs put
+ * them in the `identifiers` property, either as strings or as `PropertyValue`s
+ * whose `name` (or `propertyID`) is the type of identifier e.g. `doi`.
+ * Some identifiers, such as ORCID iDs, are used as the node's `id` or `url`.
+ */
+
+import * as stencila from '@stencila/schema'
+
+/**
+ * Does a `PropertyValue` identifier have a name?
+ *
+ * The name is compared, case insensitively, to both the `name` and the
+ * `propertyID` (which may be a URI ending with the name e.g.
+ * `https://registry.identifiers.org/registry/doi`).
+ */
+function hasName(identifier: stencila.PropertyValue, name: string): boolean {
+  const lower = name.toLowerCase()
+  const { name: idName, propertyID } = identifier
+  return (
+    idName?.toLowerCase() === lower ||
+    (propertyID !== undefined &&
+      (propertyID.toLowerCase() === lower ||
+        propertyID.toLowerCase().endsWith(`/${lower}`)))
+  )
+}
+
+/**
+ * Get the value of an identifier of a particular type.
+ *
+ * @param node The node to get the identifier of
+ * @param name The type of identifier e.g. `doi`
+ * @returns The value of the first `PropertyValue` identifier with the name
+ */
+export function getIdentifier(
+  node: stencila.Node,
+  name: string
+): string | undefined {
+  if (!stencila.isEntity(node)) return undefined
+  const { identifiers = [] } = node as stencila.Thing
+  const identifier = identifiers.find(
+    (identifier): identifier is stencila.PropertyValue =>
+      typeof identifier !== 'string' && hasName(identifier, name)
+  )
+  return identifier !== undefined ? `${identifier.value}` : undefined
+}
+
+/**
+ * Find an identifier that matches a regular expression.
+ *
+ * All `identifiers` (regardless of their type), and the `id` and `url`
+ * of the node, are tested.
+ *
+ * @param node The node to find the identifier of
+ * @param regex The regular expression to match
+ * @returns The first match, if any
+ */
+export function matchIdentifier(
+  node: stencila.Node,
+  regex: RegExp
+): RegExpExecArray | undefined {
+  if (!stencila.isEntity(node)) return undefined
+  const { identifiers = [], id, url } = node as stencila.Thing
+  const values = [
+    ...identifiers.map((identifier) =>
+      typeof identifier === 'string' ? identifier : `${identifier.value}`
+    ),
+    id,
+    url,
+  ]
+  for (const value of values) {
+    if (value === undefined) continue
+    const match = regex.exec(value)
+    if (match !== null) return match
+  }
+}
@@ -0,0 +1,58 @@
+import { article, paragraph } from '@stencila/schema'
+import {
+  findRange,
+  formatRange,
+  getRange,
+  removeRanges,
+  setRange,
+  SourceRange,
+} from './positions'
+
+const range: SourceRange = {
+  file: 'doc.md',
+  start: { line: 3, column: 1 },
+  end: { line: 3, column: 12 },
+}
+
+test('setRange and getRange', () => {
+  const para = setRange(paragraph({ content: ['One'] }), range)
+  expect(getRange(para)).toEqual(range)
+
+  // Does not change existing ranges, or primitives
+  const other = { ...range, start: { line: 1, column: 1 } }
+  expect(getRange(setRange(para, other))).toEqual(range)
+  expect(setRange('text', range)).toBe('text')
+})
+
+test('findRange', () => {
+  const root = article({
+    content: [
+      paragraph({ content: ['One'] }),
+      setRange(paragraph({ content: ['Two'] }), range),
+    ],
+  })
+  expect(findRange(root, ['content', 1, 'content', 0])).toEqual(range)
+  expect(findRange(root, ['content', 0])).toBeUndefined()
+})
+
+test('formatRange', () => {
+  expect(formatRange(range)).toBe('doc.md:3:1')
+  expect(formatRange({ start: { line: 3, column: 1 } })).toBe('3:1')
+})
+
+test('removeRanges', () => {
+  const root = article({
+    content: [
+      setRange(paragraph({ content: ['One'], meta: { foo: 'bar' } }), range),
+      setRange(paragraph({ content: ['Two'] }), range),
+    ],
+  })
+  expect(removeRanges(root)).toEqual(
+    article({
+      content: [
+        paragraph({ content: ['One'], meta: { foo: 'bar' } }),
+        paragraph({ content: ['Two'] }),
+      ],
+    })
+  )
+})
@@ -0,0 +1,118 @@
+/**
+ * @module util/positions
+ *
+ * Functions for recording, and getting, the range in a source file
+ * that a node was decoded from.
+ *
+ * Codecs that support the `positions` decode option (currently `md` and
+ * `jats`) record the range of each node in its `meta.sourceRange`
+ * property. This is used to provide locations in error messages e.g.
+ * when a node is invalid, or when processing a directive fails.
+ */
+
+import * as stencila from '@stencila/schema'
+import { transformSync } from './transform'
+
+/**
+ * A position in a source file.
+ */
+export interface SourcePosition {
+  /**
+   * The line number (one-based).
+   */
+  line: number
+
+  /**
+   * The column number (one-based).
+   */
+  column: number
+}
+
+/**
+ * A range in a source file.
+ */
+export interface SourceRange {
+  /**
+   * The path of the file.
+   */
+  file?: string
+
+  start: SourcePosition
+
+  end?: SourcePosition
+}
+
+/**
+ * Record the source range of a node.
+ *
+ * Only entities (i.e. not primitives, such as strings) can have a source
+ * range. Nodes which already have one (e.g. recorded when decoding
+ * a child element) are not changed.
+ *
+ * @param node The node to record the source range for
+ * @param range The source range
+ * @returns The node with its source range
+ */
+export function setRange(
+  node: stencila.Node,
+  range: SourceRange
+): stencila.Node {
+  if (!stencila.isEntity(node) || getRange(node) !== undefined) return node
+  return { ...node, meta: { ...node.meta, sourceRange: range } }
+}
+
+/**
+ * Get the source range of a node.
+ *
+ * @param node The node to get the source range of
+ */
+export function getRange(node: stencila.Node): SourceRange | undefined {
+  return stencila.isEntity(node)
+    ? (node.meta?.sourceRange as SourceRange | undefined)
+    : undefined
+}
+
+/**
+ * Remove the source ranges of a node and its descendants.
+ *
+ * @param node The node to remove source ranges from
+ */
+export function removeRanges(node: stencila.Node): stencila.Node {
+  return transformSync(node, (node) => {
+    if (getRange(node) === undefined) return node
+    const { sourceRange, ...meta } = (node as stencila.Entity).meta ?? {}
+    const { meta: _, ...rest } = node as stencila.Entity
+    return Object.keys(meta).length > 0 ? { ...rest, meta } : rest
+  })
+}
+
+/**
+ * Find the source range of a node, or its closest ancestor that has
+ * one, at a path within a root node.
+ *
+ * @param root The root node
+ * @param path The path to the node e.g. `['content', 2]`
+ */
+export function findRange(
+  root: stencila.Node,
+  path: (string | number)[]
+): SourceRange | undefined {
+  let range = getRange(root)
+  let node: stencila.Node = root
+  for (const key of path) {
+    if (node === null || typeof node !== 'object') break
+    node = (node as Record<string | number, stencila.Node>)[key]
+    range = getRange(node) ?? range
+  }
+  return range
+}
+
+/**
+ * Format a source range as a location e.g. `article.md:12:3`.
+ *
+ * @param range The source range
+ */
+export function formatRange(range: SourceRange): string {
+  const { file, start } = range
+  return `${file !== undefined ? file + ':' : ''}${start.line}:${start.column}`
+}
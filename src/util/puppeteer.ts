@@ -6,10 +6,10 @@ import { getLogger } from '@stencila/logga'
 import AsyncLock from 'async-lock'
 import fs from 'fs-extra'
 import path from 'path'
-import puppeteer, { Page, Browser } from 'puppeteer'
+import puppeteer, { Page, Browser, PDFFormat } from 'puppeteer'
 import isPackaged from './app/isPackaged'
 
-export { Page, Browser }
+export { Page, Browser, PDFFormat }
 
 const log = getLogger('encoda:puppeteer')
 
@@ -68,7 +68,9 @@ export async function startup(): Promise<Browser> {
           pipe: true,
           // Use /tmp instead of /dev/shm to avoid issues like: https://dev.azure.com/stencila/stencila/_build/results?buildId=205&view=logs&j=b17395f6-68a3-5682-0476-d3f6f1043109&t=e59dc482-4022-5828-e063-e9c9e022e048&l=440
           // See https://github.com/puppeteer/puppeteer/blob/master/docs/troubleshooting.md#tips
-          args: ['--disable-dev-shm-usage'],
+          // Tagged PDFs include the logical structure of the document (e.g. headings,
+          // tables) for use by assistive technologies
+          args: ['--disable-dev-shm-usage', '--export-tagged-pdf'],
         })
         log.debug(`Browser launched. pid: ${browser.process().pid}`)
       }
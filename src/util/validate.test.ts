@@ -34,3 +34,18 @@ describe('isValid', () => {
     expect(await isValid({ type: 'Thing' }, 'Thing')).toBe(true)
   })
 })
+
+describe('validate with source positions', () => {
+  it('includes the location of the closest node with one', async () => {
+    const node = {
+      type: 'Paragraph',
+      content: 42,
+      meta: {
+        sourceRange: { file: 'doc.md', start: { line: 3, column: 1 } },
+      },
+    }
+    await expect(validate(node)).rejects.toThrow(
+      /^\/content: type should be array \(at doc.md:3:1\)$/
+    )
+  })
+})
@@ -1,10 +1,14 @@
 import stencila from '@stencila/schema'
 import Ajv from 'ajv'
+import { findRange, formatRange } from './positions'
 import { getErrorMessage, getValidator } from './schemas'
 
 /**
  * Validate a node against a type schema
  *
+ * If the node was decoded with the `positions` option, the error
+ * message includes the source locations of the invalid nodes.
+ *
  * @param node The node to validate
  * @param type The type to validate against
  */
@@ -17,9 +21,19 @@ export async function validate<Key extends keyof stencila.Types>(
   try {
     await validator(node)
   } catch (error) {
-    if (error instanceof Ajv.ValidationError)
-      throw new Error(getErrorMessage(validator, node, error.errors))
-    else throw error
+    if (error instanceof Ajv.ValidationError) {
+      const message = getErrorMessage(validator, node, error.errors)
+      const locations = new Set<string>()
+      for (const { dataPath } of error.errors) {
+        const range = findRange(node, pointerToPath(dataPath))
+        if (range !== undefined) locations.add(formatRange(range))
+      }
+      throw new Error(
+        locations.size > 0
+          ? `${message} (at ${[...locations].join(', ')})`
+          : message
+      )
+    } else throw error
   }
 }
 
@@ -40,3 +54,13 @@ export async function isValid<Key extends keyof stencila.Types>(
     return false
   }
 }
+
+/**
+ * Convert a JSON pointer (as used in Ajv's `dataPath`) to a path
+ * e.g. `/content/2` to `['content', '2']`
+ */
+const pointerToPath = (pointer: string): string[] =>
+  pointer
+    .split('/')
+    .slice(1)
+    .map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'))
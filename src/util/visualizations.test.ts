@@ -0,0 +1,51 @@
+import jsdom from 'jsdom'
+import { visualizationRenderer } from './visualizations'
+
+/**
+ * Run the renderer on a document with a Plotly visualization
+ * and return the visualization element once it has been rendered.
+ */
+const render = async (
+  plotly?: (target: HTMLElement) => Promise<void>
+): Promise<Element> => {
+  const dom = new jsdom.JSDOM(
+    `<figure data-visualization="plotly">
+      <img src="plot.png">
+      <script type="application/json">{"data": []}</script>
+    </figure>`,
+    { runScripts: 'outside-only' }
+  )
+  const { window } = dom
+  if (plotly !== undefined)
+    Object.assign(window, { Plotly: { newPlot: plotly } })
+  window.eval(visualizationRenderer)
+  window.dispatchEvent(new window.Event('load'))
+  // Wait for the render promise to be settled
+  await new Promise((resolve) => setTimeout(resolve, 10))
+  return window.document.querySelector('figure') as Element
+}
+
+describe('visualizationRenderer', () => {
+  test('replaces the image once rendered', async () => {
+    const elem = await render((target) => {
+      target.textContent = 'Plot'
+      return Promise.resolve()
+    })
+    expect(elem.querySelector('img')).toBeNull()
+    expect(elem.querySelector('div')?.textContent).toBe('Plot')
+  })
+
+  test('keeps the image if the library is not loaded', async () => {
+    const elem = await render()
+    expect(elem.querySelector('img')).not.toBeNull()
+    expect(elem.querySelector('div')).toBeNull()
+  })
+
+  test('keeps the image if rendering fails', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const elem = await render(() => Promise.reject(new Error('Oops')))
+    error.mockRestore()
+    expect(elem.querySelector('img')).not.toBeNull()
+    expect(elem.querySelector('div')).toBeNull()
+  })
+})
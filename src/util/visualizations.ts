@@ -0,0 +1,133 @@
+/**
+ * @module util/visualizations
+ *
+ * Functions for interactive visualizations (e.g. Plotly and Vega-Lite plots).
+ *
+ * There is no specific node type for interactive visualizations in the
+ * Stencila schema. Instead, they are represented as an `ImageObject` with
+ * the media type of the visualization as its `format` (e.g. `application/vnd.vegalite.v4+json`)
+ * and the JSON specification of the visualization as the only item in its `content`.
+ * The `contentUrl` of the image is a static rendering of the visualization
+ * (e.g. a PNG) if one is available, or otherwise, a data URI of the specification.
+ */
+
+import * as stencila from '@stencila/schema'
+
+/**
+ * The libraries, and the media types of the visualizations that they render.
+ */
+export type VisualizationLibrary = 'plotly' | 'vega'
+
+/**
+ * Matches the media types of the visualizations that are supported
+ * e.g. `application/vnd.plotly.v1+json`, `application/vnd.vegalite.v4+json`,
+ * `application/vnd.vega.v5+json`.
+ */
+const mediaTypeRegex = /^application\/vnd\.(plotly\.v1|vega|vegalite)(\.v\d+)?\+json$/
+
+/**
+ * The URLs of the scripts required to render the visualizations of each library.
+ */
+const libraryScripts: Record<VisualizationLibrary, string[]> = {
+  plotly: ['https://unpkg.com/plotly.js-dist@1/plotly.js'],
+  vega: [
+    'https://unpkg.com/vega@5',
+    'https://unpkg.com/vega-lite@4',
+    'https://unpkg.com/vega-embed@6',
+  ],
+}
+
+/**
+ * Get the library that renders visualizations of a media type.
+ *
+ * @param mediaType The media type e.g. `application/vnd.vegalite.v4+json`
+ * @returns The library, or `undefined` if the media type is not
+ *          for a supported visualization
+ */
+export function visualizationLibrary(
+  mediaType: string
+): VisualizationLibrary | undefined {
+  const match = mediaTypeRegex.exec(mediaType)
+  if (match === null) return undefined
+  return match[1] === 'plotly.v1' ? 'plotly' : 'vega'
+}
+
+/**
+ * Is a node an interactive visualization?
+ */
+export function isVisualization(
+  node: stencila.Node
+): node is stencila.ImageObject {
+  if (!stencila.isA('ImageObject', node)) return false
+  const { format, content = [] } = node
+  return (
+    format !== undefined &&
+    visualizationLibrary(format) !== undefined &&
+    typeof content[0] === 'object' &&
+    content[0] !== null
+  )
+}
+
+/**
+ * Create an interactive visualization.
+ *
+ * @param mediaType The media type of the visualization
+ * @param spec The JSON specification of the visualization
+ * @param contentUrl The URL of a static rendering of the visualization
+ */
+export function visualization(
+  mediaType: string,
+  spec: stencila.Node,
+  contentUrl?: string
+): stencila.ImageObject {
+  return stencila.imageObject({
+    contentUrl:
+      contentUrl ??
+      `data:${mediaType};base64,${Buffer.from(JSON.stringify(spec)).toString(
+        'base64'
+      )}`,
+    format: mediaType,
+    content: [spec],
+  })
+}
+
+/**
+ * Get the URLs of the scripts required to render visualizations.
+ *
+ * @param libraries The libraries used by the visualizations
+ */
+export function visualizationScripts(
+  libraries: Iterable<VisualizationLibrary>
+): string[] {
+  return [...new Set(libraries)].flatMap((library) => libraryScripts[library])
+}
+
+/**
+ * A script which renders each of the visualizations in a HTML
+ * document (as encoded by the `html` codec) using the libraries loaded
+ * from `visualizationScripts`.
+ *
+ * The static image of a visualization is only removed once it has been
+ * rendered, so that it remains if the library could not be loaded (e.g. when
+ * offline) or if rendering fails.
+ */
+export const visualizationRenderer = `window.addEventListener('load', function () {
+  document.querySelectorAll('[data-visualization]').forEach(function (elem) {
+    var library = elem.getAttribute('data-visualization')
+    if (library === 'plotly' ? typeof Plotly === 'undefined' : typeof vegaEmbed === 'undefined') return
+    var target = document.createElement('div')
+    var rendered
+    try {
+      var spec = JSON.parse(elem.querySelector('script').textContent)
+      elem.appendChild(target)
+      if (library === 'plotly') rendered = Plotly.newPlot(target, spec.data, spec.layout, spec.config)
+      else rendered = vegaEmbed(target, spec, { actions: false })
+    } catch (error) {
+      rendered = Promise.reject(error)
+    }
+    Promise.resolve(rendered).then(
+      function () { elem.querySelectorAll('img').forEach(function (img) { img.remove() }) },
+      function (error) { target.remove(); console.error(error) }
+    )
+  })
+})`
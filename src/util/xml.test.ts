@@ -1,4 +1,4 @@
-import { elem, dump, Element, firstByType, load } from './xml'
+import { elem, dump, Element, firstByType, load, range } from './xml'
 
 test('elem', () => {
   expect(elem('tag')).toEqual({
@@ -83,3 +83,33 @@ describe('firstByType', () => {
     expect(match).toHaveProperty('text', 'some@email.io')
   })
 })
+
+test('load with positions', () => {
+  const doc = load(`<?xml version="1.0"?>
+<a>
+  <b>text</b><c/>
+</a>`)
+  expect(range(doc.elements?.[0] as Element)).toBeUndefined()
+
+  const docWithPositions = load(
+    `<?xml version="1.0"?>
+<a>
+  <b>text</b><c/>
+</a>`,
+    { positions: true }
+  )
+  const a = docWithPositions.elements?.[0] as Element
+  const [b, c] = a.elements?.filter((elem) => elem.type === 'element') ?? []
+  expect(range(a)).toEqual({
+    start: { line: 2, column: 1 },
+    end: { line: 4, column: 5 },
+  })
+  expect(range(b)).toEqual({
+    start: { line: 3, column: 3 },
+    end: { line: 3, column: 14 },
+  })
+  expect(range(c)).toEqual({
+    start: { line: 3, column: 14 },
+    end: { line: 3, column: 18 },
+  })
+})
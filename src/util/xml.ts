@@ -14,18 +14,97 @@
  */
 /* eslint-disable @typescript-eslint/strict-boolean-expressions */
 
+import sax from 'sax'
 import xmljs from 'xml-js'
+import { SourceRange } from './positions'
 
 export type Element = xmljs.Element
 export type Attributes = xmljs.Attributes
 
+/**
+ * The source ranges of elements, recorded when
+ * loading with the `positions` option.
+ */
+const ranges = new WeakMap<Element, SourceRange>()
+
 /**
  * Load (i.e. parse) a XML document from a string
  *
  * @param xml The XML string to load
+ * @param options.positions Record the source range of each element (see `range`)
+ */
+export function load(
+  xml: string,
+  options: { positions?: boolean } = {}
+): Element {
+  const doc = xmljs.xml2js(xml, { compact: false }) as Element
+  if (options.positions) recordRanges(doc, xml)
+  return doc
+}
+
+/**
+ * Get the source range of an element that was loaded
+ * with the `positions` option.
+ *
+ * @param elem The element
  */
-export function load(xml: string): Element {
-  return xmljs.xml2js(xml, { compact: false }) as Element
+export function range(elem: Element): SourceRange | undefined {
+  return ranges.get(elem)
+}
+
+/**
+ * Record the source ranges of elements.
+ *
+ * `xml-js` does not provide positions so this re-parses the XML
+ * using `sax` (the same parser that `xml-js` uses) and matches
+ * start and end tags to elements in document order.
+ */
+function recordRanges(doc: Element, xml: string): void {
+  // Offsets of the start of each line, for converting
+  // character offsets to line and column numbers
+  const lineStarts = [0]
+  for (let index = 0; index < xml.length; index++) {
+    if (xml[index] === '\n') lineStarts.push(index + 1)
+  }
+  const position = (offset: number): { line: number; column: number } => {
+    // Binary search for the last line starting at or before the offset
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (lineStarts[mid] <= offset) low = mid
+      else high = mid - 1
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 }
+  }
+
+  const found: SourceRange[] = []
+  const open: SourceRange[] = []
+  const parser = sax.parser(true, {})
+  parser.onopentag = () => {
+    // `startTagPosition` is the offset after the `<`
+    const range = { start: position(parser.startTagPosition - 1) }
+    found.push(range)
+    open.push(range)
+  }
+  parser.onclosetag = () => {
+    const range = open.pop()
+    if (range !== undefined) range.end = position(parser.position)
+  }
+  try {
+    parser.write(xml).close()
+  } catch {
+    return
+  }
+
+  const elements: Element[] = []
+  const walk = (elem: Element): void => {
+    if (elem.type === 'element') elements.push(elem)
+    elem.elements?.forEach(walk)
+  }
+  walk(doc)
+  if (elements.length !== found.length) return
+  elements.forEach((elem, index) => ranges.set(elem, found[index]))
 }
 
 /**
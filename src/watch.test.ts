@@ -0,0 +1,76 @@
+import * as stencila from '@stencila/schema'
+import fs from 'fs-extra'
+import path from 'path'
+import tempy from 'tempy'
+import { dependencies, watch } from './watch'
+
+describe('dependencies', () => {
+  test('includes and links with reading directives', () => {
+    const article = stencila.article({
+      content: [
+        stencila.include({ source: 'a.md' }),
+        stencila.paragraph({
+          content: [
+            stencila.link({
+              content: [],
+              target: 'b.csv',
+              meta: { import: 'b' },
+            }),
+            stencila.link({
+              content: [],
+              target: 'c.json',
+              meta: { validate: '' },
+            }),
+            stencila.link({
+              content: [],
+              target: 'd.html',
+              meta: { export: '' },
+            }),
+            stencila.link({ content: [], target: 'e.md' }),
+          ],
+        }),
+      ],
+    })
+    expect(dependencies(article, '/dir')).toEqual([
+      path.resolve('/dir', 'a.md'),
+      path.resolve('/dir', 'b.csv'),
+      path.resolve('/dir', 'c.json'),
+    ])
+  })
+
+  test('ignores URLs and anchors', () => {
+    const article = stencila.article({
+      content: [
+        stencila.include({ source: 'https://example.org/a.md' }),
+        stencila.include({ source: '#a' }),
+        stencila.include({ source: '../a.md' }),
+      ],
+    })
+    expect(dependencies(article, '/dir/sub')).toEqual([
+      path.resolve('/dir', 'a.md'),
+    ])
+  })
+})
+
+test('watch', async () => {
+  const dir = tempy.directory()
+  const input = path.join(dir, 'input.md')
+  const output = path.join(dir, 'output.json')
+  await fs.writeFile(input, 'One')
+
+  const unwatch = await watch(input, output, { debounce: 50 })
+  try {
+    expect(await fs.readFile(output, 'utf8')).toMatch(/One/)
+
+    await fs.writeFile(input, 'Two')
+    let json = ''
+    for (let attempt = 0; attempt < 100; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      json = await fs.readFile(output, 'utf8')
+      if (json.includes('Two')) break
+    }
+    expect(json).toMatch(/Two/)
+  } finally {
+    unwatch()
+  }
+})
@@ -0,0 +1,151 @@
+/**
+ * @module watch
+ */
+
+import { getLogger } from '@stencila/logga'
+import * as stencila from '@stencila/schema'
+import fs from 'fs'
+import path from 'path'
+import { convert, ConvertOptions, read } from '.'
+import { transformSync } from './util/transform'
+
+const log = getLogger('encoda:watch')
+
+export interface WatchOptions extends ConvertOptions {
+  /**
+   * The number of milliseconds to wait after a change before
+   * converting (so that several changes in quick succession, e.g. when
+   * an editor saves a file, only result in one conversion).
+   * Defaults to `300`.
+   */
+  debounce?: number
+}
+
+/**
+ * A function which stops watching.
+ */
+export type Unwatch = () => void
+
+/**
+ * The processing directives on a `Link` which read from its
+ * `target` (see `process`). Links with an `export` directive
+ * write to their target so it is not a dependency.
+ */
+const LINK_DIRECTIVES = ['validate', 'import', 'equals', 'include']
+
+/**
+ * Get the local files that a node depends upon.
+ *
+ * These are the `source` of `Include` nodes and the `target` of
+ * `Link` nodes that have processing directives which read from it.
+ *
+ * @param node The node to get the dependencies of
+ * @param dir The directory that relative paths are resolved against
+ * @returns A list of absolute file paths
+ */
+export function dependencies(node: stencila.Node, dir: string): string[] {
+  const files = new Set<string>()
+  transformSync(node, (node) => {
+    if (stencila.isA('Include', node)) files.add(node.source)
+    else if (stencila.isA('Link', node)) {
+      const meta = node.meta ?? {}
+      if (LINK_DIRECTIVES.some((directive) => directive in meta))
+        files.add(node.target)
+    }
+    return node
+  })
+  return [...files]
+    .filter((file) => !/^([a-z]+:|#)/i.test(file))
+    .map((file) => path.resolve(dir, file))
+}
+
+/**
+ * Convert content from one format to another and then convert it again
+ * whenever the input file, or any of the files that it depends on, change.
+ *
+ * The dependencies of the input are updated after each conversion.
+ * Errors during conversion are logged, rather than thrown, so that
+ * watching continues. Note that the Puppeteer browser (used by some codecs
+ * e.g. `pdf`) is not shutdown between conversions.
+ *
+ * @param input The input file path
+ * @param outputPaths The output file path/s
+ * @param options Conversion options, and the `debounce` delay
+ * @returns A function to call to stop watching
+ */
+export async function watch(
+  input: string,
+  outputPaths?: string | string[],
+  options: WatchOptions = {}
+): Promise<Unwatch> {
+  const { debounce = 300, ...convertOptions } = options
+  const { from, decodeOptions } = convertOptions
+
+  let watchers: fs.FSWatcher[] = []
+  let timer: NodeJS.Timeout | undefined
+  let converting = false
+  let pending = false
+  let stopped = false
+
+  // Watch a list of files, closing any existing watchers.
+  // Existing watchers are always closed because some editors save
+  // files by replacing them, after which a watcher receives no more events.
+  const rewatch = (files: string[]): void => {
+    for (const watcher of watchers) watcher.close()
+    watchers = stopped
+      ? []
+      : files
+          .filter((file) => fs.existsSync(file))
+          .map((file) => fs.watch(file, changed))
+  }
+
+  const once = async (): Promise<void> => {
+    try {
+      await convert(input, outputPaths, convertOptions)
+      log.info(`Converted "${input}"`)
+    } catch (error) {
+      log.error(error)
+    }
+
+    let files = [input]
+    try {
+      const node = await read(input, from, decodeOptions)
+      files = [input, ...dependencies(node, path.dirname(input))]
+    } catch (error) {
+      log.debug(`Unable to get dependencies of "${input}": ${error}`)
+    }
+    rewatch(files)
+  }
+
+  const run = (): void => {
+    timer = undefined
+    if (converting) {
+      pending = true
+      return
+    }
+    converting = true
+    once()
+      .then(() => {
+        converting = false
+        if (pending && !stopped) {
+          pending = false
+          run()
+        }
+      })
+      .catch((error) => log.error(error))
+  }
+
+  function changed(): void {
+    if (timer !== undefined) clearTimeout(timer)
+    timer = setTimeout(run, debounce)
+  }
+
+  await once()
+  log.info(`Watching "${input}" for changes`)
+
+  return () => {
+    stopped = true
+    if (timer !== undefined) clearTimeout(timer)
+    rewatch([])
+  }
+}